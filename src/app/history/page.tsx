@@ -0,0 +1,265 @@
+"use client";
+
+import { Trash2, TrendingUp } from "lucide-react";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+import { PageLayout } from "~/components/layout/page-layout";
+import { Button } from "~/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "~/components/ui/card";
+import {
+	type HistoryEntry,
+	type LabId,
+	type ProgressPoint,
+	buildProgressSeries,
+	clearHistory,
+	labNames,
+	loadHistoryEntries,
+} from "~/lib/session-history";
+import { themeStyles } from "~/lib/theme";
+
+// Chart colors per lab, matching each lab's accent
+const labColors: Record<LabId, { line: string; badge: string }> = {
+	"suji-dash": {
+		line: "text-purple-600 dark:text-purple-400",
+		badge: "from-purple-500 to-blue-600",
+	},
+	"hidzuke-dash": {
+		line: "text-emerald-600 dark:text-emerald-400",
+		badge: "from-emerald-500 to-teal-600",
+	},
+	"josuushi-dash": {
+		line: "text-orange-600 dark:text-orange-400",
+		badge: "from-orange-500 to-rose-600",
+	},
+};
+
+const labFilters: Array<LabId | "all"> = [
+	"all",
+	"suji-dash",
+	"hidzuke-dash",
+	"josuushi-dash",
+];
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 100;
+const CHART_PADDING = 8;
+
+// Simple line chart; one point per session
+const ProgressChart = ({
+	title,
+	points,
+	getValue,
+	maxValue,
+	formatValue,
+	className,
+}: {
+	title: string;
+	points: ProgressPoint[];
+	getValue: (point: ProgressPoint) => number;
+	maxValue: number;
+	formatValue: (value: number) => string;
+	className: string;
+}) => {
+	const values = points.map(getValue);
+	const latest = values[values.length - 1] ?? 0;
+	const scale = maxValue > 0 ? maxValue : 1;
+	const coordinates = points.map((point, index) => ({
+		key: point.endTime,
+		x:
+			values.length === 1
+				? CHART_WIDTH / 2
+				: CHART_PADDING +
+					(index / (values.length - 1)) * (CHART_WIDTH - CHART_PADDING * 2),
+		y:
+			CHART_HEIGHT -
+			CHART_PADDING -
+			(Math.min(getValue(point), scale) / scale) *
+				(CHART_HEIGHT - CHART_PADDING * 2),
+		value: getValue(point),
+	}));
+
+	return (
+		<div>
+			<div className="mb-2 flex items-baseline justify-between">
+				<span className={`font-medium text-sm ${themeStyles.text.secondary}`}>
+					{title}
+				</span>
+				<span className={`font-bold text-lg ${className}`}>
+					{formatValue(latest)}
+				</span>
+			</div>
+			<svg
+				viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+				className={`h-28 w-full rounded-lg bg-gray-50 dark:bg-gray-800 ${className}`}
+				role="img"
+				aria-label={`${title} over ${values.length} sessions`}
+			>
+				<polyline
+					points={coordinates.map(({ x, y }) => `${x},${y}`).join(" ")}
+					fill="none"
+					stroke="currentColor"
+					strokeWidth={2}
+					strokeLinejoin="round"
+				/>
+				{coordinates.map(({ key, x, y, value }) => (
+					<circle key={key} cx={x} cy={y} r={3} fill="currentColor">
+						<title>{formatValue(value)}</title>
+					</circle>
+				))}
+			</svg>
+		</div>
+	);
+};
+
+export default function HistoryPage() {
+	const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [labFilter, setLabFilter] = useState<LabId | "all">("all");
+
+	useEffect(() => {
+		loadHistoryEntries()
+			.then(setEntries)
+			.catch(() => {
+				setError("Session history is not available in this browser.");
+				setEntries([]);
+			});
+	}, []);
+
+	const handleClear = () => {
+		if (!window.confirm("Delete all saved practice sessions?")) return;
+		clearHistory()
+			.then(() => setEntries([]))
+			.catch(() => setError("Could not clear the session history."));
+	};
+
+	const series = buildProgressSeries(entries ?? []).filter(
+		(item) => labFilter === "all" || item.lab === labFilter,
+	);
+
+	return (
+		<PageLayout showBackButton={true} backHref="/">
+			<div className="container relative mx-auto px-4 py-16">
+				{/* Header */}
+				<div className="mb-12 text-center">
+					<h1 className="font-black text-4xl sm:text-5xl">
+						<span className="bg-gradient-to-r from-pink-600 via-purple-600 to-cyan-600 bg-clip-text text-transparent">
+							Progress History
+						</span>
+					</h1>
+					<p className="mt-2 text-lg text-primary">
+						Accuracy and speed for every lab and configuration you have
+						practised
+					</p>
+				</div>
+
+				<div className="mx-auto max-w-4xl space-y-6">
+					{/* Lab Filter */}
+					<div className="flex flex-wrap justify-center gap-3">
+						{labFilters.map((lab) => (
+							<Button
+								key={lab}
+								variant={labFilter === lab ? "default" : "outline"}
+								size="sm"
+								onClick={() => setLabFilter(lab)}
+							>
+								{lab === "all" ? "All Labs" : labNames[lab]}
+							</Button>
+						))}
+					</div>
+
+					{error && <p className="text-center text-red-600 text-sm">{error}</p>}
+
+					{entries === null && (
+						<p className={`text-center ${themeStyles.text.secondary}`}>
+							Loading your sessions...
+						</p>
+					)}
+
+					{entries !== null && series.length === 0 && (
+						<Card className={themeStyles.card.base}>
+							<CardContent className="p-8 text-center">
+								<TrendingUp className="mx-auto mb-4 h-8 w-8 text-purple-600" />
+								<p className={themeStyles.text.secondary}>
+									No sessions yet. Finish a practice session and it will show up
+									here.
+								</p>
+								<Link href="/">
+									<Button className="mt-6" variant="outline">
+										Choose a lab
+									</Button>
+								</Link>
+							</CardContent>
+						</Card>
+					)}
+
+					{series.map((item) => {
+						const colors = labColors[item.lab];
+						const slowest = Math.max(
+							...item.points.map((point) => point.averageSeconds),
+						);
+						return (
+							<Card
+								key={`${item.lab}-${item.configLabel}`}
+								className={themeStyles.card.base}
+							>
+								<CardHeader>
+									<div className="flex flex-wrap items-center gap-3">
+										<span
+											className={`rounded-full bg-gradient-to-r px-3 py-1 font-semibold text-white text-xs ${colors.badge}`}
+										>
+											{labNames[item.lab]}
+										</span>
+										<CardTitle className={themeStyles.text.primary}>
+											{item.configLabel}
+										</CardTitle>
+									</div>
+									<CardDescription className={themeStyles.text.secondary}>
+										{item.points.length}{" "}
+										{item.points.length === 1 ? "session" : "sessions"}, last on{" "}
+										{new Date(
+											item.points[item.points.length - 1]?.endTime ?? 0,
+										).toLocaleDateString()}
+									</CardDescription>
+								</CardHeader>
+								<CardContent className="grid gap-6 sm:grid-cols-2">
+									<ProgressChart
+										title="Accuracy"
+										points={item.points}
+										getValue={(point) => point.accuracy}
+										maxValue={100}
+										formatValue={(value) => `${value.toFixed(0)}%`}
+										className={colors.line}
+									/>
+									<ProgressChart
+										title="Avg per Question"
+										points={item.points}
+										getValue={(point) => point.averageSeconds}
+										maxValue={slowest}
+										formatValue={(value) => `${value.toFixed(1)}s`}
+										className={colors.line}
+									/>
+								</CardContent>
+							</Card>
+						);
+					})}
+
+					{entries !== null && entries.length > 0 && (
+						<div className="text-center">
+							<Button variant="outline" size="sm" onClick={handleClear}>
+								<Trash2 className="mr-2 h-4 w-4" />
+								Clear History
+							</Button>
+						</div>
+					)}
+				</div>
+			</div>
+		</PageLayout>
+	);
+}
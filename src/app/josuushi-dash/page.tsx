@@ -0,0 +1,806 @@
+"use client";
+
+import { ArrowLeft, Play, Settings, Volume2 } from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+
+import { z } from "zod";
+import { DarkModeToggle } from "~/components/dark-mode-toggle";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import {
+	type CountedNumber,
+	type CounterId,
+	convertWithCounter,
+	getCounters,
+	isCounterAnswerCorrect,
+	japaneseCounters,
+} from "~/lib/japanese-counters";
+import type { WagoNumber } from "~/lib/japanese-numbers";
+import {
+	QuizActionButton,
+	QuizPlayStep,
+	QuizResultsStep,
+	QuizStepIndicator,
+	type QuizTheme,
+	QuizTransitionStyles,
+} from "~/lib/quiz-components";
+import {
+	type QuizQuestion,
+	type QuizSession,
+	useQuiz,
+	useQuizFlow,
+} from "~/lib/quiz-engine";
+import {
+	type ExceptionCounter,
+	type ReadingException,
+	exceptionCounters,
+	getNativeDatePairs,
+	getReadingExceptions,
+	isExceptionAnswerCorrect,
+} from "~/lib/reading-exceptions";
+import {
+	booleanParam,
+	listParam,
+	numberParam,
+	quizConfigurationParams,
+} from "~/lib/session-links";
+import { themeStyles } from "~/lib/theme";
+
+interface CounterConfiguration {
+	practiceType:
+		| "number-to-reading"
+		| "kanji-to-reading"
+		| "irregular-readings"
+		| "native-to-date";
+	practiceLevel: "basic" | "compound" | "complex";
+	counters: CounterId[];
+	// Counters drawn from in the irregular-readings practice type
+	exceptionGroups: ExceptionCounter[];
+	rangeMin: number;
+	rangeMax: number;
+	questionCount: number;
+	pronunciationSettings: {
+		autoPlay: boolean;
+		playSpeed: number;
+	};
+}
+
+type GameSession = QuizSession<CounterConfiguration>;
+
+// The counts each level asks about
+const levelRanges: Record<
+	CounterConfiguration["practiceLevel"],
+	[number, number]
+> = {
+	basic: [1, 10],
+	compound: [1, 99],
+	complex: [1, 9999],
+};
+
+const withLevelRange = (config: CounterConfiguration) => {
+	const [rangeMin, rangeMax] = levelRanges[config.practiceLevel];
+	return { ...config, rangeMin, rangeMax };
+};
+
+const defaultConfiguration: CounterConfiguration = {
+	practiceType: "number-to-reading",
+	practiceLevel: "basic",
+	counters: ["hon", "hiki", "nin", "tsu"],
+	exceptionGroups: ["sai", "nin", "nichi"],
+	rangeMin: 1,
+	rangeMax: 10,
+	questionCount: 10,
+	pronunciationSettings: {
+		autoPlay: true,
+		playSpeed: 0.8,
+	},
+};
+
+// Settings as they appear in links (?counters=hon,mai&practiceLevel=compound).
+// The range always follows the level.
+const configurationSchema: z.ZodType<
+	CounterConfiguration,
+	z.ZodTypeDef,
+	unknown
+> = z
+	.object({
+		...quizConfigurationParams,
+		practiceType: z.enum([
+			"number-to-reading",
+			"kanji-to-reading",
+			"irregular-readings",
+			"native-to-date",
+		]),
+		practiceLevel: z.enum(["basic", "compound", "complex"]),
+		counters: listParam(
+			z
+				.string()
+				.refine((id): id is CounterId => Object.hasOwn(japaneseCounters, id)),
+		),
+		exceptionGroups: listParam(
+			z
+				.string()
+				.refine((id): id is ExceptionCounter =>
+					Object.hasOwn(exceptionCounters, id),
+				),
+		),
+		rangeMin: numberParam,
+		rangeMax: numberParam,
+		pronunciationSettings: z.object({
+			autoPlay: booleanParam,
+			playSpeed: numberParam.pipe(z.number().min(0.5).max(2)),
+		}),
+	})
+	.transform(withLevelRange);
+
+interface CounterQuestion extends QuizQuestion {
+	// A counted number, or an irregular reading (はたち, ついたち)
+	count: CountedNumber | ReadingException;
+	// The native numeral a date reading grew from (ふたつ for ふつか)
+	wago?: WagoNumber;
+}
+
+// Accent colors for the shared quiz steps
+const quizTheme: QuizTheme = {
+	backButton: "hover:text-orange-600",
+	progressBar: "from-orange-500 to-rose-600",
+	prompt: "from-orange-500 via-rose-500 to-pink-600",
+	input:
+		"border-orange-200 bg-white/80 focus:border-orange-500 focus:outline-none focus:ring-2 focus:ring-orange-200 dark:border-orange-700 dark:bg-gray-800/80 dark:text-white dark:focus:border-orange-400 dark:focus:ring-orange-400/50",
+	checkButton:
+		"from-orange-500 to-rose-600 hover:from-orange-600 hover:to-rose-700",
+	nextButton:
+		"from-amber-500 to-orange-600 hover:from-amber-600 hover:to-orange-700",
+	outlineButton:
+		"border-orange-300 text-orange-600 hover:border-orange-400 hover:bg-orange-50",
+	statsBox: "border-orange-100",
+	statsAccent: "text-orange-600",
+	stepActive: "bg-orange-600",
+	restartButton: "from-orange-500 to-rose-600",
+	stats: [
+		{
+			box: "bg-green-50 dark:bg-green-900/20",
+			value: "text-green-600 dark:text-green-400",
+			label: "text-green-700 dark:text-green-300",
+		},
+		{
+			box: "bg-orange-50 dark:bg-orange-900/20",
+			value: "text-orange-600 dark:text-orange-400",
+			label: "text-orange-700 dark:text-orange-300",
+		},
+		{
+			box: "bg-rose-50 dark:bg-rose-900/20",
+			value: "text-rose-600 dark:text-rose-400",
+			label: "text-rose-700 dark:text-rose-300",
+		},
+		{
+			box: "bg-amber-50 dark:bg-amber-900/20",
+			value: "text-amber-600 dark:text-amber-400",
+			label: "text-amber-700 dark:text-amber-300",
+		},
+	],
+};
+
+// Generate a count with one of the selected counters
+const generateCount = (
+	config: CounterConfiguration,
+	random: () => number,
+): CountedNumber => {
+	const counterId =
+		config.counters[Math.floor(random() * config.counters.length)] ?? "hon";
+	const counter = japaneseCounters[counterId];
+	// Native-number counters (つ) only make sense up to their limit
+	const rangeMax = Math.min(
+		config.rangeMax,
+		counter.bareAbove ?? config.rangeMax,
+	);
+	const rangeMin = Math.min(config.rangeMin, rangeMax);
+	const count = Math.floor(random() * (rangeMax - rangeMin + 1)) + rangeMin;
+	return convertWithCounter(count, counterId);
+};
+
+// Pick one of the irregular readings of the selected counters
+const generateException = (
+	config: CounterConfiguration,
+	random: () => number,
+): ReadingException => {
+	const exceptions = config.exceptionGroups.flatMap((group) =>
+		getReadingExceptions(group),
+	);
+	const exception =
+		exceptions[Math.floor(random() * exceptions.length)] ??
+		getReadingExceptions()[0];
+	if (!exception) throw new Error("No irregular readings to practise");
+	return exception;
+};
+
+// Irregular readings and native numbers don't use the counters or range
+const usesCounters = (config: CounterConfiguration) =>
+	config.practiceType === "number-to-reading" ||
+	config.practiceType === "kanji-to-reading";
+
+// Pair a native numeral with the day it names (ふたつ → 二日 → ふつか)
+const generateNativeDateQuestion = (random: () => number): CounterQuestion => {
+	const pairs = getNativeDatePairs();
+	const pair = pairs[Math.floor(random() * pairs.length)];
+	if (!pair) throw new Error("No native numbers to practise");
+	return {
+		count: pair.date,
+		wago: pair.wago,
+		prompt: `${pair.wago.hiragana} → ${pair.date.kanji}`,
+		correctAnswer: getCorrectAnswers(pair.date).join(" / "),
+	};
+};
+
+const getQuestionDisplay = (
+	config: CounterConfiguration,
+	count: CountedNumber | ReadingException,
+) => {
+	if (!("counterId" in count)) return count.kanji;
+	const counter = japaneseCounters[count.counterId];
+	switch (config.practiceType) {
+		case "number-to-reading":
+			return `${count.number}${counter.kanji}`;
+		case "kanji-to-reading":
+			return count.kanji;
+		default:
+			return `${count.number}${counter.kanji}`;
+	}
+};
+
+const getCorrectAnswers = (count: CountedNumber | ReadingException) => [
+	count.hiragana,
+	count.romaji,
+	...(count.alternatives ?? []).map((alternative) => alternative.hiragana),
+];
+
+const speakJapanese = (
+	config: CounterConfiguration,
+	count: CountedNumber | ReadingException,
+) => {
+	if ("speechSynthesis" in window) {
+		window.speechSynthesis.cancel();
+
+		const utterance = new SpeechSynthesisUtterance(count.hiragana);
+		utterance.lang = "ja-JP";
+		utterance.rate = config.pronunciationSettings.playSpeed;
+		utterance.pitch = 1.0;
+
+		const voices = window.speechSynthesis.getVoices();
+		const japaneseVoice = voices.find((voice) => voice.lang.includes("ja"));
+		if (japaneseVoice) utterance.voice = japaneseVoice;
+
+		window.speechSynthesis.speak(utterance);
+	}
+};
+
+const ConfigurationStep = ({
+	initialConfig,
+	onStart,
+}: {
+	initialConfig: CounterConfiguration;
+	onStart: (config: CounterConfiguration) => void;
+}) => {
+	const [config, setConfig] = useState<CounterConfiguration>(initialConfig);
+
+	const toggleExceptionGroup = (group: ExceptionCounter) => {
+		setConfig((prev) => {
+			const isSelected = prev.exceptionGroups.includes(group);
+			// Always keep at least one group selected
+			if (isSelected && prev.exceptionGroups.length === 1) {
+				return prev;
+			}
+			return {
+				...prev,
+				exceptionGroups: isSelected
+					? prev.exceptionGroups.filter((id) => id !== group)
+					: [...prev.exceptionGroups, group],
+			};
+		});
+	};
+
+	const toggleCounter = (counterId: CounterId) => {
+		setConfig((prev) => {
+			const isSelected = prev.counters.includes(counterId);
+			// Always keep at least one counter selected
+			if (isSelected && prev.counters.length === 1) {
+				return prev;
+			}
+			return {
+				...prev,
+				counters: isSelected
+					? prev.counters.filter((id) => id !== counterId)
+					: [...prev.counters, counterId],
+			};
+		});
+	};
+
+	return (
+		<>
+			{/* Floating Back Button - Outside transition container */}
+			<div className="fade-in-0 fixed top-6 left-6 z-50 animate-in delay-300 duration-500">
+				<Link
+					href="/"
+					className="flex h-10 w-10 items-center justify-center rounded-full bg-white/80 text-gray-600 shadow-lg backdrop-blur-sm transition-all hover:bg-white hover:text-orange-600 hover:shadow-xl dark:bg-gray-800/80 dark:text-gray-300 dark:hover:bg-gray-700 dark:hover:text-orange-400"
+				>
+					<ArrowLeft className="h-4 w-4" />
+				</Link>
+			</div>
+
+			{/* Dark Mode Toggle */}
+			<div className="fade-in-0 fixed top-6 right-6 z-50 animate-in delay-300 duration-500">
+				<DarkModeToggle />
+			</div>
+
+			<div
+				className="fade-in-0 slide-in-from-bottom-4 mx-auto max-w-2xl animate-in space-y-6 duration-700"
+				style={{ viewTransitionName: "config-step" }}
+			>
+				<div className="text-center">
+					<h2 className={`mb-4 font-bold text-3xl ${themeStyles.text.primary}`}>
+						Configure Your Practice Session
+					</h2>
+					<p className={themeStyles.text.secondary}>
+						Set up your 助数詞-Dash practice session. Pick the counters you want
+						to drill.
+					</p>
+				</div>
+
+				<Card className="shadow-xl">
+					<CardHeader>
+						<CardTitle className="flex items-center gap-2">
+							<Settings className="h-5 w-5 text-orange-600" />
+							Practice Settings
+						</CardTitle>
+					</CardHeader>
+					<CardContent className="space-y-6">
+						{/* Practice Type */}
+						<div className="space-y-3">
+							<h3 className={`font-medium text-sm ${themeStyles.text.primary}`}>
+								Practice Type
+							</h3>
+							<div className="grid grid-cols-1 gap-3">
+								{[
+									{
+										id: "number-to-reading",
+										label: "Number + Counter → Reading",
+										description: "See: 3本 → Answer: さんぼん",
+									},
+									{
+										id: "kanji-to-reading",
+										label: "Kanji → Reading",
+										description: "See: 六匹 → Answer: ろっぴき",
+									},
+									{
+										id: "irregular-readings",
+										label: "Irregular Readings",
+										description: "See: 二十歳 → Answer: はたち",
+									},
+									{
+										id: "native-to-date",
+										label: "Native Numbers → Dates",
+										description: "See: ふたつ → 二日 → Answer: ふつか",
+									},
+								].map((type) => (
+									<Button
+										key={type.id}
+										variant={
+											config.practiceType === type.id ? "default" : "outline"
+										}
+										onClick={() =>
+											setConfig((prev) => ({
+												...prev,
+												practiceType:
+													type.id as CounterConfiguration["practiceType"],
+											}))
+										}
+										className="h-auto justify-start p-4"
+									>
+										<div className="text-left">
+											<div className="font-semibold">{type.label}</div>
+											<div className="mt-1 text-xs opacity-75">
+												{type.description}
+											</div>
+										</div>
+									</Button>
+								))}
+							</div>
+						</div>
+
+						{config.practiceType === "irregular-readings" && (
+							<div className="space-y-3">
+								<h3
+									className={`font-medium text-sm ${themeStyles.text.primary}`}
+								>
+									Irregular Readings
+								</h3>
+								<div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+									{(Object.keys(exceptionCounters) as ExceptionCounter[]).map(
+										(group) => (
+											<Button
+												key={group}
+												variant={
+													config.exceptionGroups.includes(group)
+														? "default"
+														: "outline"
+												}
+												onClick={() => toggleExceptionGroup(group)}
+												className="h-auto justify-start p-3 text-left"
+											>
+												<div>
+													<div className="font-semibold text-lg">
+														{exceptionCounters[group].kanji}
+													</div>
+													<div className="text-xs opacity-75">
+														{exceptionCounters[group].english} •{" "}
+														{getReadingExceptions(group)
+															.slice(0, 3)
+															.map((exception) => exception.hiragana)
+															.join(", ")}
+													</div>
+												</div>
+											</Button>
+										),
+									)}
+								</div>
+							</div>
+						)}
+
+						{usesCounters(config) && (
+							<>
+								{/* Counters */}
+								<div className="space-y-3">
+									<h3
+										className={`font-medium text-sm ${themeStyles.text.primary}`}
+									>
+										Counters
+									</h3>
+									<div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+										{getCounters().map((counter) => (
+											<Button
+												key={counter.id}
+												variant={
+													config.counters.includes(counter.id)
+														? "default"
+														: "outline"
+												}
+												onClick={() => toggleCounter(counter.id)}
+												className="h-auto justify-start p-3 text-left"
+											>
+												<div>
+													<div className="font-semibold text-lg">
+														{counter.kanji}
+													</div>
+													<div className="text-xs opacity-75">
+														{counter.english}
+													</div>
+												</div>
+											</Button>
+										))}
+									</div>
+								</div>
+
+								{/* Practice Level */}
+								<div className="space-y-3">
+									<h3
+										className={`font-medium text-sm ${themeStyles.text.primary}`}
+									>
+										Difficulty Level
+									</h3>
+									<div className="grid grid-cols-3 gap-3">
+										{[
+											{ id: "basic", label: "Basic", range: "1-10" },
+											{ id: "compound", label: "Compound", range: "1-99" },
+											{ id: "complex", label: "Complex", range: "1-9999" },
+										].map((level) => (
+											<Button
+												key={level.id}
+												variant={
+													config.practiceLevel === level.id
+														? "default"
+														: "outline"
+												}
+												onClick={() =>
+													setConfig((prev) =>
+														withLevelRange({
+															...prev,
+															practiceLevel:
+																level.id as CounterConfiguration["practiceLevel"],
+														}),
+													)
+												}
+												className="h-auto justify-start p-3 text-left"
+											>
+												<div>
+													<div className="font-semibold text-sm">
+														{level.label}
+													</div>
+													<div className="text-xs opacity-75">
+														{level.range}
+													</div>
+												</div>
+											</Button>
+										))}
+									</div>
+								</div>
+							</>
+						)}
+
+						{/* Session Settings */}
+						<div className="space-y-3">
+							<h3 className={`font-medium text-sm ${themeStyles.text.primary}`}>
+								Session Length
+							</h3>
+							<div className="grid grid-cols-3 gap-3">
+								{[
+									{ count: 5, label: "Quick (5)" },
+									{ count: 10, label: "Standard (10)" },
+									{ count: 20, label: "Extended (20)" },
+								].map((session) => (
+									<Button
+										key={session.count}
+										variant={
+											config.questionCount === session.count
+												? "default"
+												: "outline"
+										}
+										onClick={() =>
+											setConfig((prev) => ({
+												...prev,
+												questionCount: session.count,
+											}))
+										}
+										size="sm"
+									>
+										{session.label}
+									</Button>
+								))}
+							</div>
+						</div>
+
+						{/* Start Button */}
+						<div className="border-t pt-4">
+							<Button
+								onClick={() => onStart(config)}
+								className="w-full transform bg-gradient-to-r from-orange-500 to-rose-600 text-white shadow-lg transition-all duration-300 hover:scale-105 hover:shadow-xl"
+								size="lg"
+							>
+								<Play className="mr-2 h-4 w-4" />
+								Start Practice Session
+							</Button>
+						</div>
+					</CardContent>
+				</Card>
+			</div>
+		</>
+	);
+};
+
+const GamePlayStep = ({
+	config,
+	onComplete,
+	onBack,
+}: {
+	config: CounterConfiguration;
+	onComplete: (session: GameSession) => void;
+	onBack: () => void;
+}) => {
+	const quiz = useQuiz({
+		config,
+		generateQuestion: (random): CounterQuestion => {
+			if (config.practiceType === "native-to-date") {
+				return generateNativeDateQuestion(random);
+			}
+			const count =
+				config.practiceType === "irregular-readings"
+					? generateException(config, random)
+					: generateCount(config, random);
+			return {
+				count,
+				prompt: getQuestionDisplay(config, count),
+				correctAnswer: getCorrectAnswers(count).join(" / "),
+			};
+		},
+		checkAnswer: (guess, question) =>
+			"counterId" in question.count
+				? isCounterAnswerCorrect(guess, question.count)
+				: isExceptionAnswerCorrect(guess, question.count),
+		onAnswer: (question) => {
+			if (config.pronunciationSettings.autoPlay) {
+				setTimeout(() => {
+					speakJapanese(config, question.count);
+				}, 300);
+			}
+		},
+		onComplete,
+	});
+
+	const count = quiz.question?.count;
+	const counter = count
+		? "counterId" in count
+			? japaneseCounters[count.counterId]
+			: exceptionCounters[count.counter]
+		: null;
+
+	return (
+		<QuizPlayStep
+			quiz={quiz}
+			theme={quizTheme}
+			onBack={onBack}
+			subtitle={counter ? `${counter.kanji} • ${counter.english}` : ""}
+			instruction="How do you read this count?"
+			answerDetails={
+				count && "note" in count ? (
+					<>
+						<p className={`font-medium text-lg ${themeStyles.text.primary}`}>
+							Correct answer: {quiz.question?.correctAnswer}
+						</p>
+						{quiz.question?.wago && (
+							<p className={`mt-1 text-sm ${themeStyles.text.secondary}`}>
+								{quiz.question.wago.kanji} {quiz.question.wago.hiragana} →{" "}
+								{count.kanji} {count.hiragana}
+							</p>
+						)}
+						<p className={`mt-1 text-sm ${themeStyles.text.secondary}`}>
+							{count.note}
+						</p>
+					</>
+				) : undefined
+			}
+			actions={
+				<QuizActionButton
+					theme={quizTheme}
+					onClick={() => {
+						if (quiz.question) speakJapanese(config, quiz.question.count);
+					}}
+				>
+					<Volume2 className="h-4 w-4" />
+				</QuizActionButton>
+			}
+		/>
+	);
+};
+
+// Sessions with the same label are charted together on the history page
+const describeConfiguration = (config: CounterConfiguration) => {
+	switch (config.practiceType) {
+		case "irregular-readings":
+			return `${config.exceptionGroups.map((id) => exceptionCounters[id].kanji).join(" ")} • irregular`;
+		case "native-to-date":
+			return "つ → 日 • native";
+		default:
+			return `${config.counters.map((id) => japaneseCounters[id].kanji).join(" ")} • ${config.practiceLevel}`;
+	}
+};
+
+const ResultsStep = ({
+	session,
+	personalBest,
+	onRestart,
+	onBackToMenu,
+}: {
+	session: GameSession;
+	personalBest: number | null;
+	onRestart: () => void;
+	onBackToMenu: () => void;
+}) => {
+	const missedAnswers = session.answers.filter((answer) => !answer.isCorrect);
+
+	return (
+		<QuizResultsStep
+			session={session}
+			theme={quizTheme}
+			personalBest={personalBest}
+			onRestart={onRestart}
+			onBackToMenu={onBackToMenu}
+			details={
+				<>
+					<div>
+						Practice Type:{" "}
+						{session.configuration.practiceType.replace("-to-", " → ")}
+					</div>
+					{session.configuration.practiceType === "irregular-readings" && (
+						<div>
+							Irregular Readings:{" "}
+							{session.configuration.exceptionGroups
+								.map((id) => exceptionCounters[id].kanji)
+								.join(" ")}
+						</div>
+					)}
+					{usesCounters(session.configuration) && (
+						<>
+							<div>
+								Counters:{" "}
+								{session.configuration.counters
+									.map((id) => japaneseCounters[id].kanji)
+									.join(" ")}
+							</div>
+							<div>
+								Range: {session.configuration.rangeMin} -{" "}
+								{session.configuration.rangeMax}
+							</div>
+						</>
+					)}
+				</>
+			}
+		>
+			{/* Missed Readings */}
+			{missedAnswers.length > 0 && (
+				<div className={`rounded-lg p-4 ${themeStyles.page.sectionAlt}`}>
+					<h4 className={`mb-2 font-semibold ${themeStyles.text.primary}`}>
+						Readings to Review
+					</h4>
+					<div className={`space-y-1 text-sm ${themeStyles.text.secondary}`}>
+						{missedAnswers.map((answer) => (
+							<div key={`${answer.question}-${answer.timeMs}`}>
+								{answer.question} → {answer.correctAnswer}
+							</div>
+						))}
+					</div>
+				</div>
+			)}
+		</QuizResultsStep>
+	);
+};
+
+export default function CounterDashPage() {
+	const flow = useQuizFlow({
+		lab: "josuushi-dash",
+		describeConfiguration,
+		configurationSchema,
+		defaultConfiguration,
+	});
+
+	return (
+		<main className="min-h-screen bg-gradient-to-br from-orange-50 via-rose-50 to-amber-50 dark:from-gray-900 dark:via-rose-950 dark:to-orange-950">
+			<QuizTransitionStyles />
+
+			{/* Background decorative elements */}
+			<div className="pointer-events-none fixed inset-0 overflow-hidden">
+				<div className="-top-40 -right-32 absolute h-80 w-80 rounded-full bg-gradient-to-br from-orange-300/30 to-rose-400/30 blur-3xl" />
+				<div className="-bottom-32 -left-32 absolute h-80 w-80 rounded-full bg-gradient-to-br from-amber-300/30 to-orange-400/30 blur-3xl" />
+			</div>
+
+			<div className="container relative mx-auto px-4 py-16">
+				{/* Header */}
+				<div className="mb-12 text-center">
+					<h1 className="font-black text-4xl sm:text-5xl">
+						<span className="bg-gradient-to-r from-orange-500 via-rose-500 to-pink-600 bg-clip-text text-transparent">
+							助数詞-Dash
+						</span>
+					</h1>
+					<p className="mt-2 text-lg text-primary">
+						Master Japanese counters and their sound changes
+					</p>
+					<QuizStepIndicator gameState={flow.gameState} theme={quizTheme} />
+				</div>
+
+				{/* Game Flow */}
+				{flow.gameState === "configuration" && flow.initialConfig && (
+					<ConfigurationStep
+						initialConfig={flow.initialConfig}
+						onStart={flow.start}
+					/>
+				)}
+
+				{flow.gameState === "playing" && flow.config && (
+					<GamePlayStep
+						config={flow.config}
+						onComplete={flow.complete}
+						onBack={flow.backToConfiguration}
+					/>
+				)}
+
+				{flow.gameState === "results" && flow.session && (
+					<ResultsStep
+						session={flow.session}
+						personalBest={flow.personalBest}
+						onRestart={flow.backToConfiguration}
+						onBackToMenu={flow.backToMenu}
+					/>
+				)}
+			</div>
+		</main>
+	);
+}
@@ -3,6 +3,7 @@ import {
 	Calculator,
 	Calendar,
 	Github,
+	Hash,
 	Play,
 	Sparkles,
 	Target,
@@ -12,6 +13,7 @@ import {
 } from "lucide-react";
 import Link from "next/link";
 
+import { DailyChallengeCard } from "~/components/daily-challenge-card";
 import { Heading, PageLayout, Section } from "~/components/layout/page-layout";
 import { Badge } from "~/components/ui/badge";
 import { Button } from "~/components/ui/button";
@@ -72,12 +74,31 @@ const learningTools: LearningTool[] = [
 			"Month names and counters",
 			"Date expressions",
 			"Time-related vocabulary",
-			"Real calendar integration",
+			"Real calendar dates with 和暦 eras",
 			"Audio pronunciation",
 		],
 		color: "from-emerald-500 to-teal-600",
 		status: "available",
 	},
+	{
+		id: "counter-dash",
+		title: "助数詞-Dash (Josuushi-Dash)",
+		description: "Master Japanese counters and their sound changes",
+		longDescription:
+			"Practice counting pens, cats, people and minutes with 本, 匹, 人, つ, 分 and more, including every いっぽん and さんびき sound change.",
+		icon: <Hash className="h-8 w-8" />,
+		href: "/josuushi-dash",
+		difficulty: "Intermediate",
+		features: [
+			"Common counters plus 時, 時間, 週間, か月 and 年",
+			"Rendaku and gemination rules",
+			"Irregular readings (ひとり, ふたつ)",
+			"Alternative readings accepted",
+			"Audio pronunciation",
+		],
+		color: "from-orange-500 to-rose-600",
+		status: "available",
+	},
 ];
 
 export default function Home() {
@@ -125,6 +146,7 @@ export default function Home() {
 						</div>
 
 						<div className="mx-auto max-w-6xl pt-16">
+							<DailyChallengeCard />
 							<div className="grid grid-cols-1 gap-8 md:grid-cols-2">
 								{learningTools.map((tool) => (
 									<Card key={tool.id} className={themeStyles.card.interactive}>
@@ -275,6 +297,12 @@ export default function Home() {
 							<CardDescription className={themeStyles.text.secondary}>
 								See your improvement over time with simple progress tracking
 							</CardDescription>
+							<Link
+								href="/history"
+								className="font-medium text-cyan-600 text-sm hover:underline"
+							>
+								View your history →
+							</Link>
 						</CardHeader>
 					</Card>
 
@@ -1,47 +1,106 @@
 "use client";
 
-import {
-	ArrowLeft,
-	Check,
-	Eye,
-	EyeOff,
-	Play,
-	RefreshCw,
-	Settings,
-	Target,
-	Volume2,
-	X,
-} from "lucide-react";
+import { ArrowLeft, Play, Settings, Timer, Volume2 } from "lucide-react";
 import Link from "next/link";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useState } from "react";
 
+import { z } from "zod";
 import { DarkModeToggle } from "~/components/dark-mode-toggle";
 import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
 import {
-	Card,
-	CardContent,
-	CardDescription,
-	CardHeader,
-	CardTitle,
-} from "~/components/ui/card";
+	createDigitExpression,
+	generateDigitString,
+	isDigitAnswerCorrect,
+} from "~/lib/japanese-digits";
+import { parseJapaneseBigInt } from "~/lib/japanese-number-parser";
 import {
-	type JapaneseNumber,
-	convertToEnglish,
-	convertToJapanese,
+	type NumberExpression,
+	type RomajiStrictness,
+	createIntegerExpression,
+	formatFormalAmount,
 	formatNumberWithCommas,
+	generateFractionalExpression,
+	generateNumberWithPattern,
+	generateRandomBigInt,
+	getAnswerUsage,
+	getNumberPatterns,
 	isAnswerCorrect,
 	roundToRealistic,
 } from "~/lib/japanese-numbers";
+import {
+	type Price,
+	convertPriceToJapanese,
+	createPriceExpression,
+	formatPreTax,
+	generatePrice,
+	isPriceAnswerCorrect,
+} from "~/lib/japanese-prices";
+import {
+	type ListeningSettings,
+	defaultListeningSettings,
+	getListeningSpeed,
+	useListening,
+} from "~/lib/listening";
+import {
+	type MistakeCategory,
+	diagnoseNumberMistake,
+	mistakeCategories,
+	summarizeMistakes,
+} from "~/lib/number-diagnostics";
+import {
+	QuizActionButton,
+	QuizListeningPrompt,
+	QuizListeningSettings,
+	QuizPlayStep,
+	QuizResultsStep,
+	QuizReviewGate,
+	QuizSpeechButton,
+	QuizStepIndicator,
+	type QuizTheme,
+	QuizTransitionStyles,
+} from "~/lib/quiz-components";
+import {
+	type QuizQuestion,
+	type QuizSession,
+	useQuiz,
+	useQuizFlow,
+} from "~/lib/quiz-engine";
+import {
+	FALSE,
+	type QuestionFormat,
+	TRUE,
+	collectOtherStatements,
+	createChoices,
+	createSpotTheWrong,
+	createTrueFalse,
+	getReadingMistakes,
+	pickDistractors,
+	questionFormats,
+} from "~/lib/quiz-formats";
+import {
+	booleanParam,
+	listeningParams,
+	numberParam,
+	questionFormatParam,
+	quizConfigurationParams,
+} from "~/lib/session-links";
+import { pickReviewItem } from "~/lib/spaced-repetition";
+import {
+	createWebSpeechProvider,
+	useSpeechAnswer,
+} from "~/lib/speech-recognition";
 import { themeStyles } from "~/lib/theme";
 
-// Game flow states
-type GameState = "configuration" | "playing" | "results";
-
 interface PracticeConfiguration {
 	practiceType:
 		| "number-to-japanese"
 		| "kanji-to-japanese"
-		| "kanji-to-english-or-romanization";
+		| "kanji-to-english-or-romanization"
+		| "formal-amount"
+		| "price"
+		| "digit-strings"
+		| "listening-to-number";
 	practiceLevel:
 		| "basic"
 		| "compound"
@@ -51,49 +110,133 @@ interface PracticeConfiguration {
 		| "millions"
 		| "billions"
 		| "trillions"
+		| "kei"
+		| "decimals"
+		| "review"
 		| "custom";
 	rangeMin: number;
 	rangeMax: number;
 	questionCount: number;
 	timeLimit?: number; // in seconds, optional
+	sessionTimeLimit?: number; // time attack, in seconds
 	pronunciationSettings: {
 		autoPlay: boolean;
 		playSpeed: number;
 		voice: "standard" | "alternative";
 	};
+	listening: ListeningSettings;
+	// Answer out loud through speech recognition as well as by typing
+	spokenAnswers: boolean;
+	// How closely romaji answers must follow Hepburn
+	romajiMatching: RomajiStrictness;
+	// Type the reading or pick it (reading practice types only)
+	questionFormat: QuestionFormat;
+	// Show prices on a supermarket price tag instead of as plain text
+	priceTags: boolean;
 }
 
-interface GameSession {
-	configuration: PracticeConfiguration;
-	startTime: Date;
-	endTime?: Date;
-	totalQuestions: number;
-	correctAnswers: number;
-	answers: Array<{
-		question: string;
-		correctAnswer: string;
-		userAnswer: string;
-		timeMs: number;
-		isCorrect: boolean;
-	}>;
-}
+type GameSession = QuizSession<PracticeConfiguration>;
+
+// The numbers each level asks about; other levels have their own generators
+// or, for custom, the range the user sets
+const levelRanges: Partial<
+	Record<PracticeConfiguration["practiceLevel"], [number, number]>
+> = {
+	basic: [1, 19],
+	compound: [20, 99],
+	complex: [100, 999],
+	advanced: [1000, 9999],
+	master: [10000, 99999],
+	millions: [1000000, 99999999],
+	billions: [100000000, 999999999999],
+	trillions: [1000000000000, 999999999999999],
+};
+
+const withLevelRange = (config: PracticeConfiguration) => {
+	const range = levelRanges[config.practiceLevel];
+	return range ? { ...config, rangeMin: range[0], rangeMax: range[1] } : config;
+};
+
+const defaultConfiguration: PracticeConfiguration = {
+	practiceType: "number-to-japanese",
+	practiceLevel: "basic",
+	rangeMin: 1,
+	rangeMax: 19,
+	questionCount: 10,
+	pronunciationSettings: {
+		autoPlay: true,
+		playSpeed: 0.8,
+		voice: "standard",
+	},
+	listening: defaultListeningSettings,
+	spokenAnswers: false,
+	romajiMatching: "lenient",
+	questionFormat: "typed",
+	priceTags: false,
+};
+
+// Settings as they appear in links
+// (?practiceType=kanji-to-japanese&practiceLevel=millions&questionCount=20)
+const configurationSchema: z.ZodType<
+	PracticeConfiguration,
+	z.ZodTypeDef,
+	unknown
+> = z
+	.object({
+		...quizConfigurationParams,
+		practiceType: z.enum([
+			"number-to-japanese",
+			"kanji-to-japanese",
+			"kanji-to-english-or-romanization",
+			"formal-amount",
+			"price",
+			"digit-strings",
+			"listening-to-number",
+		]),
+		practiceLevel: z.enum([
+			"basic",
+			"compound",
+			"complex",
+			"advanced",
+			"master",
+			"millions",
+			"billions",
+			"trillions",
+			"kei",
+			"decimals",
+			// Asks the opener's own due items, so it doesn't replay across learners
+			"review",
+			"custom",
+		]),
+		rangeMin: numberParam.pipe(z.number().int().min(1)),
+		rangeMax: numberParam.pipe(z.number().int().min(1)),
+		pronunciationSettings: z.object({
+			autoPlay: booleanParam,
+			playSpeed: numberParam.pipe(z.number().min(0.5).max(2)),
+			voice: z.enum(["standard", "alternative"]),
+		}),
+		listening: listeningParams,
+		spokenAnswers: booleanParam,
+		romajiMatching: z.enum(["strict", "lenient", "kana-only"]),
+		questionFormat: questionFormatParam,
+		priceTags: booleanParam,
+	})
+	.refine((config) => config.rangeMin <= config.rangeMax)
+	.transform(withLevelRange);
+
+const TIME_ATTACK_SECONDS = 60;
 
 // Import existing practice components
 const ConfigurationStep = ({
+	initialConfig,
 	onStart,
-}: { onStart: (config: PracticeConfiguration) => void }) => {
-	const [config, setConfig] = useState<PracticeConfiguration>({
-		practiceType: "number-to-japanese",
-		practiceLevel: "basic",
-		rangeMin: 1,
-		rangeMax: 19,
-		questionCount: 10,
-		pronunciationSettings: {
-			autoPlay: true,
-			playSpeed: 0.8,
-			voice: "standard",
-		},
-	});
+	dueCount,
+}: {
+	initialConfig: PracticeConfiguration;
+	onStart: (config: PracticeConfiguration) => void;
+	dueCount: number;
+}) => {
+	const [config, setConfig] = useState<PracticeConfiguration>(initialConfig);
 
 	return (
 		<>
@@ -154,7 +297,31 @@ const ConfigurationStep = ({
 									{
 										id: "kanji-to-english-or-romanization",
 										label: "Kanji → English/Number",
-										description: "See: 四十二 → Answer: forty-two OR 42",
+										description:
+											"See: 四十二 → Answer: forty-two, 42 OR yonjuuni",
+									},
+									{
+										id: "formal-amount",
+										label: "Formal Amount (大字)",
+										description:
+											"See: 金壱萬円也 → Answer: 10000円 OR いちまんえん",
+									},
+									{
+										id: "price",
+										label: "Prices (円)",
+										description:
+											"See: ¥1,980, 3万9800円, 税込 → Answer: せんきゅうひゃくはちじゅうえん",
+									},
+									{
+										id: "digit-strings",
+										label: "Phone & Postal Codes",
+										description:
+											"See: 090-1234-5678 → Answer: ゼロきゅうゼロのいちにさんよん…",
+									},
+									{
+										id: "listening-to-number",
+										label: "Listening → Number",
+										description: "Hear: よんじゅうに → Answer: 42",
 									},
 								].map((type) => (
 									<Button
@@ -183,97 +350,107 @@ const ConfigurationStep = ({
 						</div>
 
 						{/* Practice Level */}
-						<div className="space-y-3">
-							<h3 className={`font-medium text-sm ${themeStyles.text.primary}`}>
-								Difficulty Level
-							</h3>
-							<div className="grid grid-cols-2 gap-3">
-								{[
-									{
-										id: "basic",
-										label: "Basic",
-										range: "1-19",
-										description: "Simple sounds",
-									},
-									{
-										id: "compound",
-										label: "Compound",
-										range: "20-99",
-										description: "Two-part numbers",
-									},
-									{
-										id: "complex",
-										label: "Complex",
-										range: "100-999",
-										description: "Sound changes",
-									},
-									{
-										id: "advanced",
-										label: "Advanced",
-										range: "1000-9999",
-										description: "Long compounds",
-									},
-									{
-										id: "master",
-										label: "Master",
-										range: "10000+",
-										description: "万 notation",
-									},
-									{
-										id: "custom",
-										label: "Custom",
-										range: "Your choice",
-										description: "Set your own range",
-									},
-								].map((level) => (
-									<Button
-										key={level.id}
-										variant={
-											config.practiceLevel === level.id ? "default" : "outline"
-										}
-										onClick={() => {
-											setConfig((prev) => {
-												const newConfig = {
-													...prev,
-													practiceLevel:
-														level.id as PracticeConfiguration["practiceLevel"],
-												};
-												// Set default ranges based on level
-												if (level.id === "basic") {
-													newConfig.rangeMin = 1;
-													newConfig.rangeMax = 19;
-												} else if (level.id === "compound") {
-													newConfig.rangeMin = 20;
-													newConfig.rangeMax = 99;
-												} else if (level.id === "complex") {
-													newConfig.rangeMin = 100;
-													newConfig.rangeMax = 999;
-												} else if (level.id === "advanced") {
-													newConfig.rangeMin = 1000;
-													newConfig.rangeMax = 9999;
-												} else if (level.id === "master") {
-													newConfig.rangeMin = 10000;
-													newConfig.rangeMax = 99999;
-												}
-												return newConfig;
-											});
-										}}
-										className="h-auto justify-start p-3 text-left"
-									>
-										<div>
-											<div className="font-semibold text-sm">{level.label}</div>
-											<div className="text-xs opacity-75">{level.range}</div>
-											<div className="text-xs opacity-60">
-												{level.description}
+						{usesPracticeLevel(config) && (
+							<div className="space-y-3">
+								<h3
+									className={`font-medium text-sm ${themeStyles.text.primary}`}
+								>
+									Difficulty Level
+								</h3>
+								<div className="grid grid-cols-2 gap-3">
+									{[
+										{
+											id: "basic",
+											label: "Basic",
+											range: "1-19",
+											description: "Simple sounds",
+										},
+										{
+											id: "compound",
+											label: "Compound",
+											range: "20-99",
+											description: "Two-part numbers",
+										},
+										{
+											id: "complex",
+											label: "Complex",
+											range: "100-999",
+											description: "Sound changes",
+										},
+										{
+											id: "advanced",
+											label: "Advanced",
+											range: "1000-9999",
+											description: "Long compounds",
+										},
+										{
+											id: "master",
+											label: "Master",
+											range: "10000+",
+											description: "万 notation",
+										},
+										{
+											id: "kei",
+											label: "Kei",
+											range: "10京+",
+											description: "京・垓 notation",
+										},
+										{
+											id: "decimals",
+											label: "Decimals & Fractions",
+											range: "-5, 3.14, 2/3, 35%",
+											description: "点・分の・パーセント・割",
+										},
+										{
+											id: "review",
+											label: "Review Due",
+											range: `${dueCount} ${dueCount === 1 ? "pattern" : "patterns"} due`,
+											description: "Patterns you keep missing",
+										},
+										{
+											id: "custom",
+											label: "Custom",
+											range: "Your choice",
+											description: "Set your own range",
+										},
+									].map((level) => (
+										<Button
+											key={level.id}
+											variant={
+												config.practiceLevel === level.id
+													? "default"
+													: "outline"
+											}
+											disabled={level.id === "review" && dueCount === 0}
+											onClick={() => {
+												setConfig((prev) => {
+													const newConfig = {
+														...prev,
+														practiceLevel:
+															level.id as PracticeConfiguration["practiceLevel"],
+													};
+													return withLevelRange(newConfig);
+												});
+											}}
+											className="h-auto justify-start p-3 text-left"
+										>
+											<div>
+												<div className="font-semibold text-sm">
+													{level.label}
+												</div>
+												<div className="text-xs opacity-75">{level.range}</div>
+												<div className="text-xs opacity-60">
+													{level.description}
+												</div>
 											</div>
-										</div>
-									</Button>
-								))}
+										</Button>
+									))}
+								</div>
 							</div>
-						</div>
+						)}
 
 						{/* Custom Range (if custom level selected) */}
-						{config.practiceLevel === "custom" && (
+						{usesPracticeLevel(config) && config.practiceLevel === "custom" && (
 							<div className="space-y-3">
 								<h3
 									className={`font-medium text-sm ${themeStyles.text.primary}`}
@@ -336,12 +513,200 @@ const ConfigurationStep = ({
 							</div>
 						)}
 
+						{/* Listening Settings */}
+						{config.practiceType === "listening-to-number" && (
+							<>
+								<div className="space-y-3">
+									<h3
+										className={`font-medium text-sm ${themeStyles.text.primary}`}
+									>
+										Starting Speed
+									</h3>
+									<div className="grid grid-cols-3 gap-3">
+										{[
+											{ speed: 0.6, label: "Slow (0.6×)" },
+											{ speed: 0.8, label: "Relaxed (0.8×)" },
+											{ speed: 1, label: "Natural (1.0×)" },
+										].map(({ speed, label }) => (
+											<Button
+												key={speed}
+												variant={
+													config.pronunciationSettings.playSpeed === speed
+														? "default"
+														: "outline"
+												}
+												onClick={() =>
+													setConfig((prev) => ({
+														...prev,
+														pronunciationSettings: {
+															...prev.pronunciationSettings,
+															playSpeed: speed,
+														},
+													}))
+												}
+												size="sm"
+											>
+												{label}
+											</Button>
+										))}
+									</div>
+								</div>
+								<QuizListeningSettings
+									settings={config.listening}
+									onChange={(listening) =>
+										setConfig((prev) => ({ ...prev, listening }))
+									}
+								/>
+							</>
+						)}
+
+						{/* Answer Input */}
+						<div className="space-y-3">
+							<h3 className={`font-medium text-sm ${themeStyles.text.primary}`}>
+								Answer Input
+							</h3>
+							<div className="flex items-center space-x-3">
+								<input
+									type="checkbox"
+									id="spokenAnswers"
+									checked={config.spokenAnswers}
+									onChange={(e) =>
+										setConfig((prev) => ({
+											...prev,
+											spokenAnswers: e.target.checked,
+										}))
+									}
+									className="h-4 w-4 cursor-pointer rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+								/>
+								<label
+									htmlFor="spokenAnswers"
+									className={`cursor-pointer text-sm ${themeStyles.text.primary}`}
+								>
+									Answer out loud with the microphone (Chrome, Edge and Safari)
+								</label>
+							</div>
+						</div>
+
+						{/* Price Tags */}
+						{config.practiceType === "price" && (
+							<div className="space-y-3">
+								<h3
+									className={`font-medium text-sm ${themeStyles.text.primary}`}
+								>
+									Price Display
+								</h3>
+								<div className="flex items-center space-x-3">
+									<input
+										type="checkbox"
+										id="priceTags"
+										checked={config.priceTags}
+										onChange={(e) =>
+											setConfig((prev) => ({
+												...prev,
+												priceTags: e.target.checked,
+											}))
+										}
+										className="h-4 w-4 cursor-pointer rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+									/>
+									<label
+										htmlFor="priceTags"
+										className={`cursor-pointer text-sm ${themeStyles.text.primary}`}
+									>
+										Show prices on supermarket price tags
+									</label>
+								</div>
+							</div>
+						)}
+
+						{/* Question Format */}
+						{isNumberReadingType(config) && (
+							<div className="space-y-3">
+								<h3
+									className={`font-medium text-sm ${themeStyles.text.primary}`}
+								>
+									Question Format
+								</h3>
+								<div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+									{questionFormats.map(({ id, label }) => (
+										<Button
+											key={id}
+											variant={
+												config.questionFormat === id ? "default" : "outline"
+											}
+											onClick={() =>
+												setConfig((prev) => ({
+													...prev,
+													questionFormat: id,
+												}))
+											}
+											size="sm"
+										>
+											{label}
+										</Button>
+									))}
+								</div>
+								<p className={`text-xs ${themeStyles.text.muted}`}>
+									{
+										questionFormats.find(
+											({ id }) => id === config.questionFormat,
+										)?.description
+									}
+								</p>
+							</div>
+						)}
+
+						{/* Romaji Matching */}
+						{isNumberReadingType(config) &&
+							config.questionFormat === "typed" && (
+								<div className="space-y-3">
+									<h3
+										className={`font-medium text-sm ${themeStyles.text.primary}`}
+									>
+										Romaji Answers
+									</h3>
+									<div className="grid grid-cols-3 gap-3">
+										{(
+											[
+												{ value: "strict", label: "Strict Hepburn" },
+												{ value: "lenient", label: "Lenient" },
+												{ value: "kana-only", label: "Kana Only" },
+											] as const
+										).map(({ value, label }) => (
+											<Button
+												key={value}
+												variant={
+													config.romajiMatching === value
+														? "default"
+														: "outline"
+												}
+												onClick={() =>
+													setConfig((prev) => ({
+														...prev,
+														romajiMatching: value,
+													}))
+												}
+												size="sm"
+											>
+												{label}
+											</Button>
+										))}
+									</div>
+									<p className={`text-xs ${themeStyles.text.muted}`}>
+										{config.romajiMatching === "strict"
+											? "Only Hepburn spellings count: juu or jū, not zyuu or ju."
+											: config.romajiMatching === "lenient"
+												? "Kunrei-shiki, Nihon-shiki and short long vowels count too: zyuu, ju."
+												: "Answer in kana or kanji; romaji is marked wrong."}
+									</p>
+								</div>
+							)}
+
 						{/* Session Settings */}
 						<div className="space-y-3">
 							<h3 className={`font-medium text-sm ${themeStyles.text.primary}`}>
 								Session Length
 							</h3>
-							<div className="grid grid-cols-3 gap-3">
+							<div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
 								{[
 									{ count: 5, label: "Quick (5)" },
 									{ count: 10, label: "Standard (10)" },
@@ -350,6 +715,7 @@ const ConfigurationStep = ({
 									<Button
 										key={session.count}
 										variant={
+											!config.sessionTimeLimit &&
 											config.questionCount === session.count
 												? "default"
 												: "outline"
@@ -358,6 +724,7 @@ const ConfigurationStep = ({
 											setConfig((prev) => ({
 												...prev,
 												questionCount: session.count,
+												sessionTimeLimit: undefined,
 											}))
 										}
 										size="sm"
@@ -365,6 +732,47 @@ const ConfigurationStep = ({
 										{session.label}
 									</Button>
 								))}
+								<Button
+									variant={config.sessionTimeLimit ? "default" : "outline"}
+									onClick={() =>
+										setConfig((prev) => ({
+											...prev,
+											sessionTimeLimit: TIME_ATTACK_SECONDS,
+										}))
+									}
+									size="sm"
+								>
+									<Timer className="mr-1 h-3 w-3" />
+									Time Attack ({TIME_ATTACK_SECONDS}s)
+								</Button>
+							</div>
+							{config.sessionTimeLimit && (
+								<p className={`text-xs ${themeStyles.text.muted}`}>
+									Answer as many as you can before time runs out.
+								</p>
+							)}
+						</div>
+
+						{/* Time Limit */}
+						<div className="space-y-3">
+							<h3 className={`font-medium text-sm ${themeStyles.text.primary}`}>
+								Time per Question
+							</h3>
+							<div className="grid grid-cols-4 gap-3">
+								{[undefined, 5, 10, 20].map((seconds) => (
+									<Button
+										key={seconds ?? "off"}
+										variant={
+											config.timeLimit === seconds ? "default" : "outline"
+										}
+										onClick={() =>
+											setConfig((prev) => ({ ...prev, timeLimit: seconds }))
+										}
+										size="sm"
+									>
+										{seconds ? `${seconds}s` : "No limit"}
+									</Button>
+								))}
 							</div>
 						</div>
 
@@ -386,690 +794,715 @@ const ConfigurationStep = ({
 	);
 };
 
-const GamePlayStep = ({
-	config,
-	onComplete,
-	onBack,
-}: {
-	config: PracticeConfiguration;
-	onComplete: (session: GameSession) => void;
-	onBack: () => void;
-}) => {
-	const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-	const [currentNumber, setCurrentNumber] = useState<number>(0);
-	const [userGuess, setUserGuess] = useState<string>("");
-	const [showAnswer, setShowAnswer] = useState<boolean>(false);
-	const [isCorrect, setIsCorrect] = useState<boolean | null>(null);
-	const [startTime, setStartTime] = useState<number>(Date.now());
-	const [questionStartTime, setQuestionStartTime] = useState<number>(
-		Date.now(),
-	);
-	const [answers, setAnswers] = useState<
-		Array<{
-			question: string;
-			correctAnswer: string;
-			userAnswer: string;
-			timeMs: number;
-			isCorrect: boolean;
-		}>
-	>([]);
-
-	const inputRef = useRef<HTMLInputElement>(null);
+// Accent colors for the shared quiz steps
+const quizTheme: QuizTheme = {
+	backButton: "hover:text-purple-600",
+	progressBar: "from-purple-500 to-blue-600",
+	prompt: "from-pink-600 via-purple-600 to-cyan-600",
+	input:
+		"border-purple-200 bg-white/80 focus:border-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-200 dark:border-purple-700 dark:bg-gray-800/80 dark:text-white dark:focus:border-purple-400 dark:focus:ring-purple-400/50",
+	checkButton:
+		"from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700",
+	nextButton: "from-cyan-500 to-blue-600 hover:from-cyan-600 hover:to-blue-700",
+	outlineButton:
+		"border-purple-300 text-purple-600 hover:border-purple-400 hover:bg-purple-50",
+	statsBox: "border-purple-100",
+	statsAccent: "text-purple-600",
+	stepActive: "bg-purple-600",
+	restartButton: "from-purple-500 to-blue-600",
+	stats: [
+		{
+			box: "bg-green-50 dark:bg-green-900/20",
+			value: "text-green-600 dark:text-green-400",
+			label: "text-green-700 dark:text-green-300",
+		},
+		{
+			box: "bg-blue-50 dark:bg-blue-900/20",
+			value: "text-blue-600 dark:text-blue-400",
+			label: "text-blue-700 dark:text-blue-300",
+		},
+		{
+			box: "bg-purple-50 dark:bg-purple-900/20",
+			value: "text-purple-600 dark:text-purple-400",
+			label: "text-purple-700 dark:text-purple-300",
+		},
+		{
+			box: "bg-orange-50 dark:bg-orange-900/20",
+			value: "text-orange-600 dark:text-orange-400",
+			label: "text-orange-700 dark:text-orange-300",
+		},
+	],
+};
 
-	// Generate number based on configuration
-	const generateNumber = useCallback(() => {
-		const { rangeMin, rangeMax } = config;
-		const rawNumber =
-			Math.floor(Math.random() * (rangeMax - rangeMin + 1)) + rangeMin;
-		return roundToRealistic(rawNumber);
-	}, [config]);
+interface NumberQuestion extends QuizQuestion {
+	expression: NumberExpression;
+	// Where the amount came from, for price tags
+	price?: Price;
+	format: QuestionFormat;
+	// The right reading, for formats whose answer is not the reading itself
+	explanation?: string;
+}
 
-	// Initialize first question
-	useEffect(() => {
-		const firstNumber = generateNumber();
-		setCurrentNumber(firstNumber);
-		setStartTime(Date.now());
-		setQuestionStartTime(Date.now());
-		inputRef.current?.focus();
-	}, [generateNumber]);
+// Prices and digit strings have their own generators instead of levels
+const usesPracticeLevel = (config: PracticeConfiguration) =>
+	config.practiceType !== "price" && config.practiceType !== "digit-strings";
+
+// Generate a number expression based on configuration
+const generateExpression = (
+	config: PracticeConfiguration,
+	random: () => number,
+	reviewPattern?: string,
+) => {
+	if (config.practiceType === "digit-strings") {
+		return createDigitExpression(generateDigitString(undefined, random));
+	}
+	// Review numbers are built around a due pattern and never rounded, so
+	// the pattern survives (八百 → 8xx)
+	if (config.practiceLevel === "review" && reviewPattern) {
+		const value = generateNumberWithPattern(reviewPattern, random);
+		if (value !== null) return createIntegerExpression(value);
+	}
+	// Decimals level mixes negatives, decimals, fractions and percentages,
+	// but formal amounts are always whole yen
+	if (
+		config.practiceLevel === "decimals" &&
+		config.practiceType !== "formal-amount"
+	) {
+		return generateFractionalExpression(random);
+	}
+	// 京 and 垓 are past Number.MAX_SAFE_INTEGER, so stay in bigint
+	if (config.practiceLevel === "kei") {
+		const value = generateRandomBigInt(10n ** 16n, 10n ** 21n - 1n, random);
+		return createIntegerExpression(roundToRealistic(value));
+	}
+	const { rangeMin, rangeMax } = config;
+	const rawNumber = Math.floor(random() * (rangeMax - rangeMin + 1)) + rangeMin;
+	return createIntegerExpression(roundToRealistic(rawNumber));
+};
 
-	const japaneseNumber: JapaneseNumber = convertToJapanese(currentNumber);
+// Whole numbers are scheduled by the reading patterns they contain
+const getReviewItems = (expression: NumberExpression) =>
+	expression.kind === "integer" || expression.kind === "negative"
+		? getNumberPatterns(BigInt(expression.numeral))
+		: [];
+
+// Label what went wrong in a whole-number reading (rendaku, 万 grouping…)
+const diagnoseAnswer = (
+	config: PracticeConfiguration,
+	expression: NumberExpression,
+	guess: string,
+): MistakeCategory[] => {
+	if (expression.kind !== "integer") return [];
+	const reading =
+		config.practiceType === "formal-amount" || config.practiceType === "price"
+			? guess.trim().replace(/(円|えん|en)$/, "")
+			: guess;
+	return diagnoseNumberMistake(reading, expression.japanese);
+};
 
-	// Get the question display based on practice type
-	const getQuestionDisplay = () => {
-		switch (config.practiceType) {
-			case "number-to-japanese":
-				return formatNumberWithCommas(currentNumber);
-			case "kanji-to-japanese":
-			case "kanji-to-english-or-romanization":
-				return japaneseNumber.kanji;
-			default:
-				return formatNumberWithCommas(currentNumber);
-		}
-	};
+// Get the question display based on practice type
+const getQuestionDisplay = (
+	config: PracticeConfiguration,
+	expression: NumberExpression,
+) => {
+	switch (config.practiceType) {
+		case "number-to-japanese":
+		case "price":
+		case "digit-strings":
+			return expression.display;
+		case "kanji-to-japanese":
+		case "kanji-to-english-or-romanization":
+			return expression.japanese.kanji;
+		case "formal-amount":
+			return formatFormalAmount(BigInt(expression.numeral));
+		case "listening-to-number":
+			return expression.japanese.hiragana;
+		default:
+			return expression.display;
+	}
+};
 
-	// Get the correct answer(s) based on practice type
-	const getCorrectAnswers = () => {
-		switch (config.practiceType) {
-			case "number-to-japanese":
-			case "kanji-to-japanese":
-				return [
-					japaneseNumber.hiragana,
-					japaneseNumber.romaji,
-					japaneseNumber.kanji,
-				];
-			case "kanji-to-english-or-romanization":
-				return [convertToEnglish(currentNumber), currentNumber.toString()];
-			default:
-				return [japaneseNumber.hiragana, japaneseNumber.romaji];
+// Get the correct answer(s) based on practice type
+const getCorrectAnswers = (
+	config: PracticeConfiguration,
+	expression: NumberExpression,
+) => {
+	const japaneseNumber = expression.japanese;
+	switch (config.practiceType) {
+		case "number-to-japanese":
+		case "kanji-to-japanese":
+			return [
+				japaneseNumber.hiragana,
+				japaneseNumber.romaji,
+				japaneseNumber.kanji,
+			];
+		case "kanji-to-english-or-romanization":
+			return [expression.english, expression.numeral];
+		case "formal-amount":
+			return [`${expression.display}円`, `${japaneseNumber.hiragana}えん`];
+		case "price": {
+			const price = convertPriceToJapanese(BigInt(expression.numeral));
+			return [price.hiragana, price.romaji, price.kanji];
 		}
-	};
+		case "digit-strings":
+			return [japaneseNumber.hiragana, japaneseNumber.romaji];
+		case "listening-to-number":
+			return [expression.numeral];
+		default:
+			return [japaneseNumber.hiragana, japaneseNumber.romaji];
+	}
+};
 
-	// Check if answer is correct based on practice type
-	const checkAnswerForType = (guess: string) => {
-		const normalizedGuess = guess.toLowerCase().trim();
+// Compare values so 1,000 / １０００ / sen all count
+const matchesNumeral = (expression: NumberExpression, guess: string) => {
+	if (expression.kind === "integer") {
+		const parsed = parseJapaneseBigInt(guess);
+		return parsed.success && parsed.value === BigInt(expression.numeral);
+	}
+	// Decimals, fractions and percentages compare as written (% optional)
+	const compactGuess = guess
+		.normalize("NFKC")
+		.replace(/[\s,]/g, "")
+		.replace(/^−/, "-");
+	return (
+		compactGuess === expression.numeral ||
+		`${compactGuess}%` === expression.numeral
+	);
+};
 
-		switch (config.practiceType) {
-			case "number-to-japanese":
-			case "kanji-to-japanese":
-				return isAnswerCorrect(normalizedGuess, japaneseNumber);
-			case "kanji-to-english-or-romanization": {
-				const englishAnswer = convertToEnglish(currentNumber).toLowerCase();
-				const numberAnswer = currentNumber.toString();
-				return (
-					normalizedGuess === englishAnswer || normalizedGuess === numberAnswer
-				);
+// Check if answer is correct based on practice type
+const checkAnswerForType = (
+	config: PracticeConfiguration,
+	expression: NumberExpression,
+	guess: string,
+) => {
+	const normalizedGuess = guess.toLowerCase().trim();
+	switch (config.practiceType) {
+		case "number-to-japanese":
+		case "kanji-to-japanese":
+			return isAnswerCorrect(
+				normalizedGuess,
+				expression.japanese,
+				config.romajiMatching,
+			);
+		case "kanji-to-english-or-romanization": {
+			const englishAnswer = expression.english.toLowerCase();
+			if (normalizedGuess === englishAnswer) {
+				return true;
 			}
-			default:
+			// Kanji would just echo the prompt
+			if (/\p{Script=Han}/u.test(normalizedGuess)) {
 				return false;
-		}
-	};
-
-	const speakJapanese = () => {
-		if (
-			"speechSynthesis" in window &&
-			(config.practiceType === "number-to-japanese" ||
-				config.practiceType === "kanji-to-japanese")
-		) {
-			window.speechSynthesis.cancel();
-
-			let textToSpeak = japaneseNumber.hiragana;
-			if (config.pronunciationSettings.voice === "alternative") {
-				textToSpeak = japaneseNumber.romaji;
-			}
-
-			const utterance = new SpeechSynthesisUtterance(textToSpeak);
-			utterance.lang =
-				config.pronunciationSettings.voice === "alternative"
-					? "en-US"
-					: "ja-JP";
-			utterance.rate = config.pronunciationSettings.playSpeed;
-			utterance.pitch = 1.0;
-
-			const voices = window.speechSynthesis.getVoices();
-			if (config.pronunciationSettings.voice === "standard") {
-				const japaneseVoice = voices.find((voice) => voice.lang.includes("ja"));
-				if (japaneseVoice) utterance.voice = japaneseVoice;
-			} else {
-				const englishVoice = voices.find((voice) => voice.lang.includes("en"));
-				if (englishVoice) utterance.voice = englishVoice;
 			}
-
-			window.speechSynthesis.speak(utterance);
+			return matchesNumeral(expression, normalizedGuess);
 		}
-	};
-
-	const checkAnswer = () => {
-		const endTime = Date.now();
-		const timeMs = endTime - questionStartTime;
-		const guess = userGuess.trim();
-		const correct = checkAnswerForType(guess);
-
-		setIsCorrect(correct);
-		setShowAnswer(true);
-
-		// Record the answer
-		const newAnswer = {
-			question: getQuestionDisplay(),
-			correctAnswer: getCorrectAnswers().join(" / "),
-			userAnswer: guess,
-			timeMs,
-			isCorrect: correct,
-		};
+		case "formal-amount":
+			// 10000円, ¥10,000, 一万円 and いちまんえん all name the same amount
+			return isPriceAnswerCorrect(normalizedGuess, BigInt(expression.numeral));
+		case "price":
+			// Digits would just copy the price tag
+			return (
+				!/\d/.test(normalizedGuess.normalize("NFKC")) &&
+				isPriceAnswerCorrect(normalizedGuess, BigInt(expression.numeral))
+			);
+		case "digit-strings":
+			return isDigitAnswerCorrect(normalizedGuess, expression.display);
+		case "listening-to-number":
+			return matchesNumeral(expression, normalizedGuess);
+		default:
+			return false;
+	}
+};
 
-		setAnswers((prev) => [...prev, newAnswer]);
+// Point out accepted readings most speakers wouldn't use (しじゅう for 四十)
+const getUnusualReadingNote = (
+	config: PracticeConfiguration,
+	expression: NumberExpression,
+	guess: string,
+) => {
+	if (
+		config.practiceType !== "number-to-japanese" &&
+		config.practiceType !== "kanji-to-japanese"
+	) {
+		return null;
+	}
+	const usage = getAnswerUsage(
+		guess.toLowerCase().trim(),
+		expression.japanese,
+		config.romajiMatching,
+	);
+	return usage === "unusual"
+		? `${guess} is understood, but ${expression.japanese.hiragana} is the usual reading.`
+		: null;
+};
 
-		// Auto-play pronunciation if enabled and Japanese practice
-		if (
-			config.pronunciationSettings.autoPlay &&
-			(config.practiceType === "number-to-japanese" ||
-				config.practiceType === "kanji-to-japanese")
-		) {
-			setTimeout(() => {
-				speakJapanese();
-			}, 300);
-		}
+// Choice formats only make sense for readings
+const getQuestionFormat = (config: PracticeConfiguration): QuestionFormat =>
+	isNumberReadingType(config) ? config.questionFormat : "typed";
+
+// Ask for the reading in the configured format, falling back to typing when
+// there are no wrong readings to offer
+const createQuestion = (
+	config: PracticeConfiguration,
+	expression: NumberExpression,
+	random: () => number,
+	reviewPattern?: string,
+): NumberQuestion => {
+	const japaneseNumber = expression.japanese;
+	const display = getQuestionDisplay(config, expression);
+	const explanation = `${display} is read ${japaneseNumber.hiragana} (${japaneseNumber.romaji})`;
+	const distractors = pickDistractors(
+		getReadingMistakes(japaneseNumber, random),
+		(guess) => isAnswerCorrect(guess, japaneseNumber),
+		random,
+	);
+	const typed: NumberQuestion = {
+		expression,
+		format: "typed",
+		prompt: display,
+		correctAnswer: getCorrectAnswers(config, expression).join(" / "),
+		reviewItems: getReviewItems(expression),
 	};
-
-	const nextQuestion = () => {
-		const nextIndex = currentQuestionIndex + 1;
-
-		if (nextIndex >= config.questionCount) {
-			// Session complete
-			const session: GameSession = {
-				configuration: config,
-				startTime: new Date(startTime),
-				endTime: new Date(),
-				totalQuestions: config.questionCount,
-				correctAnswers:
-					answers.filter((a) => a.isCorrect).length + (isCorrect ? 1 : 0),
-				answers: [
-					...answers,
+	const format = getQuestionFormat(config);
+	if (format === "typed" || distractors.length === 0) return typed;
+
+	switch (format) {
+		case "multiple-choice":
+			return {
+				...typed,
+				format,
+				correctAnswer: japaneseNumber.hiragana,
+				choices: createChoices(japaneseNumber.hiragana, distractors, random),
+			};
+		case "true-false":
+			return {
+				...typed,
+				...createTrueFalse(
+					{
+						text: display,
+						reading: japaneseNumber.hiragana,
+						mistakes: distractors,
+					},
+					random,
+				),
+				format,
+				choices: [TRUE, FALSE],
+				explanation,
+			};
+		case "spot-the-wrong": {
+			// The question's number is the wrong one, so it is what gets reviewed;
+			// the others share its review pattern
+			const others = collectOtherStatements(display, () => {
+				const other = generateExpression(config, random, reviewPattern);
+				return {
+					text: getQuestionDisplay(config, other),
+					reading: other.japanese.hiragana,
+				};
+			});
+			const spotTheWrong = createSpotTheWrong(
+				[
 					{
-						question: getQuestionDisplay(),
-						correctAnswer: getCorrectAnswers().join(" / "),
-						userAnswer: userGuess.trim(),
-						timeMs: Date.now() - questionStartTime,
-						isCorrect: isCorrect || false,
+						text: display,
+						reading: japaneseNumber.hiragana,
+						mistakes: distractors,
 					},
+					...others,
 				],
+				random,
+			);
+			if (!spotTheWrong) return typed;
+			return {
+				...typed,
+				format,
+				prompt: "どれがちがう？",
+				correctAnswer: spotTheWrong.correctAnswer,
+				choices: spotTheWrong.choices,
+				explanation,
 			};
-			onComplete(session);
-		} else {
-			// Next question
-			setCurrentQuestionIndex(nextIndex);
-			const newNumber = generateNumber();
-			setCurrentNumber(newNumber);
-			setUserGuess("");
-			setShowAnswer(false);
-			setIsCorrect(null);
-			setQuestionStartTime(Date.now());
-
-			setTimeout(() => {
-				inputRef.current?.focus();
-			}, 100);
 		}
-	};
+	}
+};
 
-	const handleKeyPress = (e: React.KeyboardEvent) => {
-		if (e.key === "Enter" && !showAnswer) {
-			e.preventDefault();
-			checkAnswer();
-		} else if (e.key === "Enter" && showAnswer) {
-			e.preventDefault();
-			nextQuestion();
+const getQuestionPrompt = (
+	config: PracticeConfiguration,
+	format: QuestionFormat = "typed",
+) => {
+	switch (format) {
+		case "multiple-choice":
+			return "Pick the right reading";
+		case "true-false":
+			return "Is this reading right?";
+		case "spot-the-wrong":
+			return "Which reading is wrong?";
+	}
+	switch (config.practiceType) {
+		case "number-to-japanese":
+			return "What is this number in Japanese?";
+		case "kanji-to-japanese":
+			return "How do you read this kanji number?";
+		case "kanji-to-english-or-romanization":
+			return "What is this kanji number in English or as a number?";
+		case "formal-amount":
+			return "How much is written on this bank slip?";
+		case "price":
+			return "How do you say this price?";
+		case "digit-strings":
+			return "Read this number digit by digit";
+		case "listening-to-number":
+			return "Type the number you hear";
+		default:
+			return "Answer the question";
+	}
+};
+
+// English answers are recognised in English, everything else in Japanese
+const getSpeechLanguage = (config: PracticeConfiguration) =>
+	config.practiceType === "kanji-to-english-or-romanization"
+		? "en-US"
+		: "ja-JP";
+
+// Choice formats and romaji strictness apply to plain number readings
+const isNumberReadingType = (config: PracticeConfiguration) =>
+	config.practiceType === "number-to-japanese" ||
+	config.practiceType === "kanji-to-japanese";
+
+// Only readings are spoken; English and amount answers would give them away
+const isSpokenPracticeType = (config: PracticeConfiguration) =>
+	isNumberReadingType(config) ||
+	config.practiceType === "price" ||
+	config.practiceType === "digit-strings";
+
+// Prices are said with 円 (せんきゅうひゃくはちじゅうえん)
+const getSpokenReading = (
+	config: PracticeConfiguration,
+	expression: NumberExpression,
+) =>
+	config.practiceType === "price"
+		? convertPriceToJapanese(BigInt(expression.numeral))
+		: expression.japanese;
+
+const speakJapanese = (
+	config: PracticeConfiguration,
+	expression: NumberExpression,
+) => {
+	if ("speechSynthesis" in window && isSpokenPracticeType(config)) {
+		window.speechSynthesis.cancel();
+
+		const reading = getSpokenReading(config, expression);
+		let textToSpeak = reading.hiragana;
+		if (config.pronunciationSettings.voice === "alternative") {
+			textToSpeak = reading.romaji;
 		}
-	};
 
-	const getQuestionPrompt = () => {
-		switch (config.practiceType) {
-			case "number-to-japanese":
-				return "What is this number in Japanese?";
-			case "kanji-to-japanese":
-				return "How do you read this kanji number?";
-			case "kanji-to-english-or-romanization":
-				return "What is this kanji number in English or as a number?";
-			default:
-				return "Answer the question";
+		const utterance = new SpeechSynthesisUtterance(textToSpeak);
+		utterance.lang =
+			config.pronunciationSettings.voice === "alternative" ? "en-US" : "ja-JP";
+		utterance.rate = config.pronunciationSettings.playSpeed;
+		utterance.pitch = 1.0;
+
+		const voices = window.speechSynthesis.getVoices();
+		if (config.pronunciationSettings.voice === "standard") {
+			const japaneseVoice = voices.find((voice) => voice.lang.includes("ja"));
+			if (japaneseVoice) utterance.voice = japaneseVoice;
+		} else {
+			const englishVoice = voices.find((voice) => voice.lang.includes("en"));
+			if (englishVoice) utterance.voice = englishVoice;
 		}
-	};
 
+		window.speechSynthesis.speak(utterance);
+	}
+};
+
+// A supermarket shelf tag: big red digits on yellow, tax details underneath
+const PriceTag = ({ price }: { price: Price }) => {
+	const preTax = formatPreTax(price);
 	return (
-		<>
-			{/* Floating Back Button - Outside transition container */}
-			<div className="fade-in-0 fixed top-6 left-6 z-50 animate-in delay-300 duration-500">
-				<button
-					type="button"
-					onClick={onBack}
-					className="flex h-10 w-10 cursor-pointer items-center justify-center rounded-full bg-white/80 text-gray-600 shadow-lg backdrop-blur-sm transition-all hover:bg-white hover:text-purple-600 hover:shadow-xl"
-				>
-					<ArrowLeft className="h-4 w-4" />
-				</button>
+		<div className="-rotate-1 mx-auto w-fit min-w-56 rounded-md border-4 border-red-500 bg-yellow-300 px-6 py-4 text-center shadow-lg">
+			{price.style === "tax-included" && (
+				<span className="mb-1 inline-block rounded bg-red-600 px-2 font-bold text-sm text-white">
+					税込
+				</span>
+			)}
+			<div className="font-black text-6xl text-red-600 tabular-nums sm:text-7xl">
+				{price.style === "yen-sign" && <span className="mr-1 text-3xl">¥</span>}
+				{formatNumberWithCommas(price.amount)}
+				{price.style !== "yen-sign" && (
+					<span className="ml-1 text-3xl">円</span>
+				)}
 			</div>
+			{preTax && <div className="mt-1 text-gray-800 text-sm">{preTax}</div>}
+		</div>
+	);
+};
 
-			<div
-				className="fade-in-0 slide-in-from-right-4 mx-auto max-w-4xl animate-in space-y-6 duration-700"
-				style={{ viewTransitionName: "game-step" }}
-			>
-				{/* Progress Header */}
-				<div className="text-center">
-					<h2 className={`mb-2 font-bold text-3xl ${themeStyles.text.primary}`}>
-						Question {currentQuestionIndex + 1} of {config.questionCount}
-					</h2>
-					<div className="mx-auto mb-4 h-2 w-full max-w-md rounded-full bg-gray-200 dark:bg-gray-700">
-						<div
-							className="h-2 rounded-full bg-gradient-to-r from-purple-500 to-blue-600 transition-all duration-300"
-							style={{
-								width: `${((currentQuestionIndex + 1) / config.questionCount) * 100}%`,
-							}}
-						/>
-					</div>
-					<p className={themeStyles.text.secondary}>
-						{config.practiceType.replace("-", " → ")} • {config.practiceLevel}{" "}
-						level
-					</p>
-				</div>
+const GamePlayStep = ({
+	config,
+	dueItems,
+	onComplete,
+	onBack,
+}: {
+	config: PracticeConfiguration;
+	dueItems: string[];
+	onComplete: (session: GameSession) => void;
+	onBack: () => void;
+}) => {
+	const quiz = useQuiz({
+		config,
+		generateQuestion: (random, questionIndex): NumberQuestion => {
+			if (config.practiceType === "price") {
+				const price = generatePrice(random);
+				return {
+					...createQuestion(config, createPriceExpression(price), random),
+					price,
+				};
+			}
+			const reviewPattern =
+				config.practiceLevel === "review"
+					? pickReviewItem(dueItems, questionIndex, random)
+					: undefined;
+			const expression = generateExpression(config, random, reviewPattern);
+			return createQuestion(config, expression, random, reviewPattern);
+		},
+		checkAnswer: (guess, question) =>
+			question.choices
+				? guess === question.correctAnswer
+				: checkAnswerForType(config, question.expression, guess),
+		// True/false and spot-the-wrong answers are not readings
+		diagnoseMistakes: (guess, question) =>
+			question.format === "typed" || question.format === "multiple-choice"
+				? diagnoseAnswer(config, question.expression, guess)
+				: [],
+		onAnswer: (question) => {
+			// Auto-play pronunciation if enabled and Japanese practice
+			if (config.pronunciationSettings.autoPlay) {
+				setTimeout(() => {
+					speakJapanese(config, question.expression);
+				}, 300);
+			}
+		},
+		onComplete,
+	});
 
-				{/* Question Card */}
-				<Card
-					className={`shadow-xl transition-all duration-500 ${
-						showAnswer
-							? isCorrect
-								? "border-green-400 bg-green-50/50 dark:bg-green-950/50"
-								: "border-red-400 bg-red-50/50 dark:bg-red-950/50"
-							: ""
-					}`}
-				>
-					<CardContent className="p-8">
-						<h3
-							className={`mb-4 text-center text-xl ${themeStyles.text.primary}`}
-						>
-							{showAnswer
-								? isCorrect
-									? "✅ Correct!"
-									: "❌ Not quite right"
-								: getQuestionPrompt()}
-						</h3>
+	const isListening = config.practiceType === "listening-to-number";
+	const priceTag = config.priceTags ? quiz.question?.price : undefined;
+	// The price tag shows the price before tax itself
+	const hint =
+		priceTag && !quiz.showAnswer ? undefined : quiz.question?.expression.hint;
+	const listeningSpeed = getListeningSpeed(
+		config.pronunciationSettings.playSpeed,
+		config.listening,
+		quiz.answers,
+	);
+	const [speechProvider] = useState(() =>
+		config.spokenAnswers ? createWebSpeechProvider() : null,
+	);
+	const speech = useSpeechAnswer(speechProvider, quiz.submitText);
+	const listening = useListening({
+		text: isListening
+			? (quiz.question?.expression.japanese.hiragana ?? null)
+			: null,
+		questionKey: quiz.questionIndex,
+		rate: listeningSpeed,
+		maxReplays: config.listening.maxReplays,
+	});
 
-						{/* Question Display */}
-						<div
-							className={`mb-6 break-all text-center font-black transition-all duration-300 ${
-								showAnswer && isCorrect ? "scale-110" : ""
-							} ${
-								getQuestionDisplay().length <= 3
-									? "text-8xl sm:text-9xl"
-									: getQuestionDisplay().length <= 6
-										? "text-6xl sm:text-8xl"
-										: getQuestionDisplay().length <= 9
-											? "text-4xl sm:text-6xl"
-											: getQuestionDisplay().length <= 12
-												? "text-3xl sm:text-5xl"
-												: "text-2xl sm:text-4xl"
-							}`}
+	return (
+		<QuizPlayStep
+			quiz={quiz}
+			theme={quizTheme}
+			onBack={onBack}
+			subtitle={[
+				config.practiceType.replace("-", " → "),
+				usesPracticeLevel(config) && `${config.practiceLevel} level`,
+				isListening && `${listeningSpeed.toFixed(1)}× speed`,
+				describeTiming(config),
+			]
+				.filter(Boolean)
+				.join(" • ")}
+			instruction={getQuestionPrompt(config, quiz.question?.format)}
+			promptContent={
+				priceTag ? (
+					<PriceTag price={priceTag} />
+				) : (
+					isListening &&
+					quiz.question && (
+						<QuizListeningPrompt
+							listening={listening}
+							theme={quizTheme}
+							fallbackText={quiz.question.expression.japanese.hiragana}
+						/>
+					)
+				)
+			}
+			answerDetails={
+				quiz.question?.explanation ? (
+					<>
+						<p className={`font-medium text-lg ${themeStyles.text.primary}`}>
+							Correct answer: {quiz.question.correctAnswer}
+						</p>
+						<p className={`mt-1 text-sm ${themeStyles.text.secondary}`}>
+							{quiz.question.explanation}
+						</p>
+					</>
+				) : undefined
+			}
+			answerNote={
+				quiz.isCorrect &&
+				quiz.question &&
+				getUnusualReadingNote(config, quiz.question.expression, quiz.userInput)
+			}
+			belowPrompt={
+				hint && (
+					<p
+						className={`-mt-4 mb-6 text-center text-sm ${themeStyles.text.secondary}`}
+					>
+						{hint}
+					</p>
+				)
+			}
+			actions={
+				<>
+					{isSpokenPracticeType(config) && (
+						<QuizActionButton
+							theme={quizTheme}
+							onClick={() => {
+								if (quiz.question)
+									speakJapanese(config, quiz.question.expression);
+							}}
 						>
-							<span
-								className={`bg-gradient-to-r bg-clip-text text-transparent ${
-									showAnswer
-										? isCorrect
-											? "from-green-500 via-emerald-500 to-teal-500"
-											: "from-red-500 via-pink-500 to-rose-500"
-										: "from-pink-600 via-purple-600 to-cyan-600"
-								}`}
-							>
-								{getQuestionDisplay()}
-							</span>
-						</div>
-
-						{/* Answer Display */}
-						{showAnswer && (
-							<div className="mb-6 rounded-lg bg-gray-50 p-4 text-center dark:bg-gray-800">
-								<p
-									className={`font-medium text-lg ${themeStyles.text.primary}`}
-								>
-									Correct answer: {getCorrectAnswers().join(" / ")}
-								</p>
-								{!isCorrect && userGuess && (
-									<p className="mt-2 text-red-600 text-sm">
-										You answered: {userGuess}
-									</p>
-								)}
-							</div>
-						)}
-
-						{/* Input */}
-						<div className="space-y-4">
-							<input
-								ref={inputRef}
-								type="text"
-								value={userGuess}
-								onChange={(e) => setUserGuess(e.target.value)}
-								onKeyDown={handleKeyPress}
-								readOnly={showAnswer}
-								placeholder={
-									showAnswer
-										? "Press Enter for next question..."
-										: "Type your answer here..."
-								}
-								className={`w-full rounded-lg border-2 px-4 py-3 text-lg backdrop-blur-sm transition-all duration-300 ${
-									showAnswer
-										? isCorrect
-											? "border-green-300 bg-green-50/50 text-green-800 dark:border-green-600 dark:bg-green-950/50 dark:text-green-200"
-											: "border-red-300 bg-red-50/50 text-red-800 dark:border-red-600 dark:bg-red-950/50 dark:text-red-200"
-										: "border-purple-200 bg-white/80 focus:border-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-200 dark:border-purple-700 dark:bg-gray-800/80 dark:text-white dark:focus:border-purple-400 dark:focus:ring-purple-400/50"
-								} ${showAnswer ? "cursor-pointer" : ""}`}
-							/>
-
-							{/* Action Buttons */}
-							<div className="flex flex-wrap gap-3">
-								{!showAnswer ? (
-									<Button
-										onClick={checkAnswer}
-										disabled={!userGuess.trim()}
-										className="flex-1 transform rounded-lg bg-gradient-to-r from-pink-500 to-purple-600 px-6 py-3 font-semibold text-white shadow-lg transition hover:scale-105 hover:from-pink-600 hover:to-purple-700 disabled:transform-none disabled:cursor-not-allowed disabled:opacity-50"
-									>
-										<Check className="mr-2 h-4 w-4" />
-										Check Answer
-									</Button>
-								) : (
-									<Button
-										onClick={nextQuestion}
-										className={`flex-1 transform rounded-lg px-6 py-3 font-semibold text-white shadow-lg transition hover:scale-105 ${
-											isCorrect
-												? "bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700"
-												: "bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-600 hover:to-blue-700"
-										}`}
-									>
-										<RefreshCw className="mr-2 h-4 w-4" />
-										{currentQuestionIndex + 1 >= config.questionCount
-											? "Complete Session"
-											: "Next Question"}
-									</Button>
-								)}
-
-								<Button
-									variant="outline"
-									onClick={() => setShowAnswer(!showAnswer)}
-									className="rounded-lg border-2 border-purple-300 px-4 py-3 text-purple-600 hover:border-purple-400 hover:bg-purple-50"
-								>
-									{showAnswer ? (
-										<EyeOff className="h-4 w-4" />
-									) : (
-										<Eye className="h-4 w-4" />
-									)}
-								</Button>
-
-								{(config.practiceType === "number-to-japanese" ||
-									config.practiceType === "kanji-to-japanese") && (
-									<Button
-										variant="outline"
-										onClick={speakJapanese}
-										className="rounded-lg border-2 border-purple-300 px-4 py-3 text-purple-600 hover:border-purple-400 hover:bg-purple-50"
-									>
-										<Volume2 className="h-4 w-4" />
-									</Button>
-								)}
-							</div>
-						</div>
-					</CardContent>
-				</Card>
-
-				{/* Quick Stats */}
-				<div className="text-center">
-					<div className="inline-flex items-center gap-4 rounded-lg border border-purple-100 bg-white/80 px-6 py-3 shadow-lg backdrop-blur-sm">
-						<span className="text-gray-600 text-sm">
-							Correct: {answers.filter((a) => a.isCorrect).length}/
-							{answers.length}
-						</span>
-						{answers.length > 0 && (
-							<span className="font-medium text-purple-600 text-sm">
-								(
-								{(
-									(answers.filter((a) => a.isCorrect).length / answers.length) *
-									100
-								).toFixed(1)}
-								%)
-							</span>
-						)}
-					</div>
-				</div>
-			</div>
-		</>
+							<Volume2 className="h-4 w-4" />
+						</QuizActionButton>
+					)}
+					{config.spokenAnswers && !quiz.question?.choices && (
+						<QuizSpeechButton
+							speech={speech}
+							theme={quizTheme}
+							disabled={quiz.showAnswer}
+							onListen={() => {
+								const question = quiz.question;
+								if (!question) return;
+								speech.listen(getSpeechLanguage(config), (guess) =>
+									checkAnswerForType(config, question.expression, guess),
+								);
+							}}
+						/>
+					)}
+				</>
+			}
+		/>
 	);
 };
 
+// Time limit and time attack, for labels and session details
+const describeTiming = (config: PracticeConfiguration) =>
+	[
+		config.sessionTimeLimit && `${config.sessionTimeLimit}s time attack`,
+		config.timeLimit && `${config.timeLimit}s per question`,
+	]
+		.filter(Boolean)
+		.join(" • ");
+
+// Sessions with the same label are charted together on the history page
+const describeConfiguration = (config: PracticeConfiguration) =>
+	[
+		config.practiceType.replace("-", " → "),
+		usesPracticeLevel(config) && config.practiceLevel,
+		getQuestionFormat(config) !== "typed" &&
+			config.questionFormat.replace(/-/g, " "),
+		describeTiming(config),
+	]
+		.filter(Boolean)
+		.join(" • ");
+
 const ResultsStep = ({
 	session,
+	personalBest,
 	onRestart,
 	onBackToMenu,
 }: {
 	session: GameSession;
+	personalBest: number | null;
 	onRestart: () => void;
 	onBackToMenu: () => void;
 }) => {
-	const accuracy = (session.correctAnswers / session.totalQuestions) * 100;
-	const sessionTime =
-		session.endTime && session.startTime
-			? (session.endTime.getTime() - session.startTime.getTime()) / 1000
-			: 0;
+	const mistakes = summarizeMistakes(session.answers);
 
 	return (
-		<>
-			{/* Floating Back Button - Outside transition container */}
-			<div className="fade-in-0 fixed top-6 left-6 z-50 animate-in delay-300 duration-500">
-				<Link
-					href="/"
-					className="flex h-10 w-10 items-center justify-center rounded-full bg-white/80 text-gray-600 shadow-lg backdrop-blur-sm transition-all hover:bg-white hover:text-purple-600 hover:shadow-xl"
-				>
-					<ArrowLeft className="h-4 w-4" />
-				</Link>
-			</div>
-
-			<div
-				className="fade-in-0 slide-in-from-bottom-4 mx-auto max-w-2xl animate-in space-y-6 duration-700"
-				style={{ viewTransitionName: "results-step" }}
-			>
-				<div className="text-center">
-					<h2 className={`mb-4 font-bold text-3xl ${themeStyles.text.primary}`}>
-						Practice Session Complete!
-					</h2>
-					<p className={themeStyles.text.secondary}>Here's how you performed</p>
-				</div>
-
-				<Card className={themeStyles.card.base}>
-					<CardHeader>
-						<CardTitle className="text-center text-2xl">
-							{accuracy >= 90
-								? "🎉 Excellent!"
-								: accuracy >= 70
-									? "👏 Great job!"
-									: accuracy >= 50
-										? "👍 Good work!"
-										: "💪 Keep practicing!"}
-						</CardTitle>
-					</CardHeader>
-					<CardContent className="space-y-6">
-						{/* Stats Grid */}
-						<div className="grid grid-cols-2 gap-4">
-							<div className="rounded-lg bg-green-50 dark:bg-green-900/20 p-4 text-center">
-								<div className="font-bold text-2xl text-green-600 dark:text-green-400">
-									{session.correctAnswers}/{session.totalQuestions}
-								</div>
-								<div className="text-green-700 text-sm dark:text-green-300">Correct Answers</div>
-							</div>
-							<div className="rounded-lg bg-blue-50 dark:bg-blue-900/20 p-4 text-center">
-								<div className="font-bold text-2xl text-blue-600 dark:text-blue-400">
-									{accuracy.toFixed(1)}%
-								</div>
-								<div className="text-blue-700 text-sm dark:text-blue-300">Accuracy</div>
-							</div>
-							<div className="rounded-lg bg-purple-50 dark:bg-purple-900/20 p-4 text-center">
-								<div className="font-bold text-2xl text-purple-600 dark:text-purple-400">
-									{sessionTime.toFixed(1)}s
-								</div>
-								<div className="text-purple-700 text-sm dark:text-purple-300">Total Time</div>
-							</div>
-							<div className="rounded-lg bg-orange-50 dark:bg-orange-900/20 p-4 text-center">
-								<div className="font-bold text-2xl text-orange-600 dark:text-orange-400">
-									{(sessionTime / session.totalQuestions).toFixed(1)}s
-								</div>
-								<div className="text-orange-700 text-sm dark:text-orange-300">Avg per Question</div>
-							</div>
+		<QuizResultsStep
+			session={session}
+			theme={quizTheme}
+			personalBest={personalBest}
+			onRestart={onRestart}
+			onBackToMenu={onBackToMenu}
+			details={
+				<>
+					<div>
+						Practice Type:{" "}
+						{session.configuration.practiceType.replace("-", " → ")}
+					</div>
+					<div>Difficulty: {session.configuration.practiceLevel}</div>
+					{describeTiming(session.configuration) && (
+						<div>Timing: {describeTiming(session.configuration)}</div>
+					)}
+					{!["kei", "decimals", "review"].includes(
+						session.configuration.practiceLevel,
+					) && (
+						<div>
+							Range: {session.configuration.rangeMin} -{" "}
+							{session.configuration.rangeMax}
 						</div>
-
-						{/* Practice Type Summary */}
-						<div className={`rounded-lg p-4 ${themeStyles.page.sectionAlt}`}>
-							<h4 className={`mb-2 font-semibold ${themeStyles.text.primary}`}>
-								Session Details
-							</h4>
-							<div className={`space-y-1 text-sm ${themeStyles.text.secondary}`}>
-								<div>
-									Practice Type:{" "}
-									{session.configuration.practiceType.replace("-", " → ")}
-								</div>
-								<div>Difficulty: {session.configuration.practiceLevel}</div>
-								<div>
-									Range: {session.configuration.rangeMin} -{" "}
-									{session.configuration.rangeMax}
+					)}
+				</>
+			}
+		>
+			{/* Mistake Patterns */}
+			{mistakes.length > 0 && (
+				<div className={`rounded-lg p-4 ${themeStyles.page.sectionAlt}`}>
+					<h4 className={`mb-3 font-semibold ${themeStyles.text.primary}`}>
+						Mistake Patterns
+					</h4>
+					<div className="space-y-3">
+						{mistakes.map(({ category, count }) => {
+							const info = mistakeCategories[category];
+							return (
+								<div key={category} className="text-sm">
+									<div className="flex items-center justify-between">
+										<span className={`font-medium ${themeStyles.text.primary}`}>
+											{info.label}
+											{info.example && (
+												<span
+													className={`ml-2 font-normal text-xs ${themeStyles.text.muted}`}
+												>
+													{info.example}
+												</span>
+											)}
+										</span>
+										<span className="font-bold text-purple-600">×{count}</span>
+									</div>
+									<p className={`mt-1 ${themeStyles.text.secondary}`}>
+										{info.drill}
+									</p>
 								</div>
-							</div>
-						</div>
-
-						{/* Action Buttons */}
-						<div className="grid grid-cols-2 gap-4">
-							<Button
-								onClick={onRestart}
-								className="bg-gradient-to-r from-purple-500 to-blue-600 text-white"
-								size="lg"
-							>
-								<Target className="mr-2 h-4 w-4" />
-								Practice Again
-							</Button>
-							<Button onClick={onBackToMenu} variant="outline" size="lg">
-								<ArrowLeft className="mr-2 h-4 w-4" />
-								Back to Menu
-							</Button>
-						</div>
-					</CardContent>
-				</Card>
-			</div>
-		</>
+							);
+						})}
+					</div>
+				</div>
+			)}
+		</QuizResultsStep>
 	);
 };
 
 export default function PracticePage() {
-	const [gameState, setGameState] = useState<GameState>("configuration");
-	const [currentConfig, setCurrentConfig] =
-		useState<PracticeConfiguration | null>(null);
-	const [currentSession, setCurrentSession] = useState<GameSession | null>(
-		null,
-	);
-
-	// Keyboard shortcuts for navigation
-	useEffect(() => {
-		const handleKeyDown = (e: KeyboardEvent) => {
-			// ESC to go back
-			if (e.key === "Escape") {
-				if (gameState === "playing") {
-					handleBackToConfiguration();
-				} else if (gameState === "results") {
-					handleRestart();
-				}
-			}
-		};
-
-		window.addEventListener("keydown", handleKeyDown);
-		return () => window.removeEventListener("keydown", handleKeyDown);
-	}, [gameState]);
-
-	// Helper function to transition between states using View Transitions API
-	const transitionToState = (newState: GameState, callback: () => void) => {
-		if ("startViewTransition" in document) {
-			// @ts-ignore - View Transitions API is experimental
-			document.startViewTransition(() => {
-				callback();
-			});
-		} else {
-			// Fallback for browsers without View Transitions API
-			callback();
-		}
-	};
-
-	const handleStartPractice = (config: PracticeConfiguration) => {
-		transitionToState("playing", () => {
-			setCurrentConfig(config);
-			setGameState("playing");
-		});
-	};
-
-	const handleCompleteSession = (session: GameSession) => {
-		transitionToState("results", () => {
-			setCurrentSession(session);
-			setGameState("results");
-		});
-	};
-
-	const handleBackToConfiguration = () => {
-		transitionToState("configuration", () => {
-			setGameState("configuration");
-			setCurrentConfig(null);
-			setCurrentSession(null);
-		});
-	};
-
-	const handleRestart = () => {
-		transitionToState("configuration", () => {
-			setGameState("configuration");
-			setCurrentConfig(null);
-			setCurrentSession(null);
-		});
-	};
-
-	const handleBackToMenu = () => {
-		transitionToState("configuration", () => {
-			// Navigate back to main menu (home page)
-			window.location.href = "/";
-		});
-	};
+	const flow = useQuizFlow({
+		lab: "suji-dash",
+		describeConfiguration,
+		configurationSchema,
+		defaultConfiguration,
+	});
 
 	return (
 		<main className="min-h-screen bg-gradient-to-br from-pink-50 via-purple-50 to-cyan-50 dark:from-gray-900 dark:via-purple-900 dark:to-cyan-900">
-			{/* View Transition Styles */}
-			<style jsx global>{`
-				@media (prefers-reduced-motion: no-preference) {
-					::view-transition-old(root),
-					::view-transition-new(root) {
-						animation-duration: 0.5s;
-					}
-					
-					::view-transition-old(config-step) {
-						animation: slide-out-left 0.4s ease-in-out;
-					}
-					
-					::view-transition-new(game-step) {
-						animation: slide-in-right 0.4s ease-in-out;
-					}
-					
-					::view-transition-old(game-step) {
-						animation: slide-out-right 0.4s ease-in-out;
-					}
-					
-					::view-transition-new(results-step) {
-						animation: slide-in-up 0.4s ease-in-out;
-					}
-					
-					::view-transition-old(results-step) {
-						animation: slide-out-down 0.4s ease-in-out;
-					}
-					
-					::view-transition-new(config-step) {
-						animation: slide-in-left 0.4s ease-in-out;
-					}
-				}
-				
-				@keyframes slide-out-left {
-					to { transform: translateX(-100%); opacity: 0; }
-				}
-				
-				@keyframes slide-in-right {
-					from { transform: translateX(100%); opacity: 0; }
-				}
-				
-				@keyframes slide-out-right {
-					to { transform: translateX(100%); opacity: 0; }
-				}
-				
-				@keyframes slide-in-left {
-					from { transform: translateX(-100%); opacity: 0; }
-				}
-				
-				@keyframes slide-in-up {
-					from { transform: translateY(50px); opacity: 0; }
-				}
-				
-				@keyframes slide-out-down {
-					to { transform: translateY(-50px); opacity: 0; }
-				}
-			`}</style>
+			<QuizTransitionStyles />
 
 			{/* Background decorative elements */}
 			<div className="pointer-events-none fixed inset-0 overflow-hidden">
@@ -1089,48 +1522,40 @@ export default function PracticePage() {
 					<p className="mt-2 text-lg text-primary">
 						Master Japanese numbers with focused practice sessions
 					</p>
-					{/* Step indicator */}
-					<div className="mt-4 flex justify-center">
-						<div className="flex items-center gap-2">
-							<div
-								className={`h-2 w-8 rounded-full transition-all duration-300 ${
-									gameState === "configuration"
-										? "bg-purple-600"
-										: "bg-gray-300"
-								}`}
-							/>
-							<div
-								className={`h-2 w-8 rounded-full transition-all duration-300 ${
-									gameState === "playing" ? "bg-purple-600" : "bg-gray-300"
-								}`}
-							/>
-							<div
-								className={`h-2 w-8 rounded-full transition-all duration-300 ${
-									gameState === "results" ? "bg-purple-600" : "bg-gray-300"
-								}`}
-							/>
-						</div>
-					</div>
+					<QuizStepIndicator gameState={flow.gameState} theme={quizTheme} />
 				</div>
 
 				{/* Game Flow */}
-				{gameState === "configuration" && (
-					<ConfigurationStep onStart={handleStartPractice} />
+				{flow.gameState === "configuration" && flow.initialConfig && (
+					<ConfigurationStep
+						initialConfig={flow.initialConfig}
+						onStart={flow.start}
+						dueCount={flow.dueItems?.length ?? 0}
+					/>
 				)}
 
-				{gameState === "playing" && currentConfig && (
-					<GamePlayStep
-						config={currentConfig}
-						onComplete={handleCompleteSession}
-						onBack={handleBackToConfiguration}
-					/>
+				{flow.gameState === "playing" && flow.config && (
+					<QuizReviewGate
+						review={flow.config.practiceLevel === "review"}
+						dueItems={flow.dueItems}
+						theme={quizTheme}
+						onBack={flow.backToConfiguration}
+					>
+						<GamePlayStep
+							config={flow.config}
+							dueItems={flow.dueItems ?? []}
+							onComplete={flow.complete}
+							onBack={flow.backToConfiguration}
+						/>
+					</QuizReviewGate>
 				)}
 
-				{gameState === "results" && currentSession && (
+				{flow.gameState === "results" && flow.session && (
 					<ResultsStep
-						session={currentSession}
-						onRestart={handleRestart}
-						onBackToMenu={handleBackToMenu}
+						session={flow.session}
+						personalBest={flow.personalBest}
+						onRestart={flow.backToConfiguration}
+						onBackToMenu={flow.backToMenu}
 					/>
 				)}
 			</div>
@@ -0,0 +1,89 @@
+"use client";
+
+import { CalendarCheck, Flame, Play } from "lucide-react";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+import { Button } from "~/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "~/components/ui/card";
+import {
+	type DailyChallenge,
+	type DailyResult,
+	getChallengeDate,
+	getCurrentStreak,
+	getDailyChallenge,
+	getDailyChallengeHref,
+	loadDailyResults,
+} from "~/lib/daily-challenge";
+import { labNames } from "~/lib/session-history";
+import { themeStyles } from "~/lib/theme";
+
+export function DailyChallengeCard() {
+	// Today is read in the browser, so the player's own date is used
+	const [challenge, setChallenge] = useState<DailyChallenge | null>(null);
+	const [results, setResults] = useState<DailyResult[]>([]);
+
+	useEffect(() => {
+		setChallenge(getDailyChallenge(getChallengeDate(new Date())));
+		// Streaks are a bonus; the challenge works without IndexedDB
+		loadDailyResults()
+			.then(setResults)
+			.catch(() => setResults([]));
+	}, []);
+
+	if (!challenge) return null;
+
+	const todaysResult = results.find((result) => result.date === challenge.date);
+	const streak = getCurrentStreak(
+		results.map((result) => result.date),
+		challenge.date,
+	);
+
+	return (
+		<Card className={`${themeStyles.card.base} mb-8`}>
+			<CardHeader>
+				<div className="flex flex-wrap items-center justify-between gap-4">
+					<div className="flex items-center gap-4">
+						<div className="flex h-12 w-12 items-center justify-center rounded-2xl bg-gradient-to-br from-yellow-500 to-orange-500 text-white shadow-lg">
+							<CalendarCheck className="h-6 w-6" />
+						</div>
+						<div className="space-y-1 text-left">
+							<CardTitle className={themeStyles.text.primary}>
+								Daily Challenge
+							</CardTitle>
+							<CardDescription className={themeStyles.text.secondary}>
+								{labNames[challenge.lab]} • {challenge.title} • the same
+								questions for everyone today
+							</CardDescription>
+						</div>
+					</div>
+					<div className="flex items-center gap-2 font-semibold text-orange-600 dark:text-orange-400">
+						<Flame className="h-5 w-5" />
+						{streak} {streak === 1 ? "day" : "days"} streak
+					</div>
+				</div>
+			</CardHeader>
+			<CardContent className="flex flex-wrap items-center justify-between gap-4">
+				<p className={`text-sm ${themeStyles.text.body}`}>
+					{todaysResult
+						? `Done today: ${todaysResult.correctAnswers}/${todaysResult.totalQuestions} correct. Come back tomorrow for a new challenge.`
+						: streak > 0
+							? "Play today's challenge to keep your streak going."
+							: "Play today's challenge to start a streak."}
+				</p>
+				<Link href={getDailyChallengeHref(challenge)}>
+					<Button className="bg-gradient-to-r from-yellow-500 to-orange-500 text-white shadow-lg hover:shadow-xl">
+						<Play className="mr-2 h-4 w-4" />
+						{todaysResult ? "Play Again" : "Play Today's Challenge"}
+					</Button>
+				</Link>
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,163 @@
+import { describe, expect, test } from "vitest";
+import {
+	createDailyResult,
+	getChallengeDate,
+	getCurrentStreak,
+	getDailyChallenge,
+	getDailyChallengeHref,
+	readDailySeed,
+} from "./daily-challenge";
+import type { QuizConfiguration, QuizSession } from "./quiz-engine";
+
+describe("Daily Challenge", () => {
+	describe("getChallengeDate", () => {
+		test("should use the local date", () => {
+			expect(getChallengeDate(new Date(2026, 9, 19, 23, 59))).toBe(
+				"2026-10-19",
+			);
+			expect(getChallengeDate(new Date(2027, 0, 1, 0, 0))).toBe("2027-01-01");
+		});
+	});
+
+	describe("getDailyChallenge", () => {
+		test("should give everyone the same challenge for a day", () => {
+			expect(getDailyChallenge("2026-10-19")).toEqual(
+				getDailyChallenge("2026-10-19"),
+			);
+			expect(getDailyChallenge("2026-10-19").seed).toBe("daily-2026-10-19");
+		});
+
+		test("should alternate between 数字-Dash and 日付-Dash", () => {
+			const labs = ["2026-10-19", "2026-10-20", "2026-10-21"].map(
+				(date) => getDailyChallenge(date).lab,
+			);
+			expect(new Set(labs)).toEqual(new Set(["suji-dash", "hidzuke-dash"]));
+			expect(labs[0]).not.toBe(labs[1]);
+			expect(labs[1]).not.toBe(labs[2]);
+		});
+
+		test("should link straight to the seeded session", () => {
+			const challenge = getDailyChallenge("2026-10-19");
+			const href = getDailyChallengeHref(challenge);
+			expect(href.startsWith(`/${challenge.lab}?`)).toBe(true);
+			const params = new URLSearchParams(href.slice(href.indexOf("?")));
+			expect(params.get("seed")).toBe("daily-2026-10-19");
+			expect(params.get("questionCount")).toBe("10");
+		});
+
+		test("should show the price tag challenge on price tags", () => {
+			const rotation = Array.from(
+				{ length: 8 },
+				(_, day) => `2026-10-${String(19 + day).padStart(2, "0")}`,
+			);
+			const prices = rotation
+				.map(getDailyChallenge)
+				.find((challenge) => challenge.settings.practiceType === "price");
+			expect(prices?.settings.priceTags).toBe("true");
+		});
+	});
+
+	describe("readDailySeed", () => {
+		test("should read the day from daily seeds only", () => {
+			expect(readDailySeed("daily-2026-10-19")).toBe("2026-10-19");
+			expect(readDailySeed("k3x9a2mf")).toBeNull();
+			expect(readDailySeed(undefined)).toBeNull();
+		});
+	});
+
+	describe("createDailyResult", () => {
+		const challenge = getDailyChallenge("2026-10-19");
+		const session: QuizSession<QuizConfiguration> = {
+			configuration: {
+				...challenge.settings,
+				questionCount: 10,
+				seed: challenge.seed,
+			},
+			startTime: new Date(2026, 9, 19, 9, 0),
+			endTime: new Date(2026, 9, 19, 9, 2),
+			totalQuestions: 10,
+			correctAnswers: 8,
+			answers: [],
+		};
+
+		test("should record the day's challenge", () => {
+			expect(createDailyResult(challenge.lab, session)).toEqual({
+				date: "2026-10-19",
+				lab: challenge.lab,
+				correctAnswers: 8,
+				totalQuestions: 10,
+				endTime: new Date(2026, 9, 19, 9, 2).getTime(),
+			});
+		});
+
+		test("should skip other labs, other seeds and old challenges", () => {
+			const otherLab =
+				challenge.lab === "suji-dash" ? "hidzuke-dash" : "suji-dash";
+			expect(createDailyResult(otherLab, session)).toBeNull();
+			expect(
+				createDailyResult(challenge.lab, {
+					...session,
+					configuration: { ...session.configuration, seed: "k3x9a2mf" },
+				}),
+			).toBeNull();
+			expect(
+				createDailyResult(challenge.lab, {
+					...session,
+					startTime: new Date(2026, 9, 25, 9, 0),
+				}),
+			).toBeNull();
+		});
+
+		test("should skip sessions with edited settings", () => {
+			expect(
+				createDailyResult(challenge.lab, {
+					...session,
+					configuration: { ...session.configuration, questionCount: 1 },
+				}),
+			).toBeNull();
+			expect(
+				createDailyResult(challenge.lab, {
+					...session,
+					configuration: {
+						...session.configuration,
+						practiceType: "tampered",
+					},
+				}),
+			).toBeNull();
+		});
+	});
+
+	describe("getCurrentStreak", () => {
+		test("should count days in a row up to today", () => {
+			expect(
+				getCurrentStreak(
+					["2026-10-16", "2026-10-17", "2026-10-18", "2026-10-19"],
+					"2026-10-19",
+				),
+			).toBe(4);
+		});
+
+		test("should keep a streak through yesterday until today is over", () => {
+			expect(getCurrentStreak(["2026-10-17", "2026-10-18"], "2026-10-19")).toBe(
+				2,
+			);
+		});
+
+		test("should break on a missed day", () => {
+			expect(
+				getCurrentStreak(
+					["2026-10-15", "2026-10-16", "2026-10-18"],
+					"2026-10-19",
+				),
+			).toBe(1);
+			expect(getCurrentStreak(["2026-10-16"], "2026-10-19")).toBe(0);
+			expect(getCurrentStreak([], "2026-10-19")).toBe(0);
+		});
+
+		test("should count across month and year ends", () => {
+			expect(getCurrentStreak(["2026-12-31", "2027-01-01"], "2027-01-01")).toBe(
+				2,
+			);
+		});
+	});
+});
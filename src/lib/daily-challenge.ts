@@ -0,0 +1,219 @@
+// Daily challenge: one short drill a day in 数字-Dash or 日付-Dash. The drill
+// and its seed come from the date, so everyone gets the same puzzles that
+// day. Results are kept in IndexedDB, one per day, to count streaks.
+
+import type { QuizConfiguration, QuizSession } from "./quiz-engine";
+import {
+	DAILY_STORE,
+	type LabId,
+	openHistoryDatabase,
+	requestToPromise,
+} from "./session-history";
+
+export interface DailyChallenge {
+	// YYYY-MM-DD in the player's time zone
+	date: string;
+	lab: LabId;
+	title: string;
+	// Seeds every question, so the set is the same for everyone
+	seed: string;
+	// Link parameters for the lab; other settings keep the lab's defaults
+	settings: Record<string, string>;
+}
+
+export interface DailyResult {
+	date: string;
+	lab: LabId;
+	correctAnswers: number;
+	totalQuestions: number;
+	endTime: number; // epoch ms
+}
+
+type ChallengeSetup = Pick<DailyChallenge, "lab" | "title" | "settings">;
+
+const CHALLENGE_QUESTIONS = 10;
+const SEED_PREFIX = "daily-";
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// One a day in turn, alternating labs. Nothing here depends on the player's
+// own review queue or on audio.
+const challengeRotation: [ChallengeSetup, ...ChallengeSetup[]] = [
+	{
+		lab: "suji-dash",
+		title: "万 numbers in kanji",
+		settings: { practiceType: "kanji-to-japanese", practiceLevel: "master" },
+	},
+	{
+		lab: "hidzuke-dash",
+		title: "Days of the month",
+		settings: { practiceType: "dates", practiceDirection: "both" },
+	},
+	{
+		lab: "suji-dash",
+		title: "Price tags",
+		settings: { practiceType: "price", priceTags: "true" },
+	},
+	{
+		lab: "hidzuke-dash",
+		title: "Calendar dates and eras",
+		settings: { practiceType: "calendar", practiceDirection: "both" },
+	},
+	{
+		lab: "suji-dash",
+		title: "Phone numbers and postal codes",
+		settings: { practiceType: "digit-strings" },
+	},
+	{
+		lab: "hidzuke-dash",
+		title: "Telling the time",
+		settings: { practiceType: "time", practiceDirection: "both" },
+	},
+	{
+		lab: "suji-dash",
+		title: "Decimals and fractions",
+		settings: { practiceType: "number-to-japanese", practiceLevel: "decimals" },
+	},
+	{
+		lab: "hidzuke-dash",
+		title: "Durations",
+		settings: { practiceType: "durations", practiceDirection: "both" },
+	},
+];
+
+/**
+ * The challenge day a moment falls on, as YYYY-MM-DD in local time
+ */
+export function getChallengeDate(date: Date): string {
+	const month = String(date.getMonth() + 1).padStart(2, "0");
+	const day = String(date.getDate()).padStart(2, "0");
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Whole days since 1970-01-01, for stepping between dates
+function toDayNumber(date: string): number {
+	const [year = 1970, month = 1, day = 1] = date.split("-").map(Number);
+	return Math.round(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+}
+
+/**
+ * Get the challenge for a day (YYYY-MM-DD)
+ */
+export function getDailyChallenge(date: string): DailyChallenge {
+	const rotation = challengeRotation.length;
+	const setup =
+		challengeRotation[((toDayNumber(date) % rotation) + rotation) % rotation] ??
+		challengeRotation[0];
+	return { ...setup, date, seed: `${SEED_PREFIX}${date}` };
+}
+
+/**
+ * Link that starts a challenge straight away
+ */
+export function getDailyChallengeHref(challenge: DailyChallenge): string {
+	const params = new URLSearchParams({
+		...challenge.settings,
+		questionCount: String(CHALLENGE_QUESTIONS),
+		seed: challenge.seed,
+	});
+	return `/${challenge.lab}?${params.toString()}`;
+}
+
+/**
+ * The day a daily challenge seed belongs to, or null for any other seed
+ */
+export function readDailySeed(seed: string | undefined): string | null {
+	const match = seed?.match(/^daily-(\d{4}-\d{2}-\d{2})$/);
+	return match?.[1] ?? null;
+}
+
+// Whether a session was played with the challenge's settings, not an edited
+// link with the daily seed
+function matchesChallenge(
+	challenge: DailyChallenge,
+	configuration: QuizConfiguration,
+): boolean {
+	const played: Record<string, unknown> = { ...configuration };
+	return (
+		configuration.questionCount === CHALLENGE_QUESTIONS &&
+		Object.entries(challenge.settings).every(
+			([name, value]) => String(played[name]) === value,
+		)
+	);
+}
+
+/**
+ * Turn a finished session into a daily result, or null when it wasn't that
+ * day's challenge. Old challenge links can be replayed but don't count.
+ */
+export function createDailyResult<TConfig extends QuizConfiguration>(
+	lab: LabId,
+	session: QuizSession<TConfig>,
+): DailyResult | null {
+	const date = readDailySeed(session.configuration.seed);
+	if (!date || date !== getChallengeDate(session.startTime)) return null;
+	const challenge = getDailyChallenge(date);
+	if (
+		challenge.lab !== lab ||
+		!matchesChallenge(challenge, session.configuration)
+	) {
+		return null;
+	}
+	return {
+		date,
+		lab,
+		correctAnswers: session.correctAnswers,
+		totalQuestions: session.totalQuestions,
+		endTime: session.endTime?.getTime() ?? session.startTime.getTime(),
+	};
+}
+
+/**
+ * Count the days in a row with a finished challenge. Today's challenge may
+ * still be to come, so a streak through yesterday is still current.
+ */
+export function getCurrentStreak(dates: string[], today: string): number {
+	const played = new Set(dates.map(toDayNumber));
+	let day = toDayNumber(today);
+	if (!played.has(day)) day -= 1;
+
+	let streak = 0;
+	while (played.has(day)) {
+		streak++;
+		day--;
+	}
+	return streak;
+}
+
+/**
+ * Save a day's result. Only the first attempt counts; returns false when the
+ * day was already played.
+ */
+export async function saveDailyResult(result: DailyResult): Promise<boolean> {
+	const db = await openHistoryDatabase();
+	try {
+		const store = db
+			.transaction(DAILY_STORE, "readwrite")
+			.objectStore(DAILY_STORE);
+		const existing = await requestToPromise(store.get(result.date));
+		if (existing) return false;
+		await requestToPromise(store.add(result));
+		return true;
+	} finally {
+		db.close();
+	}
+}
+
+/**
+ * Load every daily result, oldest first
+ */
+export async function loadDailyResults(): Promise<DailyResult[]> {
+	const db = await openHistoryDatabase();
+	try {
+		const store = db
+			.transaction(DAILY_STORE, "readonly")
+			.objectStore(DAILY_STORE);
+		return await requestToPromise(store.getAll() as IDBRequest<DailyResult[]>);
+	} finally {
+		db.close();
+	}
+}
@@ -0,0 +1,174 @@
+import { describe, expect, test } from "vitest";
+import {
+	type CounterId,
+	convertWithCounter,
+	getCounters,
+	isCounterAnswerCorrect,
+} from "./japanese-counters";
+
+function reading(num: number, counterId: CounterId): string {
+	return convertWithCounter(num, counterId).hiragana;
+}
+
+describe("Japanese Counters Library", () => {
+	describe("convertWithCounter", () => {
+		test("should apply h-row sound changes for 本", () => {
+			expect(convertWithCounter(1, "hon")).toMatchObject({
+				number: 1,
+				kanji: "一本",
+				hiragana: "いっぽん",
+				romaji: "ippon",
+			});
+			expect(reading(2, "hon")).toBe("にほん");
+			expect(reading(3, "hon")).toBe("さんぼん");
+			expect(reading(4, "hon")).toBe("よんほん");
+			expect(reading(6, "hon")).toBe("ろっぽん");
+			expect(reading(8, "hon")).toBe("はっぽん");
+			expect(reading(10, "hon")).toBe("じゅっぽん");
+			expect(reading(100, "hon")).toBe("ひゃっぽん");
+			expect(reading(300, "hon")).toBe("さんびゃっぽん");
+			expect(reading(1000, "hon")).toBe("せんぼん");
+			expect(reading(10000, "hon")).toBe("いちまんぼん");
+		});
+
+		test("should use the final element of compound numbers", () => {
+			expect(reading(11, "hon")).toBe("じゅういっぽん");
+			expect(reading(23, "hon")).toBe("にじゅうさんぼん");
+			expect(reading(20, "hiki")).toBe("にじゅっぴき");
+			expect(reading(3000, "hiki")).toBe("さんぜんびき");
+		});
+
+		test("should handle 匹 and 杯 like 本", () => {
+			expect(reading(1, "hiki")).toBe("いっぴき");
+			expect(reading(3, "hiki")).toBe("さんびき");
+			expect(reading(6, "hai")).toBe("ろっぱい");
+			expect(reading(3, "hai")).toBe("さんばい");
+		});
+
+		test("should apply ふん/ぷん changes for 分", () => {
+			expect(reading(1, "fun")).toBe("いっぷん");
+			expect(reading(2, "fun")).toBe("にふん");
+			expect(reading(3, "fun")).toBe("さんぷん");
+			expect(reading(4, "fun")).toBe("よんぷん");
+			expect(reading(5, "fun")).toBe("ごふん");
+			expect(reading(10, "fun")).toBe("じゅっぷん");
+			expect(convertWithCounter(6, "fun").romaji).toBe("roppun");
+		});
+
+		test("should geminate k-row counters", () => {
+			expect(convertWithCounter(1, "ko").romaji).toBe("ikko");
+			expect(reading(6, "ko")).toBe("ろっこ");
+			expect(reading(3, "ko")).toBe("さんこ");
+			expect(reading(1, "kai")).toBe("いっかい");
+			expect(reading(3, "kai")).toBe("さんがい");
+			expect(reading(8, "kai")).toBe("はっかい");
+		});
+
+		test("should keep regular counters unchanged", () => {
+			expect(reading(1, "mai")).toBe("いちまい");
+			expect(reading(3, "mai")).toBe("さんまい");
+			expect(reading(8, "mai")).toBe("はちまい");
+		});
+
+		test("should use irregular readings for people", () => {
+			expect(convertWithCounter(1, "nin")).toMatchObject({
+				kanji: "一人",
+				hiragana: "ひとり",
+				romaji: "hitori",
+			});
+			expect(reading(2, "nin")).toBe("ふたり");
+			expect(reading(3, "nin")).toBe("さんにん");
+			expect(reading(4, "nin")).toBe("よにん");
+			expect(reading(14, "nin")).toBe("じゅうよにん");
+			expect(reading(9, "nin")).toBe("きゅうにん");
+		});
+
+		test("should read ages with 歳", () => {
+			expect(convertWithCounter(1, "sai").romaji).toBe("issai");
+			expect(reading(8, "sai")).toBe("はっさい");
+			expect(reading(10, "sai")).toBe("じゅっさい");
+			expect(reading(18, "sai")).toBe("じゅうはっさい");
+			expect(reading(30, "sai")).toBe("さんじゅっさい");
+			expect(convertWithCounter(20, "sai")).toMatchObject({
+				kanji: "二十歳",
+				hiragana: "はたち",
+			});
+			expect(
+				isCounterAnswerCorrect("にじゅっさい", convertWithCounter(20, "sai")),
+			).toBe(true);
+		});
+
+		test("should use native numbers for つ and drop it above ten", () => {
+			expect(reading(1, "tsu")).toBe("ひとつ");
+			expect(reading(3, "tsu")).toBe("みっつ");
+			expect(reading(9, "tsu")).toBe("ここのつ");
+			expect(convertWithCounter(10, "tsu")).toMatchObject({
+				kanji: "十",
+				hiragana: "とお",
+			});
+			expect(convertWithCounter(11, "tsu")).toMatchObject({
+				kanji: "十一",
+				hiragana: "じゅういち",
+			});
+		});
+	});
+
+	describe("isCounterAnswerCorrect", () => {
+		test("should accept kanji, hiragana and romaji", () => {
+			const counted = convertWithCounter(3, "hon");
+			expect(isCounterAnswerCorrect("三本", counted)).toBe(true);
+			expect(isCounterAnswerCorrect("さんぼん", counted)).toBe(true);
+			expect(isCounterAnswerCorrect("sanbon", counted)).toBe(true);
+		});
+
+		test("should accept common alternative readings", () => {
+			expect(
+				isCounterAnswerCorrect("はちほん", convertWithCounter(8, "hon")),
+			).toBe(true);
+			expect(
+				isCounterAnswerCorrect("さんかい", convertWithCounter(3, "kai")),
+			).toBe(true);
+			expect(
+				isCounterAnswerCorrect("ななにん", convertWithCounter(7, "nin")),
+			).toBe(true);
+		});
+
+		test("should take 時 and 分 readings from the shared digit table", () => {
+			expect(convertWithCounter(7, "ji")).toMatchObject({
+				hiragana: "しちじ",
+				alternatives: [{ hiragana: "ななじ", usage: "unusual" }],
+			});
+			expect(convertWithCounter(7, "fun")).toMatchObject({
+				hiragana: "ななふん",
+				alternatives: [{ hiragana: "しちふん", usage: "standard" }],
+			});
+			expect(
+				isCounterAnswerCorrect("きゅうじ", convertWithCounter(9, "ji")),
+			).toBe(false);
+		});
+
+		test("should reject readings without the sound change", () => {
+			expect(
+				isCounterAnswerCorrect("さんほん", convertWithCounter(3, "hon")),
+			).toBe(false);
+			expect(
+				isCounterAnswerCorrect("いちぽん", convertWithCounter(1, "hon")),
+			).toBe(false);
+			expect(
+				isCounterAnswerCorrect("よんにん", convertWithCounter(4, "nin")),
+			).toBe(false);
+		});
+	});
+
+	describe("getCounters", () => {
+		test("should produce a reading for every counter from 1 to 100", () => {
+			for (const counter of getCounters()) {
+				for (let num = 1; num <= 100; num++) {
+					const counted = convertWithCounter(num, counter.id);
+					expect(counted.kanji).not.toContain("?");
+					expect(counted.hiragana).not.toContain("?");
+				}
+			}
+		});
+	});
+});
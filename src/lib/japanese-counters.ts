@@ -0,0 +1,562 @@
+// Japanese counter (助数詞) utilities with sound changes
+
+import {
+	type JapaneseNumber,
+	convertToJapanese,
+	isAnswerCorrect,
+	wagoNumbers,
+} from "./japanese-numbers";
+import {
+	type NumberReading,
+	type ReadingContext,
+	type ReadingUsage,
+	getFinalDigitReadings,
+} from "./number-readings";
+import {
+	type ExceptionCounter,
+	getExceptionReadings,
+	getReadingExceptions,
+} from "./reading-exceptions";
+
+export type CounterId =
+	| "hon"
+	| "hiki"
+	| "hai"
+	| "nin"
+	| "sai"
+	| "tsu"
+	| "ko"
+	| "mai"
+	| "kai"
+	| "fun"
+	| "ji"
+	| "jikan"
+	| "funkan"
+	| "shuukan"
+	| "kagetsu"
+	| "nen";
+
+// Which element a number ends with decides the sound change (三本 vs 三千本)
+type FinalElement =
+	| "0"
+	| "1"
+	| "2"
+	| "3"
+	| "4"
+	| "5"
+	| "6"
+	| "7"
+	| "8"
+	| "9"
+	| "10"
+	| "100"
+	| "1000"
+	| "10000"
+	| "big";
+
+type CounterForm = "base" | "voiced" | "plosive";
+
+// How the number itself changes in front of the counter
+// - geminate: いち → いっ, ろく → ろっ, はち → はっ, じゅう → じゅっ, ひゃく → ひゃっ
+// - short-four: よん → よ (よにん)
+// - shichi: なな → しち (しちじ)
+// - ku: きゅう → く (くじ)
+type NumberEnding = "geminate" | "short-four" | "shichi" | "ku";
+
+interface CounterSoundRule {
+	form: CounterForm;
+	ending?: NumberEnding;
+	// Other readings that are also in common use (はちほん, さんかい)
+	alternatives?: Array<{ form: CounterForm; ending?: NumberEnding }>;
+}
+
+interface CounterReading {
+	kanji: string;
+	hiragana: string;
+	romaji: string;
+}
+
+export interface JapaneseCounter {
+	id: CounterId;
+	kanji: string;
+	english: string;
+	description: string;
+	forms: Record<"base", Omit<CounterReading, "kanji">> &
+		Partial<
+			Record<Exclude<CounterForm, "base">, Omit<CounterReading, "kanji">>
+		>;
+	rules: Partial<Record<FinalElement, CounterSoundRule>>;
+	// Irregular counts that don't follow the rules (ひとり, ふたり, ひとつ…)
+	overrides?: Record<
+		number,
+		CounterReading & { alternatives?: CounterReading[] }
+	>;
+	// Above this count the counter is dropped and the bare number is used (つ)
+	bareAbove?: number;
+	// Where the last digit takes its shared reading for the counter (よじ,
+	// しちじ, くじ), see number-readings
+	digitContext?: ReadingContext;
+}
+
+export interface CountedReading extends JapaneseNumber {
+	usage: ReadingUsage;
+}
+
+export interface CountedNumber extends JapaneseNumber {
+	counterId: CounterId;
+	// Other accepted readings; unusual ones are correct but flagged (ななじ)
+	alternatives: CountedReading[];
+}
+
+// h-row counters: いっぽん, さんぼん, ろっぽん, はっぽん, じゅっぽん, ひゃっぽん, せんぼん
+const hRowRules: Partial<Record<FinalElement, CounterSoundRule>> = {
+	"1": { form: "plosive", ending: "geminate" },
+	"3": { form: "voiced" },
+	"6": { form: "plosive", ending: "geminate" },
+	"8": {
+		form: "plosive",
+		ending: "geminate",
+		alternatives: [{ form: "base" }],
+	},
+	"10": { form: "plosive", ending: "geminate" },
+	"100": { form: "plosive", ending: "geminate" },
+	"1000": { form: "voiced" },
+	"10000": { form: "voiced" },
+};
+
+// ふん/ぷん counters: いっぷん, さんぷん, よんぷん, ろっぷん, じゅっぷん
+const funRules: Partial<Record<FinalElement, CounterSoundRule>> = {
+	"1": { form: "plosive", ending: "geminate" },
+	"3": { form: "plosive" },
+	"4": { form: "plosive" },
+	"6": { form: "plosive", ending: "geminate" },
+	"8": {
+		form: "plosive",
+		ending: "geminate",
+		alternatives: [{ form: "base" }],
+	},
+	"10": { form: "plosive", ending: "geminate" },
+	"100": { form: "plosive", ending: "geminate" },
+	"1000": { form: "plosive" },
+	"10000": { form: "plosive" },
+};
+
+// 年 also reads 4 and 9 the old way (よねん, くねん) but きゅうねん is common too
+const nenRules: Partial<Record<FinalElement, CounterSoundRule>> = {
+	"4": { form: "base", ending: "short-four" },
+	"7": { form: "base", ending: "shichi", alternatives: [{ form: "base" }] },
+	"9": { form: "base", ending: "ku", alternatives: [{ form: "base" }] },
+};
+
+// k-row counters only geminate: いっこ, ろっこ, はっこ, じゅっこ, ひゃっこ
+const kRowRules: Partial<Record<FinalElement, CounterSoundRule>> = {
+	"1": { form: "base", ending: "geminate" },
+	"6": { form: "base", ending: "geminate" },
+	"8": {
+		form: "base",
+		ending: "geminate",
+		alternatives: [{ form: "base" }],
+	},
+	"10": { form: "base", ending: "geminate" },
+	"100": { form: "base", ending: "geminate" },
+};
+
+// Irregular counts of 人 and 歳 come from the shared exception table
+function exceptionOverrides(
+	counter: ExceptionCounter,
+): JapaneseCounter["overrides"] {
+	return Object.fromEntries(
+		getReadingExceptions(counter).map((exception) => [
+			exception.number,
+			{
+				kanji: exception.kanji,
+				hiragana: exception.hiragana,
+				romaji: exception.romaji,
+				alternatives: getExceptionReadings(exception)
+					.slice(1)
+					.map((reading) => ({ ...reading, usage: "standard" as const })),
+			},
+		]),
+	);
+}
+
+export const japaneseCounters: Record<CounterId, JapaneseCounter> = {
+	hon: {
+		id: "hon",
+		kanji: "本",
+		english: "long, thin objects",
+		description: "Pens, bottles, trees, umbrellas",
+		forms: {
+			base: { hiragana: "ほん", romaji: "hon" },
+			voiced: { hiragana: "ぼん", romaji: "bon" },
+			plosive: { hiragana: "ぽん", romaji: "pon" },
+		},
+		rules: hRowRules,
+	},
+	hiki: {
+		id: "hiki",
+		kanji: "匹",
+		english: "small animals",
+		description: "Cats, dogs, fish, insects",
+		forms: {
+			base: { hiragana: "ひき", romaji: "hiki" },
+			voiced: { hiragana: "びき", romaji: "biki" },
+			plosive: { hiragana: "ぴき", romaji: "piki" },
+		},
+		rules: hRowRules,
+	},
+	hai: {
+		id: "hai",
+		kanji: "杯",
+		english: "cups and glasses",
+		description: "Cups of coffee, bowls of rice",
+		forms: {
+			base: { hiragana: "はい", romaji: "hai" },
+			voiced: { hiragana: "ばい", romaji: "bai" },
+			plosive: { hiragana: "ぱい", romaji: "pai" },
+		},
+		rules: hRowRules,
+	},
+	nin: {
+		id: "nin",
+		kanji: "人",
+		english: "people",
+		description: "ひとり, ふたり, then さんにん…",
+		forms: {
+			base: { hiragana: "にん", romaji: "nin" },
+		},
+		rules: {
+			"4": { form: "base", ending: "short-four" },
+		},
+		overrides: exceptionOverrides("nin"),
+	},
+	sai: {
+		id: "sai",
+		kanji: "歳",
+		english: "ages",
+		description: "いっさい, はっさい, はたち",
+		forms: {
+			base: { hiragana: "さい", romaji: "sai" },
+		},
+		// Rules cover compounds (じゅういっさい); the table covers はたち
+		rules: {
+			"1": { form: "base", ending: "geminate" },
+			"8": { form: "base", ending: "geminate" },
+			"10": { form: "base", ending: "geminate" },
+		},
+		overrides: exceptionOverrides("sai"),
+	},
+	tsu: {
+		id: "tsu",
+		kanji: "つ",
+		english: "general things",
+		description: "Native numbers: ひとつ, ふたつ… とお",
+		forms: {
+			base: { hiragana: "つ", romaji: "tsu" },
+		},
+		rules: {},
+		overrides: Object.fromEntries(
+			wagoNumbers.map(({ number, kanji, hiragana, romaji }) => [
+				number,
+				{ kanji, hiragana, romaji },
+			]),
+		),
+		bareAbove: wagoNumbers.length,
+	},
+	ko: {
+		id: "ko",
+		kanji: "個",
+		english: "small objects",
+		description: "Apples, eggs, erasers",
+		forms: {
+			base: { hiragana: "こ", romaji: "ko" },
+		},
+		rules: kRowRules,
+	},
+	mai: {
+		id: "mai",
+		kanji: "枚",
+		english: "flat objects",
+		description: "Paper, shirts, tickets, plates",
+		forms: {
+			base: { hiragana: "まい", romaji: "mai" },
+		},
+		rules: {},
+	},
+	kai: {
+		id: "kai",
+		kanji: "階",
+		english: "floors of a building",
+		description: "いっかい, さんがい, ろっかい",
+		forms: {
+			base: { hiragana: "かい", romaji: "kai" },
+			voiced: { hiragana: "がい", romaji: "gai" },
+		},
+		rules: {
+			...kRowRules,
+			"3": { form: "voiced", alternatives: [{ form: "base" }] },
+			"1000": { form: "voiced", alternatives: [{ form: "base" }] },
+		},
+	},
+	fun: {
+		id: "fun",
+		kanji: "分",
+		english: "minutes",
+		description: "いっぷん, にふん, さんぷん, よんぷん",
+		forms: {
+			base: { hiragana: "ふん", romaji: "fun" },
+			plosive: { hiragana: "ぷん", romaji: "pun" },
+		},
+		rules: funRules,
+		digitContext: "minute",
+	},
+	ji: {
+		id: "ji",
+		kanji: "時",
+		english: "o'clock",
+		description: "よじ, しちじ, くじ",
+		forms: {
+			base: { hiragana: "じ", romaji: "ji" },
+		},
+		rules: {},
+		digitContext: "hour",
+	},
+	jikan: {
+		id: "jikan",
+		kanji: "時間",
+		english: "hours (duration)",
+		description: "いちじかん, よじかん, くじかん",
+		forms: {
+			base: { hiragana: "じかん", romaji: "jikan" },
+		},
+		rules: {},
+		digitContext: "hour",
+	},
+	funkan: {
+		id: "funkan",
+		kanji: "分間",
+		english: "minutes (duration)",
+		description: "いっぷんかん, さんぷんかん, じゅっぷんかん",
+		forms: {
+			base: { hiragana: "ふんかん", romaji: "funkan" },
+			plosive: { hiragana: "ぷんかん", romaji: "punkan" },
+		},
+		rules: funRules,
+		digitContext: "minute",
+	},
+	shuukan: {
+		id: "shuukan",
+		kanji: "週間",
+		english: "weeks",
+		description: "いっしゅうかん, はっしゅうかん, じゅっしゅうかん",
+		forms: {
+			base: { hiragana: "しゅうかん", romaji: "shuukan" },
+		},
+		rules: {
+			"1": { form: "base", ending: "geminate" },
+			"8": {
+				form: "base",
+				ending: "geminate",
+				alternatives: [{ form: "base" }],
+			},
+			"10": { form: "base", ending: "geminate" },
+		},
+	},
+	kagetsu: {
+		id: "kagetsu",
+		kanji: "か月",
+		english: "months (duration)",
+		description: "いっかげつ, ろっかげつ, じゅっかげつ",
+		forms: {
+			base: { hiragana: "かげつ", romaji: "kagetsu" },
+		},
+		rules: kRowRules,
+	},
+	nen: {
+		id: "nen",
+		kanji: "年",
+		english: "years",
+		description: "よねん, しちねん, くねん",
+		forms: {
+			base: { hiragana: "ねん", romaji: "nen" },
+		},
+		rules: nenRules,
+	},
+};
+
+/**
+ * Get all supported counters in display order
+ */
+export function getCounters(): JapaneseCounter[] {
+	return Object.values(japaneseCounters);
+}
+
+/**
+ * Find the last element that is pronounced (三千 ends in 千, 二十五 ends in 五)
+ */
+function getFinalElement(num: number): FinalElement {
+	if (num === 0) return "0";
+	if (num % 10 !== 0) return String(num % 10) as FinalElement;
+	if (num % 100 !== 0) return "10";
+	if (num % 1000 !== 0) return "100";
+	if (num % 10000 !== 0) return "1000";
+	if (Math.floor(num / 10000) % 10000 !== 0) return "10000";
+	return "big";
+}
+
+const geminatedEndings: Array<{
+	hiragana: string;
+	romaji: string;
+	hiraganaStem: string;
+	romajiStem: string;
+}> = [
+	{ hiragana: "いち", romaji: "ichi", hiraganaStem: "いっ", romajiStem: "i" },
+	{ hiragana: "ろく", romaji: "roku", hiraganaStem: "ろっ", romajiStem: "ro" },
+	{ hiragana: "はち", romaji: "hachi", hiraganaStem: "はっ", romajiStem: "ha" },
+	{
+		hiragana: "じゅう",
+		romaji: "juu",
+		hiraganaStem: "じゅっ",
+		romajiStem: "ju",
+	},
+	{
+		hiragana: "ひゃく",
+		romaji: "hyaku",
+		hiraganaStem: "ひゃっ",
+		romajiStem: "hya",
+	},
+	{
+		hiragana: "びゃく",
+		romaji: "byaku",
+		hiraganaStem: "びゃっ",
+		romajiStem: "bya",
+	},
+	{
+		hiragana: "ぴゃく",
+		romaji: "pyaku",
+		hiraganaStem: "ぴゃっ",
+		romajiStem: "pya",
+	},
+];
+
+/**
+ * Double the first consonant of a romanized counter (ko → kko, chaku → tchaku)
+ */
+function geminateRomaji(romaji: string): string {
+	if (romaji.startsWith("ch")) return `t${romaji}`;
+	return `${romaji.charAt(0)}${romaji}`;
+}
+
+function buildCountedReading(
+	num: number,
+	counter: JapaneseCounter,
+	form: CounterForm,
+	ending?: NumberEnding,
+	// The number's reading when its last digit is read the counter's way
+	digitReading?: NumberReading,
+): JapaneseNumber {
+	const base = convertToJapanese(num);
+	const counterForm = counter.forms[form] ?? counter.forms.base;
+
+	let numberHiragana = digitReading?.hiragana ?? base.hiragana;
+	let numberRomaji = digitReading?.romaji ?? base.romaji;
+	let counterRomaji = counterForm.romaji;
+
+	if (ending === "geminate") {
+		const geminated = geminatedEndings.find((candidate) =>
+			numberHiragana.endsWith(candidate.hiragana),
+		);
+		if (geminated) {
+			numberHiragana =
+				numberHiragana.slice(0, -geminated.hiragana.length) +
+				geminated.hiraganaStem;
+			numberRomaji =
+				numberRomaji.slice(0, -geminated.romaji.length) + geminated.romajiStem;
+			counterRomaji = geminateRomaji(counterRomaji);
+		}
+	} else if (ending === "short-four" && numberHiragana.endsWith("よん")) {
+		numberHiragana = numberHiragana.slice(0, -1);
+		numberRomaji = numberRomaji.slice(0, -1);
+	} else if (ending === "shichi" && numberHiragana.endsWith("なな")) {
+		numberHiragana = `${numberHiragana.slice(0, -2)}しち`;
+		numberRomaji = `${numberRomaji.slice(0, -4)}shichi`;
+	} else if (ending === "ku" && numberHiragana.endsWith("きゅう")) {
+		numberHiragana = `${numberHiragana.slice(0, -3)}く`;
+		numberRomaji = `${numberRomaji.slice(0, -4)}ku`;
+	}
+
+	return {
+		number: num,
+		kanji: base.kanji + counter.kanji,
+		hiragana: numberHiragana + counterForm.hiragana,
+		romaji: numberRomaji + counterRomaji,
+	};
+}
+
+/**
+ * Convert a count with a counter to Japanese, applying rendaku (さんぼん),
+ * gemination (いっぽん) and irregular readings (ひとり, ふたつ)
+ */
+export function convertWithCounter(
+	num: number,
+	counterId: CounterId,
+): CountedNumber {
+	const counter = japaneseCounters[counterId];
+
+	const override = counter.overrides?.[num];
+	if (override) {
+		return {
+			number: num,
+			kanji: override.kanji,
+			hiragana: override.hiragana,
+			romaji: override.romaji,
+			counterId,
+			alternatives: (override.alternatives ?? []).map((alternative) => ({
+				number: num,
+				usage: "standard",
+				...alternative,
+			})),
+		};
+	}
+
+	if (counter.bareAbove !== undefined && num > counter.bareAbove) {
+		return { ...convertToJapanese(num), counterId, alternatives: [] };
+	}
+
+	const rule = counter.rules[getFinalElement(num)] ?? { form: "base" };
+	const [digitReading, ...otherDigitReadings] = counter.digitContext
+		? getFinalDigitReadings(convertToJapanese(num), counter.digitContext)
+		: [];
+	return {
+		...buildCountedReading(num, counter, rule.form, rule.ending, digitReading),
+		counterId,
+		alternatives: [
+			...(rule.alternatives ?? []).map((alternative) => ({
+				...buildCountedReading(
+					num,
+					counter,
+					alternative.form,
+					alternative.ending,
+					digitReading,
+				),
+				usage: digitReading?.usage ?? ("standard" as const),
+			})),
+			...otherDigitReadings.map((other) => ({
+				...buildCountedReading(num, counter, rule.form, rule.ending, other),
+				usage: other.usage,
+			})),
+		],
+	};
+}
+
+/**
+ * Check if user input matches the counted reading or one of its accepted alternatives
+ */
+export function isCounterAnswerCorrect(
+	userInput: string,
+	countedNumber: CountedNumber,
+): boolean {
+	return [countedNumber, ...countedNumber.alternatives].some((reading) =>
+		isAnswerCorrect(userInput, reading),
+	);
+}
@@ -0,0 +1,193 @@
+import { describe, expect, test } from "vitest";
+import {
+	convertFullDateToJapanese,
+	formatIsoDate,
+	generateCalendarDate,
+	getDayOfWeek,
+	getDayReadings,
+	getMonthReadings,
+	getToday,
+	months,
+	parseIsoDate,
+} from "./japanese-dates";
+import { createSeededRandom } from "./seeded-random";
+import { toWareki } from "./wareki";
+
+describe("Japanese Dates Library", () => {
+	test("should find the day of the week", () => {
+		expect(getDayOfWeek({ year: 2024, month: 3, day: 14 }).japanese).toBe(
+			"木曜日",
+		);
+		expect(getDayOfWeek({ year: 2019, month: 5, day: 1 }).english).toBe(
+			"Wednesday",
+		);
+	});
+
+	describe("convertFullDateToJapanese", () => {
+		const expression = convertFullDateToJapanese({
+			year: 2024,
+			month: 3,
+			day: 14,
+		});
+
+		test("should write the Western calendar date", () => {
+			expect(expression.seireki.kanji).toBe("2024年3月14日(木)");
+			expect(expression.seireki.hiragana).toBe(
+				"にせんにじゅうよねんさんがつじゅうよっかもくようび",
+			);
+			expect(expression.seireki.english).toBe("Thursday, March 14, 2024");
+			for (const answer of [
+				"2024年3月14日",
+				"二〇二四年三月十四日",
+				"2024年3月14日(木曜日)",
+				"2024-03-14",
+				"2024/3/14",
+				"march 14, 2024",
+			]) {
+				expect(
+					[
+						...expression.seireki.japaneseAnswers,
+						...expression.seireki.englishAnswers,
+					].includes(answer.toLowerCase()),
+				).toBe(true);
+			}
+		});
+
+		test("should write the era date", () => {
+			expect(expression.wareki?.kanji).toBe("令和6年3月14日");
+			expect(expression.wareki?.hiragana).toBe(
+				"れいわろくねんさんがつじゅうよっか",
+			);
+			expect(expression.wareki?.romaji).toBe("reiwarokunensangatsujuuyokka");
+			for (const answer of [
+				"令和六年三月十四日",
+				"令和6年3月14日(木)",
+				"れいわろくねんさんがつじゅうよっかもくようび",
+			]) {
+				expect(expression.wareki?.japaneseAnswers).toContain(answer);
+			}
+		});
+
+		test("should use 元年 for the first year of an era", () => {
+			const first = convertFullDateToJapanese({ year: 2019, month: 5, day: 1 });
+			expect(first.wareki?.kanji).toBe("令和元年5月1日");
+			expect(first.wareki?.hiragana).toBe("れいわがんねんごがつついたち");
+			expect(first.wareki?.japaneseAnswers).toContain("令和1年5月1日");
+		});
+
+		test("should use the old readings of 4, 7 and 9 for years", () => {
+			const reading = (year: number) =>
+				convertFullDateToJapanese({ year, month: 1, day: 10 }).wareki?.hiragana;
+			expect(reading(1992)).toBe("へいせいよねんいちがつとおか");
+			expect(reading(1995)).toBe("へいせいしちねんいちがつとおか");
+			expect(reading(1997)).toBe("へいせいくねんいちがつとおか");
+		});
+
+		test("should have no era before Meiji", () => {
+			expect(
+				convertFullDateToJapanese({ year: 1850, month: 1, day: 1 }).wareki,
+			).toBeNull();
+		});
+	});
+
+	describe("getMonthReadings", () => {
+		test("should read 4, 7 and 9 the old way", () => {
+			const readings = months.map((month) =>
+				getMonthReadings(month).map((reading) => reading.hiragana),
+			);
+			expect(readings[3]).toEqual(["しがつ"]);
+			expect(readings[6]).toEqual(["しちがつ", "なながつ"]);
+			expect(readings[8]).toEqual(["くがつ"]);
+			expect(readings[9]).toEqual(["じゅうがつ"]);
+		});
+
+		test("should start with the reading in the month table", () => {
+			for (const month of months) {
+				expect(getMonthReadings(month)[0]).toEqual({
+					hiragana: month.reading,
+					romaji: month.romaji,
+					usage: "standard",
+				});
+			}
+		});
+
+		test("should accept なながつ in full dates", () => {
+			const july = convertFullDateToJapanese({ year: 2024, month: 7, day: 7 });
+			expect(july.monthDay.japaneseAnswers).toContain("なながつなのか");
+			expect(july.monthDay.hiragana).toBe("しちがつなのかにちようび");
+		});
+	});
+
+	describe("getDayReadings", () => {
+		test("should take native readings from the exception table", () => {
+			expect(getDayReadings(1).map((reading) => reading.hiragana)).toEqual([
+				"ついたち",
+			]);
+			expect(getDayReadings(24)[0]?.hiragana).toBe("にじゅうよっか");
+		});
+
+		test("should read 7 and 9 the old way, flagging なな", () => {
+			expect(getDayReadings(17)).toEqual([
+				{
+					hiragana: "じゅうしちにち",
+					romaji: "juushichinichi",
+					usage: "standard",
+				},
+				{
+					hiragana: "じゅうななにち",
+					romaji: "juunananichi",
+					usage: "unusual",
+				},
+			]);
+			expect(getDayReadings(19).map((reading) => reading.hiragana)).toEqual([
+				"じゅうくにち",
+			]);
+			expect(getDayReadings(13).map((reading) => reading.hiragana)).toEqual([
+				"じゅうさんにち",
+			]);
+		});
+
+		test("should flag じゅうななにち in full dates", () => {
+			const date = convertFullDateToJapanese({ year: 2024, month: 3, day: 17 });
+			expect(date.monthDay.hiragana).toBe("さんがつじゅうしちにちにちようび");
+			expect(date.monthDay.unusualAnswers).toContain("さんがつじゅうななにち");
+		});
+	});
+
+	test("should generate valid dates with an era", () => {
+		for (let i = 0; i < 200; i++) {
+			expect(toWareki(generateCalendarDate(getToday()))).not.toBeNull();
+		}
+	});
+
+	test("should stay on or before the reference date", () => {
+		const reference = { year: 2020, month: 3, day: 15 };
+		for (let i = 0; i < 200; i++) {
+			expect(
+				formatIsoDate(generateCalendarDate(reference)) <= "2020-03-15",
+			).toBe(true);
+		}
+	});
+
+	test("should generate the same dates for the same seed and reference", () => {
+		const reference = { year: 2026, month: 10, day: 19 };
+		const dates = (seed: string) => {
+			const random = createSeededRandom(seed);
+			return Array.from({ length: 5 }, () =>
+				generateCalendarDate(reference, random),
+			);
+		};
+		expect(dates("calendar")).toEqual(dates("calendar"));
+	});
+
+	test("should read and write YYYY-MM-DD dates", () => {
+		expect(formatIsoDate({ year: 2026, month: 1, day: 9 })).toBe("2026-01-09");
+		expect(parseIsoDate("2026-01-09")).toEqual({
+			year: 2026,
+			month: 1,
+			day: 9,
+		});
+		expect(parseIsoDate("2026-02-30")).toBeNull();
+		expect(parseIsoDate("today")).toBeNull();
+	});
+});
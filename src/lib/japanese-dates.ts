@@ -0,0 +1,552 @@
+// Japanese calendar date (日付) utilities: weekdays, months, day counters and
+// full dates in both the Western (西暦) and Japanese era (和暦) calendars
+
+import { convertToJapanese } from "./japanese-numbers";
+import {
+	type ReadingVariants,
+	type TimeExpression,
+	combineVariants,
+	countedVariants,
+	toExpression,
+} from "./japanese-time";
+import {
+	type NumberReading,
+	getDigitReadings,
+	getFinalDigitReadings,
+} from "./number-readings";
+import {
+	findReadingException,
+	getExceptionReadings,
+} from "./reading-exceptions";
+import {
+	type CalendarDate,
+	type WarekiDate,
+	formatEraYear,
+	japaneseEras,
+	toWareki,
+} from "./wareki";
+
+export interface DateWord {
+	japanese: string;
+	reading: string;
+	romaji: string;
+	english: string;
+}
+
+export interface NumberedDateWord extends DateWord {
+	number: number;
+}
+
+export interface FullDateExpression {
+	date: CalendarDate;
+	weekday: DateWord;
+	// 2024年3月14日(木)
+	seireki: TimeExpression;
+	// 3月14日(木), for when the year is obvious
+	monthDay: TimeExpression;
+	// 令和6年3月14日, or null before Meiji
+	wareki: TimeExpression | null;
+	warekiDate: WarekiDate | null;
+}
+
+// Monday first, matching how Japanese calendars are usually printed
+export const daysOfWeek: DateWord[] = [
+	{
+		japanese: "月曜日",
+		reading: "げつようび",
+		romaji: "getsuyoubi",
+		english: "Monday",
+	},
+	{
+		japanese: "火曜日",
+		reading: "かようび",
+		romaji: "kayoubi",
+		english: "Tuesday",
+	},
+	{
+		japanese: "水曜日",
+		reading: "すいようび",
+		romaji: "suiyoubi",
+		english: "Wednesday",
+	},
+	{
+		japanese: "木曜日",
+		reading: "もくようび",
+		romaji: "mokuyoubi",
+		english: "Thursday",
+	},
+	{
+		japanese: "金曜日",
+		reading: "きんようび",
+		romaji: "kinyoubi",
+		english: "Friday",
+	},
+	{
+		japanese: "土曜日",
+		reading: "どようび",
+		romaji: "doyoubi",
+		english: "Saturday",
+	},
+	{
+		japanese: "日曜日",
+		reading: "にちようび",
+		romaji: "nichiyoubi",
+		english: "Sunday",
+	},
+];
+
+// 4, 7 and 9 use the old readings: しがつ, しちがつ, くがつ
+export const months: NumberedDateWord[] = [
+	{
+		number: 1,
+		japanese: "一月",
+		reading: "いちがつ",
+		romaji: "ichigatsu",
+		english: "January",
+	},
+	{
+		number: 2,
+		japanese: "二月",
+		reading: "にがつ",
+		romaji: "nigatsu",
+		english: "February",
+	},
+	{
+		number: 3,
+		japanese: "三月",
+		reading: "さんがつ",
+		romaji: "sangatsu",
+		english: "March",
+	},
+	{
+		number: 4,
+		japanese: "四月",
+		reading: "しがつ",
+		romaji: "shigatsu",
+		english: "April",
+	},
+	{
+		number: 5,
+		japanese: "五月",
+		reading: "ごがつ",
+		romaji: "gogatsu",
+		english: "May",
+	},
+	{
+		number: 6,
+		japanese: "六月",
+		reading: "ろくがつ",
+		romaji: "rokugatsu",
+		english: "June",
+	},
+	{
+		number: 7,
+		japanese: "七月",
+		reading: "しちがつ",
+		romaji: "shichigatsu",
+		english: "July",
+	},
+	{
+		number: 8,
+		japanese: "八月",
+		reading: "はちがつ",
+		romaji: "hachigatsu",
+		english: "August",
+	},
+	{
+		number: 9,
+		japanese: "九月",
+		reading: "くがつ",
+		romaji: "kugatsu",
+		english: "September",
+	},
+	{
+		number: 10,
+		japanese: "十月",
+		reading: "じゅうがつ",
+		romaji: "juugatsu",
+		english: "October",
+	},
+	{
+		number: 11,
+		japanese: "十一月",
+		reading: "じゅういちがつ",
+		romaji: "juuichigatsu",
+		english: "November",
+	},
+	{
+		number: 12,
+		japanese: "十二月",
+		reading: "じゅうにがつ",
+		romaji: "juunigatsu",
+		english: "December",
+	},
+];
+
+/**
+ * Every accepted reading of a month, standard ones first: 4, 7 and 9 take
+ * their month readings (しがつ, しちがつ and the unusual なながつ, くがつ)
+ */
+export function getMonthReadings(month: NumberedDateWord): NumberReading[] {
+	const digits = getDigitReadings(month.number, "month");
+	if (digits.length === 0) {
+		return [
+			{ hiragana: month.reading, romaji: month.romaji, usage: "standard" },
+		];
+	}
+	return digits.map((digit) => ({
+		hiragana: `${digit.hiragana}がつ`,
+		romaji: `${digit.romaji}gatsu`,
+		usage: digit.usage,
+	}));
+}
+
+// 1st, 2nd, 3rd, 4th … 11th, 12th, 13th … 21st
+function toOrdinal(num: number): string {
+	const lastTwo = num % 100;
+	if (lastTwo >= 11 && lastTwo <= 13) return `${num}th`;
+	const suffixes: Record<number, string> = { 1: "st", 2: "nd", 3: "rd" };
+	return `${num}${suffixes[num % 10] ?? "th"}`;
+}
+
+/**
+ * Every accepted reading of a day of the month, standard ones first. Days
+ * 1-10, 14, 20 and 24 have native readings (ついたち, はつか, にじゅうよっか)
+ * from the shared exception table; the rest take the day readings of 7 and 9
+ * (じゅうしちにち, じゅうくにち and the unusual じゅうななにち).
+ */
+export function getDayReadings(day: number): NumberReading[] {
+	const exception = findReadingException("nichi", day);
+	if (exception) {
+		return getExceptionReadings(exception).map(({ hiragana, romaji }) => ({
+			hiragana,
+			romaji,
+			usage: "standard",
+		}));
+	}
+	return getFinalDigitReadings(convertToJapanese(day), "day").map(
+		(reading) => ({
+			hiragana: `${reading.hiragana}にち`,
+			romaji: `${reading.romaji}nichi`,
+			usage: reading.usage,
+		}),
+	);
+}
+
+function toDateCounter(day: number): NumberedDateWord {
+	const [reading] = getDayReadings(day);
+	return {
+		number: day,
+		japanese:
+			findReadingException("nichi", day)?.kanji ??
+			`${convertToJapanese(day).kanji}日`,
+		reading: reading?.hiragana ?? "?",
+		romaji: reading?.romaji ?? "?",
+		english: toOrdinal(day),
+	};
+}
+
+export const dateCounters: NumberedDateWord[] = Array.from(
+	{ length: 31 },
+	(_, index) => toDateCounter(index + 1),
+);
+
+const msPerDay = 24 * 60 * 60 * 1000;
+const digitKanji = "〇一二三四五六七八九";
+
+function toDayNumber(date: CalendarDate): number {
+	return Date.UTC(date.year, date.month - 1, date.day) / msPerDay;
+}
+
+function fromDayNumber(dayNumber: number): CalendarDate {
+	const date = new Date(dayNumber * msPerDay);
+	return {
+		year: date.getUTCFullYear(),
+		month: date.getUTCMonth() + 1,
+		day: date.getUTCDate(),
+	};
+}
+
+/**
+ * Get today's date in the local time zone
+ */
+export function getToday(): CalendarDate {
+	const now = new Date();
+	return {
+		year: now.getFullYear(),
+		month: now.getMonth() + 1,
+		day: now.getDate(),
+	};
+}
+
+/**
+ * Write a date as YYYY-MM-DD
+ */
+export function formatIsoDate(date: CalendarDate): string {
+	const month = String(date.month).padStart(2, "0");
+	const day = String(date.day).padStart(2, "0");
+	return `${date.year}-${month}-${day}`;
+}
+
+/**
+ * Read a YYYY-MM-DD date, or null when it isn't a real date
+ */
+export function parseIsoDate(text: string): CalendarDate | null {
+	const match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (!match) return null;
+	const date = {
+		year: Number(match[1]),
+		month: Number(match[2]),
+		day: Number(match[3]),
+	};
+	const roundTrip = fromDayNumber(toDayNumber(date));
+	return roundTrip.month === date.month && roundTrip.day === date.day
+		? date
+		: null;
+}
+
+/**
+ * Move a date forwards or backwards by a number of days
+ */
+export function addDays(date: CalendarDate, days: number): CalendarDate {
+	return fromDayNumber(toDayNumber(date) + days);
+}
+
+/**
+ * Get the day of the week a date falls on
+ */
+export function getDayOfWeek(date: CalendarDate): DateWord {
+	const sundayFirst = new Date(toDayNumber(date) * msPerDay).getUTCDay();
+	const weekday = daysOfWeek[(sundayFirst + 6) % 7];
+	if (!weekday) throw new Error("Invalid day of the week");
+	return weekday;
+}
+
+// The spellings of a word with several readings, flagging the unusual ones
+function readingVariants(
+	kanji: string[],
+	readings: NumberReading[],
+): ReadingVariants {
+	return {
+		kanji,
+		hiragana: readings.map((reading) => reading.hiragana),
+		romaji: readings.map((reading) => reading.romaji),
+		unusual: readings
+			.filter((reading) => reading.usage === "unusual")
+			.map((reading) => reading.hiragana),
+	};
+}
+
+function monthAndDayVariants(date: CalendarDate): ReadingVariants {
+	const month = months[date.month - 1];
+	const day = dateCounters[date.day - 1];
+	if (!month || !day) throw new Error("Invalid date");
+	return combineVariants([
+		readingVariants(
+			[`${month.number}月`, month.japanese],
+			getMonthReadings(month),
+		),
+		readingVariants(
+			[`${day.number}日`, day.japanese],
+			getDayReadings(day.number),
+		),
+	]);
+}
+
+/**
+ * Spellings of an optional weekday suffix: (木), (木曜日) or もくようび.
+ * Leaving it out comes first unless the weekday is part of the canonical form.
+ */
+function weekdayVariants(
+	weekday: DateWord,
+	canonical: boolean,
+): ReadingVariants {
+	const spellings: ReadingVariants = {
+		kanji: [`(${weekday.japanese.charAt(0)})`, `(${weekday.japanese})`],
+		hiragana: [weekday.reading],
+		romaji: [weekday.romaji],
+	};
+	const arrange = (values: string[]) =>
+		canonical ? [...values, ""] : ["", ...values];
+	return {
+		kanji: arrange(spellings.kanji),
+		hiragana: arrange(spellings.hiragana),
+		romaji: arrange(spellings.romaji),
+	};
+}
+
+/**
+ * Spellings of a Western calendar year: 2024年, 二〇二四年, 二千二十四年
+ */
+function seirekiYearVariants(year: number): ReadingVariants {
+	const counted = countedVariants(year, "nen");
+	const digitByDigit = year
+		.toString()
+		.split("")
+		.map((digit) => digitKanji[Number(digit)])
+		.join("");
+	return {
+		kanji: [`${year}年`, `${digitByDigit}年`, ...counted.kanji],
+		hiragana: counted.hiragana,
+		romaji: counted.romaji,
+	};
+}
+
+/**
+ * Spellings of an era year: 6年, 六年, or 元年 (also 1年) for the first year
+ */
+function eraYearVariants(eraYear: number): ReadingVariants {
+	if (eraYear === 1) {
+		return {
+			kanji: [`${formatEraYear(1)}年`, "1年", "一年"],
+			hiragana: ["がんねん", "いちねん"],
+			romaji: ["gannen", "ichinen"],
+		};
+	}
+	const counted = countedVariants(eraYear, "nen");
+	return { ...counted, kanji: [...counted.kanji].reverse() };
+}
+
+function formatEnglishDate(date: CalendarDate): string {
+	const month = months[date.month - 1];
+	return `${month?.english ?? "?"} ${date.day}, ${date.year}`;
+}
+
+/**
+ * Convert a calendar date to Japanese in both calendars
+ * (2024-03-14 → 2024年3月14日(木) and 令和6年3月14日)
+ */
+export function convertFullDateToJapanese(
+	date: CalendarDate,
+): FullDateExpression {
+	const weekday = getDayOfWeek(date);
+	const monthAndDay = monthAndDayVariants(date);
+
+	const english = `${weekday.english}, ${formatEnglishDate(date)}`;
+	const paddedMonth = date.month.toString().padStart(2, "0");
+	const paddedDay = date.day.toString().padStart(2, "0");
+	const month = months[date.month - 1];
+	const seireki = toExpression(
+		combineVariants([
+			seirekiYearVariants(date.year),
+			monthAndDay,
+			weekdayVariants(weekday, true),
+		]),
+		english,
+		[
+			english,
+			formatEnglishDate(date),
+			`${month?.english ?? "?"} ${date.day} ${date.year}`,
+			`${date.day} ${month?.english ?? "?"} ${date.year}`,
+			`${date.year}-${paddedMonth}-${paddedDay}`,
+			`${date.year}/${date.month}/${date.day}`,
+			`${date.year}/${paddedMonth}/${paddedDay}`,
+		],
+	);
+	const monthDayEnglish = `${weekday.english}, ${month?.english ?? "?"} ${date.day}`;
+	const monthDay = toExpression(
+		combineVariants([monthAndDay, weekdayVariants(weekday, true)]),
+		monthDayEnglish,
+		[
+			monthDayEnglish,
+			`${month?.english ?? "?"} ${date.day}`,
+			`${date.day} ${month?.english ?? "?"}`,
+			`${date.month}/${date.day}`,
+		],
+	);
+
+	const warekiDate = toWareki(date);
+	if (!warekiDate) {
+		return { date, weekday, seireki, monthDay, wareki: null, warekiDate };
+	}
+
+	const { era, eraYear } = warekiDate;
+	const warekiEnglish = `${month?.english ?? "?"} ${date.day}, ${era.english} ${eraYear}`;
+	const wareki = toExpression(
+		combineVariants([
+			{ kanji: [era.kanji], hiragana: [era.hiragana], romaji: [era.romaji] },
+			eraYearVariants(eraYear),
+			monthAndDay,
+			weekdayVariants(weekday, false),
+		]),
+		warekiEnglish,
+		[
+			warekiEnglish,
+			`${month?.english ?? "?"} ${date.day}, ${era.romaji} ${eraYear}`,
+		],
+	);
+
+	return { date, weekday, seireki, monthDay, wareki, warekiDate };
+}
+
+/**
+ * Convert a year, or a month of a year, to Japanese (2024年4月 / にせんにじゅうよねんしがつ).
+ * The month alone (4月) is accepted too.
+ */
+export function convertYearMonthToJapanese(
+	year: number,
+	monthNumber?: number,
+): TimeExpression {
+	const yearVariants = seirekiYearVariants(year);
+	const month = monthNumber === undefined ? undefined : months[monthNumber - 1];
+	if (!month) {
+		return toExpression(yearVariants, year.toString(), [year.toString()]);
+	}
+
+	const monthVariants = readingVariants(
+		[`${month.number}月`, month.japanese],
+		getMonthReadings(month),
+	);
+	const withYear = combineVariants([yearVariants, monthVariants]);
+	const english = `${month.english} ${year}`;
+	return toExpression(
+		{
+			kanji: [...withYear.kanji, ...monthVariants.kanji],
+			hiragana: [...withYear.hiragana, ...monthVariants.hiragana],
+			romaji: [...withYear.romaji, ...monthVariants.romaji],
+			unusual: [...(withYear.unusual ?? []), ...(monthVariants.unusual ?? [])],
+		},
+		english,
+		[
+			english,
+			month.english,
+			`${year}/${month.number}`,
+			`${year}-${month.number.toString().padStart(2, "0")}`,
+		],
+	);
+}
+
+/**
+ * Generate a random date from Meiji up to a reference date (usually today).
+ * About a third of the dates fall on an era boundary or in a 元年 to practice
+ * the edge cases. The reference is passed in so seeded sessions replay the
+ * same dates later on.
+ */
+export function generateCalendarDate(
+	reference: CalendarDate,
+	random: () => number = Math.random,
+): CalendarDate {
+	// Only eras that had begun by the reference date
+	const today = toDayNumber(reference);
+	const eras = japaneseEras.filter((era) => toDayNumber(era.start) <= today);
+	const eraIndex = Math.floor(random() * eras.length);
+	const era = eras[eraIndex] ?? eras[0];
+	if (!era) throw new Error("No eras before the reference date");
+
+	const nextEra = eras[eraIndex + 1];
+	const first = toDayNumber(era.start);
+	const last = nextEra ? toDayNumber(nextEra.start) - 1 : today;
+	const endOfFirstYear = Math.min(
+		last,
+		toDayNumber({ year: era.start.year, month: 12, day: 31 }),
+	);
+
+	const roll = random();
+	const pick = (from: number, to: number) =>
+		from + Math.floor(random() * (to - from + 1));
+
+	if (roll < 0.1) return fromDayNumber(first);
+	if (roll < 0.2) return fromDayNumber(last);
+	if (roll < 0.3) return fromDayNumber(pick(first, endOfFirstYear));
+	return fromDayNumber(pick(first, last));
+}
@@ -0,0 +1,111 @@
+import { describe, expect, test } from "vitest";
+import {
+	type DigitString,
+	convertDigitsToJapanese,
+	createDigitExpression,
+	generateDigitString,
+	isDigitAnswerCorrect,
+} from "./japanese-digits";
+
+const phone: DigitString = {
+	kind: "phone",
+	text: "090-1234-5678",
+	digits: "09012345678",
+};
+const postal: DigitString = {
+	kind: "postal",
+	text: "〒150-0001",
+	digits: "1500001",
+};
+const room: DigitString = { kind: "room", text: "305号室", digits: "305" };
+
+describe("Japanese Digits", () => {
+	describe("generateDigitString", () => {
+		test("should generate each kind in its usual shape", () => {
+			for (let i = 0; i < 20; i++) {
+				expect(generateDigitString("phone").text).toMatch(
+					/^0[36789]0?-\d{4}-\d{4}$/,
+				);
+				expect(generateDigitString("postal").text).toMatch(/^〒\d{3}-\d{4}$/);
+				expect(generateDigitString("room").text).toMatch(
+					/^\d{1,2}(0[1-9]|1[0-2])号室$/,
+				);
+			}
+		});
+
+		test("should keep the digits without separators", () => {
+			const digitString = generateDigitString("phone");
+			expect(digitString.digits).toBe(digitString.text.replace(/-/g, ""));
+		});
+	});
+
+	describe("convertDigitsToJapanese", () => {
+		test("should read phone numbers digit by digit with の", () => {
+			expect(convertDigitsToJapanese(phone)).toMatchObject({
+				kanji: "〇九〇の一二三四の五六七八",
+				hiragana: "ゼロきゅうゼロのいちにさんよんのごろくななはち",
+				romaji: "zerokyuuzeronoichinisan'yonnogorokunanahachi",
+			});
+		});
+
+		test("should read postal codes without 〒", () => {
+			expect(convertDigitsToJapanese(postal).hiragana).toBe(
+				"いちごゼロのゼロゼロゼロいち",
+			);
+		});
+
+		test("should read room numbers with まる and 号室", () => {
+			expect(convertDigitsToJapanese(room)).toMatchObject({
+				kanji: "三〇五号室",
+				hiragana: "さんまるごごうしつ",
+			});
+		});
+	});
+
+	describe("createDigitExpression", () => {
+		test("should show the digits as written", () => {
+			expect(createDigitExpression(phone)).toMatchObject({
+				kind: "digits",
+				display: "090-1234-5678",
+				numeral: "09012345678",
+				english: "zero nine zero one two three four five six seven eight",
+			});
+		});
+	});
+
+	describe("isDigitAnswerCorrect", () => {
+		test("should accept any zero and optional の", () => {
+			for (const answer of [
+				"ゼロきゅうゼロのいちにさんよんのごろくななはち",
+				"ぜろきゅうぜろ いちにさんよん ごろくななはち",
+				"まるきゅうまるのいちにいさんよんのごおろくななはち",
+				"zero kyuu zero no ichi ni san yon no go roku nana hachi",
+				"zerokyuzero-ichinisan'yon-gorokunanahachi",
+			]) {
+				expect(isDigitAnswerCorrect(answer, phone.text)).toBe(true);
+			}
+		});
+
+		test("should reject wrong digits and positional readings", () => {
+			expect(
+				isDigitAnswerCorrect(
+					"ゼロきゅうゼロのいちにさんしのごろくななはち",
+					phone.text,
+				),
+			).toBe(false);
+			expect(isDigitAnswerCorrect("ひゃくごじゅうのいち", postal.text)).toBe(
+				false,
+			);
+			expect(isDigitAnswerCorrect("090-1234-5678", phone.text)).toBe(false);
+		});
+
+		test("should accept room numbers with or without 号室", () => {
+			expect(isDigitAnswerCorrect("さんまるご", room.text)).toBe(true);
+			expect(isDigitAnswerCorrect("さんゼロごごうしつ", room.text)).toBe(true);
+			expect(isDigitAnswerCorrect("さんびゃくごごうしつ", room.text)).toBe(
+				true,
+			);
+			expect(isDigitAnswerCorrect("さんひゃくご", room.text)).toBe(false);
+		});
+	});
+});
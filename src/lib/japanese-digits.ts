@@ -0,0 +1,194 @@
+// Numbers read digit by digit: phone numbers (090-1234-5678), postal codes
+// (〒150-0001) and room numbers (305号室). Zero is ゼロ or まる, hyphens are
+// read の, and に and ご are often stretched to にい and ごお.
+
+import { katakanaToHiragana, toKana, toRomaji } from "./japanese-kana";
+import {
+	type JapaneseNumber,
+	type NumberExpression,
+	convertToEnglish,
+	convertToJapanese,
+	isAnswerCorrect,
+} from "./japanese-numbers";
+
+export type DigitStringKind = "phone" | "postal" | "room";
+
+export interface DigitString {
+	kind: DigitStringKind;
+	// As written (090-1234-5678, 〒150-0001, 305号室)
+	text: string;
+	// The digits alone (09012345678)
+	digits: string;
+}
+
+// What each kind is called, shown with the prompt
+export const digitStringLabels: Record<DigitStringKind, string> = {
+	phone: "電話番号 (phone number)",
+	postal: "郵便番号 (postal code)",
+	room: "部屋番号 (room number)",
+};
+
+// The usual reading of each digit. Zero depends on the kind.
+const digitKana = [
+	"",
+	"いち",
+	"に",
+	"さん",
+	"よん",
+	"ご",
+	"ろく",
+	"なな",
+	"はち",
+	"きゅう",
+];
+
+// Every accepted reading of each digit, in hiragana
+const digitPatterns = [
+	"ぜろ|まる|れい",
+	"いち",
+	"に[いー]?",
+	"さん",
+	"よん",
+	"ご[おうー]?",
+	"ろく",
+	"なな",
+	"はち",
+	"きゅ[うー]?",
+];
+
+const digitKanji = "〇一二三四五六七八九";
+
+// Rooms are read with まる (さんまるご), phone numbers and postal codes
+// with ゼロ
+const zeroReadings: Record<DigitStringKind, string> = {
+	phone: "ゼロ",
+	postal: "ゼロ",
+	room: "まる",
+};
+
+function randomDigits(length: number, random: () => number): string {
+	return Array.from({ length }, () => Math.floor(random() * 10)).join("");
+}
+
+/**
+ * Generate a phone number, postal code or room number
+ */
+export function generateDigitString(
+	kind?: DigitStringKind,
+	random: () => number = Math.random,
+): DigitString {
+	const kinds: DigitStringKind[] = ["phone", "postal", "room"];
+	const actualKind = kind ?? kinds[Math.floor(random() * 3)] ?? "phone";
+
+	switch (actualKind) {
+		case "phone": {
+			// Mobile numbers (070/080/090) or a Tokyo or Osaka landline
+			const areaCodes = ["090", "080", "070", "03", "06"];
+			const areaCode =
+				areaCodes[Math.floor(random() * areaCodes.length)] ?? "090";
+			const text = `${areaCode}-${randomDigits(4, random)}-${randomDigits(4, random)}`;
+			return { kind: actualKind, text, digits: text.replace(/\D/g, "") };
+		}
+		case "postal": {
+			const code = `${Math.floor(random() * 900) + 100}-${randomDigits(4, random)}`;
+			return {
+				kind: actualKind,
+				text: `〒${code}`,
+				digits: code.replace(/\D/g, ""),
+			};
+		}
+		default: {
+			const floor = Math.floor(random() * 15) + 1;
+			const room = Math.floor(random() * 12) + 1;
+			const digits = `${floor}${String(room).padStart(2, "0")}`;
+			return { kind: actualKind, text: `${digits}号室`, digits };
+		}
+	}
+}
+
+/**
+ * Read a digit string as it is said (090-1234-5678 →
+ * ゼロきゅうゼロのいちにさんよんのごろくななはち)
+ */
+export function convertDigitsToJapanese(
+	digitString: DigitString,
+): JapaneseNumber {
+	let kanji = "";
+	let hiragana = "";
+	for (const char of digitString.text) {
+		if (/\d/.test(char)) {
+			const digit = Number(char);
+			kanji += digitKanji[digit];
+			hiragana +=
+				digit === 0 ? zeroReadings[digitString.kind] : digitKana[digit];
+		} else if (char === "-") {
+			kanji += "の";
+			hiragana += "の";
+		} else if (char !== "〒") {
+			kanji += char;
+		}
+	}
+	if (digitString.kind === "room") hiragana += "ごうしつ";
+
+	return {
+		number: Number(digitString.digits),
+		kanji,
+		hiragana,
+		romaji: toRomaji(hiragana),
+	};
+}
+
+/**
+ * Wrap a digit string as a number expression
+ */
+export function createDigitExpression(
+	digitString: DigitString,
+): NumberExpression {
+	return {
+		kind: "digits",
+		display: digitString.text,
+		numeral: digitString.digits,
+		japanese: convertDigitsToJapanese(digitString),
+		english: [...digitString.digits]
+			.map((digit) => convertToEnglish(Number(digit)))
+			.join(" "),
+		hint: digitStringLabels[digitString.kind],
+	};
+}
+
+/**
+ * Check a reading of a digit string as written (090-1234-5678, 305号室).
+ * Any zero (ゼロ, まる, れい), long or short に and ご, and の or nothing
+ * between groups all count; room numbers may also be read as a whole number
+ * (さんびゃくご). Digits are not a reading.
+ */
+export function isDigitAnswerCorrect(userInput: string, text: string): boolean {
+	// Romaji is read before spaces go, so san yon stays さんよん. Hyphens
+	// separate groups here rather than lengthening vowels.
+	const input = userInput.normalize("NFKC").toLowerCase().replace(/-/g, " ");
+	const reading = katakanaToHiragana(
+		/[a-z]/.test(input) ? toKana(input) : input,
+	).replace(/[\s、,.・]/g, "");
+	if (!/^[\p{Script=Hiragana}ー]+$/u.test(reading)) return false;
+
+	const isRoom = text.endsWith("号室");
+	const withoutSuffix = isRoom ? reading.replace(/ごうしつ$/, "") : reading;
+	if (
+		isRoom &&
+		isAnswerCorrect(
+			withoutSuffix,
+			convertToJapanese(Number(text.replace(/\D/g, ""))),
+		)
+	) {
+		return true;
+	}
+
+	const pattern = [...text]
+		.map((char) => {
+			if (/\d/.test(char)) return `(${digitPatterns[Number(char)]})`;
+			if (char === "-") return "の?";
+			return "";
+		})
+		.join("");
+	return new RegExp(`^${pattern}$`).test(withoutSuffix);
+}
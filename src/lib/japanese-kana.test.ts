@@ -0,0 +1,135 @@
+import { describe, expect, test } from "vitest";
+import { containsJapanese, toKana, toRomaji } from "./japanese-kana";
+
+describe("Japanese Kana", () => {
+	describe("containsJapanese", () => {
+		test("should find kana and kanji", () => {
+			expect(containsJapanese("よんがつ")).toBe(true);
+			expect(containsJapanese("マイナス")).toBe(true);
+			expect(containsJapanese("1,000円")).toBe(true);
+			expect(containsJapanese("twenty / 20")).toBe(false);
+		});
+	});
+
+	describe("toRomaji", () => {
+		test("should romanize in Hepburn by default", () => {
+			expect(toRomaji("さんびゃく")).toBe("sanbyaku");
+			expect(toRomaji("しちじゅう")).toBe("shichijuu");
+			expect(toRomaji("ついたち")).toBe("tsuitachi");
+			expect(toRomaji("ふつか")).toBe("futsuka");
+		});
+
+		test("should follow Kunrei and Nihon-shiki spellings", () => {
+			expect(toRomaji("しちじゅう", { system: "kunrei" })).toBe("sitizyuu");
+			expect(toRomaji("ふつか", { system: "kunrei" })).toBe("hutuka");
+			expect(toRomaji("ちぢむ", { system: "kunrei" })).toBe("tizimu");
+			expect(toRomaji("ちぢむ", { system: "nihon-shiki" })).toBe("tidimu");
+			expect(toRomaji("つづく", { system: "nihon-shiki" })).toBe("tuduku");
+			expect(toRomaji("を", { system: "nihon-shiki" })).toBe("wo");
+			expect(toRomaji("を")).toBe("o");
+		});
+
+		test("should combine small kana", () => {
+			expect(toRomaji("きゅう")).toBe("kyuu");
+			expect(toRomaji("しゃしん")).toBe("shashin");
+			expect(toRomaji("しゃしん", { system: "kunrei" })).toBe("syasin");
+			expect(toRomaji("ぢゃ", { system: "nihon-shiki" })).toBe("dya");
+			expect(toRomaji("ファイル")).toBe("fairu");
+			expect(toRomaji("ウィキ")).toBe("wiki");
+		});
+
+		test("should double the consonant after っ", () => {
+			expect(toRomaji("ろっぴゃく")).toBe("roppyaku");
+			expect(toRomaji("いっちょう")).toBe("itchou");
+			expect(toRomaji("いっちょう", { system: "kunrei" })).toBe("ittyou");
+		});
+
+		test("should separate ん from a following vowel or y", () => {
+			expect(toRomaji("きんえん")).toBe("kin'en");
+			expect(toRomaji("きねん")).toBe("kinen");
+			expect(toRomaji("こんや")).toBe("kon'ya");
+			expect(toRomaji("こにゃ")).toBe("konya");
+		});
+
+		test("should write long vowels doubled or marked", () => {
+			expect(toRomaji("じゅう")).toBe("juu");
+			expect(toRomaji("じゅう", { longVowels: "marked" })).toBe("jū");
+			expect(toRomaji("とうきょう", { longVowels: "marked" })).toBe("tōkyō");
+			expect(toRomaji("おおさか", { longVowels: "marked" })).toBe("ōsaka");
+			expect(
+				toRomaji("じゅう", { system: "kunrei", longVowels: "marked" }),
+			).toBe("zyû");
+			expect(toRomaji("ラーメン")).toBe("raamen");
+			expect(toRomaji("ラーメン", { longVowels: "marked" })).toBe("rāmen");
+		});
+
+		test("should keep characters that are not kana", () => {
+			expect(toRomaji("3がつ")).toBe("3gatsu");
+		});
+	});
+
+	describe("toKana", () => {
+		test("should read every romanization system", () => {
+			expect(toKana("shichijuu")).toBe("しちじゅう");
+			expect(toKana("sitizyuu")).toBe("しちじゅう");
+			expect(toKana("tuduku")).toBe("つづく");
+			expect(toKana("hutuka")).toBe("ふつか");
+			expect(toKana("syasin")).toBe("しゃしん");
+			expect(toKana("jyuu")).toBe("じゅう");
+		});
+
+		test("should read long vowel marks", () => {
+			expect(toKana("jū")).toBe("じゅう");
+			expect(toKana("tôkyô")).toBe("とうきょう");
+			expect(toKana("ra-men", { katakana: true })).toBe("ラーメン");
+		});
+
+		test("should turn doubled consonants into っ", () => {
+			expect(toKana("roppyaku")).toBe("ろっぴゃく");
+			expect(toKana("itchou")).toBe("いっちょう");
+			expect(toKana("ittyou")).toBe("いっちょう");
+		});
+
+		test("should disambiguate ん", () => {
+			expect(toKana("kin'en")).toBe("きんえん");
+			expect(toKana("kinen")).toBe("きねん");
+			expect(toKana("konnichiwa")).toBe("こんにちわ");
+			expect(toKana("konnnichiha")).toBe("こんにちは");
+			expect(toKana("sanbyaku")).toBe("さんびゃく");
+			expect(toKana("sann")).toBe("さん");
+		});
+
+		test("should leave a trailing n while typing", () => {
+			expect(toKana("san", { final: false })).toBe("さn");
+			expect(toKana("san")).toBe("さん");
+			expect(toKana("ky", { final: false })).toBe("ky");
+		});
+
+		test("should accept IME spellings for small kana", () => {
+			expect(toKana("xtu")).toBe("っ");
+			expect(toKana("fa")).toBe("ふぁ");
+			expect(toKana("thi-")).toBe("てぃー");
+			expect(toKana("wo")).toBe("を");
+		});
+
+		test("should convert half-typed input again without changes", () => {
+			const partial = toKana("hyakuman", { final: false });
+			expect(toKana(partial)).toBe("ひゃくまん");
+			expect(toKana("さんbyaku")).toBe("さんびゃく");
+			expect(toKana("3gatsu")).toBe("3がつ");
+		});
+
+		test("should round-trip with toRomaji", () => {
+			for (const kana of [
+				"きゅうひゃく",
+				"いっせんまん",
+				"はっぴゃく",
+				"きんえん",
+			]) {
+				expect(toKana(toRomaji(kana))).toBe(kana);
+				expect(toKana(toRomaji(kana, { system: "kunrei" }))).toBe(kana);
+				expect(toKana(toRomaji(kana, { system: "nihon-shiki" }))).toBe(kana);
+			}
+		});
+	});
+});
@@ -0,0 +1,423 @@
+// Kana ⇄ romaji conversion in Hepburn, Kunrei-shiki and Nihon-shiki, with
+// small kana, っ gemination, ん before vowels and long vowels. toKana reads
+// any of the three systems (and IME spellings like xtu and nn), so it can
+// convert answers live as they are typed.
+
+export type RomanizationSystem = "hepburn" | "kunrei" | "nihon-shiki";
+
+export interface RomajiOptions {
+	system?: RomanizationSystem;
+	// "doubled" writes long vowels as typed (juu, kyuu); "marked" uses macrons
+	// in Hepburn (jū) and circumflexes in Kunrei and Nihon-shiki (zyû)
+	longVowels?: "doubled" | "marked";
+}
+
+export interface KanaOptions {
+	katakana?: boolean;
+	// Convert a trailing n to ん; leave it off while the user is still typing
+	final?: boolean;
+}
+
+// Kana whose romanization differs between systems: Hepburn, Kunrei, Nihon-shiki
+const systemSpellings: Record<string, [string, string, string]> = {
+	し: ["shi", "si", "si"],
+	ち: ["chi", "ti", "ti"],
+	つ: ["tsu", "tu", "tu"],
+	ふ: ["fu", "hu", "hu"],
+	じ: ["ji", "zi", "zi"],
+	ぢ: ["ji", "zi", "di"],
+	づ: ["zu", "zu", "du"],
+	を: ["o", "o", "wo"],
+	ゐ: ["i", "i", "wi"],
+	ゑ: ["e", "e", "we"],
+};
+
+// Kana spelled the same way in every system
+const commonSpellings: Record<string, string> = {
+	あ: "a",
+	い: "i",
+	う: "u",
+	え: "e",
+	お: "o",
+	か: "ka",
+	き: "ki",
+	く: "ku",
+	け: "ke",
+	こ: "ko",
+	さ: "sa",
+	す: "su",
+	せ: "se",
+	そ: "so",
+	た: "ta",
+	て: "te",
+	と: "to",
+	な: "na",
+	に: "ni",
+	ぬ: "nu",
+	ね: "ne",
+	の: "no",
+	は: "ha",
+	ひ: "hi",
+	へ: "he",
+	ほ: "ho",
+	ま: "ma",
+	み: "mi",
+	む: "mu",
+	め: "me",
+	も: "mo",
+	や: "ya",
+	ゆ: "yu",
+	よ: "yo",
+	ら: "ra",
+	り: "ri",
+	る: "ru",
+	れ: "re",
+	ろ: "ro",
+	わ: "wa",
+	が: "ga",
+	ぎ: "gi",
+	ぐ: "gu",
+	げ: "ge",
+	ご: "go",
+	ざ: "za",
+	ず: "zu",
+	ぜ: "ze",
+	ぞ: "zo",
+	だ: "da",
+	で: "de",
+	ど: "do",
+	ば: "ba",
+	び: "bi",
+	ぶ: "bu",
+	べ: "be",
+	ぼ: "bo",
+	ぱ: "pa",
+	ぴ: "pi",
+	ぷ: "pu",
+	ぺ: "pe",
+	ぽ: "po",
+	ゔ: "vu",
+};
+
+const smallVowels: Record<string, string> = {
+	ぁ: "a",
+	ぃ: "i",
+	ぅ: "u",
+	ぇ: "e",
+	ぉ: "o",
+	ゎ: "wa",
+};
+
+const smallY: Record<string, string> = { ゃ: "a", ゅ: "u", ょ: "o" };
+
+const systemIndex: Record<RomanizationSystem, number> = {
+	hepburn: 0,
+	kunrei: 1,
+	"nihon-shiki": 2,
+};
+
+const longVowelMarks: Record<
+	"macron" | "circumflex",
+	Record<string, string>
+> = {
+	macron: { a: "ā", i: "ī", u: "ū", e: "ē", o: "ō" },
+	circumflex: { a: "â", i: "î", u: "û", e: "ê", o: "ô" },
+};
+
+function spellKana(
+	kana: string,
+	system: RomanizationSystem,
+): string | undefined {
+	return systemSpellings[kana]?.[systemIndex[system]] ?? commonSpellings[kana];
+}
+
+/**
+ * Romanize kana (hiragana or katakana). Characters that are not kana are kept.
+ */
+export function toRomaji(text: string, options: RomajiOptions = {}): string {
+	const system = options.system ?? "hepburn";
+	const marked = options.longVowels === "marked";
+	const marks = longVowelMarks[system === "hepburn" ? "macron" : "circumflex"];
+	const kana = katakanaToHiragana(text);
+
+	// Syllables in order; a pending っ doubles the next consonant
+	const syllables: string[] = [];
+	let geminate = false;
+
+	const push = (syllable: string) => {
+		if (geminate) {
+			geminate = false;
+			if (/^[bcdfghjkmprstvwz]/.test(syllable)) {
+				// Hepburn writes っち as tchi
+				const doubled = syllable.startsWith("ch") ? "t" : syllable[0];
+				syllables.push(`${doubled}${syllable}`);
+				return;
+			}
+		}
+		syllables.push(syllable);
+	};
+
+	for (let i = 0; i < kana.length; i++) {
+		const char = kana[i] ?? "";
+		const next = kana[i + 1] ?? "";
+
+		if (char === "っ") {
+			geminate = true;
+			continue;
+		}
+
+		if (char === "ん") {
+			// n' keeps きんえん (kin'en) apart from きねん (kinen)
+			const following = spellKana(next, system) ?? smallVowels[next] ?? "";
+			push(/^[aiueoy]/.test(following) ? "n'" : "n");
+			continue;
+		}
+
+		if (char === "ー") {
+			const previous = syllables.pop() ?? "";
+			const vowel = previous.at(-1) ?? "";
+			syllables.push(
+				marked && marks[vowel]
+					? `${previous.slice(0, -1)}${marks[vowel]}`
+					: `${previous}${vowel}`,
+			);
+			continue;
+		}
+
+		const spelling = spellKana(char, system);
+		if (spelling === undefined) {
+			const small = smallVowels[char] ?? (smallY[char] && `y${smallY[char]}`);
+			push(small || char);
+			continue;
+		}
+
+		// Yōon: きゃ kya; Hepburn drops the y after sh, ch and j (しゃ sha)
+		const yVowel = smallY[next];
+		if (yVowel && spelling.endsWith("i") && spelling.length > 1) {
+			const stem = spelling.slice(0, -1);
+			push(/^(sh|ch|j)$/.test(stem) ? `${stem}${yVowel}` : `${stem}y${yVowel}`);
+			i++;
+			continue;
+		}
+
+		// Extended kana for loanwords: ファ fa, ティ ti, ウィ wi, チェ che
+		const smallVowel = smallVowels[next];
+		if (smallVowel && spelling.length > 1) {
+			push(`${spelling.replace(/[aiueo]$/, "")}${smallVowel}`);
+			i++;
+			continue;
+		}
+		if (smallVowel && spelling === "u") {
+			push(`w${smallVowel}`);
+			i++;
+			continue;
+		}
+
+		push(spelling);
+	}
+
+	if (!marked) return syllables.join("");
+
+	// Mark long vowels: おう and おお as ō, うう as ū, ああ as ā, ええ as ē
+	const merged: string[] = [];
+	for (const syllable of syllables) {
+		const previous = merged.at(-1);
+		const vowel = previous?.at(-1);
+		const lengthens =
+			previous !== undefined &&
+			vowel !== undefined &&
+			((syllable === "u" && (vowel === "o" || vowel === "u")) ||
+				(syllable === vowel && vowel !== "i"));
+		if (lengthens && marks[vowel]) {
+			merged[merged.length - 1] = `${previous.slice(0, -1)}${marks[vowel]}`;
+		} else {
+			merged.push(syllable);
+		}
+	}
+	return merged.join("");
+}
+
+// Romaji for every kana and digraph, from all three systems plus common
+// IME spellings; built once from the tables above
+const romajiToKana: Map<string, string> = (() => {
+	const table = new Map<string, string>();
+	const add = (romaji: string, kana: string) => {
+		if (!table.has(romaji)) table.set(romaji, kana);
+	};
+
+	// Modern spellings win where systems collide (wo is を, not ゐ)
+	for (const [kana, romaji] of Object.entries(commonSpellings)) {
+		add(romaji, kana);
+	}
+	for (const [kana, spellings] of Object.entries(systemSpellings)) {
+		if (kana === "ゐ" || kana === "ゑ") continue;
+		for (const romaji of spellings) add(romaji, kana);
+	}
+	add("wo", "を");
+
+	// Yōon in every system (kya, sha, sya, cha, tya, cya, ja, jya, zya, dya)
+	const iKana = [
+		...Object.keys(commonSpellings),
+		"し",
+		"ち",
+		"じ",
+		"ぢ",
+	].filter((kana) => /^[^aiueo]+i$/.test(spellKana(kana, "hepburn") ?? ""));
+	for (const kana of iKana) {
+		for (const system of ["hepburn", "kunrei", "nihon-shiki"] as const) {
+			const stem = (spellKana(kana, system) ?? "").slice(0, -1);
+			for (const [small, vowel] of Object.entries(smallY)) {
+				add(`${stem}y${vowel}`, `${kana}${small}`);
+				if (/^(sh|ch|j)$/.test(stem)) add(`${stem}${vowel}`, `${kana}${small}`);
+			}
+		}
+	}
+	for (const [small, vowel] of Object.entries(smallY)) {
+		add(`jy${vowel}`, `じ${small}`);
+		add(`cy${vowel}`, `ち${small}`);
+	}
+
+	// Extended kana for loanwords
+	const extended: Record<string, string> = {
+		fa: "ふぁ",
+		fi: "ふぃ",
+		fe: "ふぇ",
+		fo: "ふぉ",
+		she: "しぇ",
+		che: "ちぇ",
+		je: "じぇ",
+		thi: "てぃ",
+		dhi: "でぃ",
+		wi: "うぃ",
+		we: "うぇ",
+		va: "ゔぁ",
+		vi: "ゔぃ",
+		ve: "ゔぇ",
+		vo: "ゔぉ",
+		dzu: "づ",
+	};
+	for (const [romaji, kana] of Object.entries(extended)) add(romaji, kana);
+
+	// Small kana typed on their own (xa, la, xtu, ltsu, xya)
+	for (const prefix of ["x", "l"]) {
+		for (const [kana, vowel] of Object.entries(smallVowels)) {
+			add(`${prefix}${vowel}`, kana);
+		}
+		for (const [kana, vowel] of Object.entries(smallY)) {
+			add(`${prefix}y${vowel}`, kana);
+		}
+		add(`${prefix}tu`, "っ");
+		add(`${prefix}tsu`, "っ");
+	}
+	add("xn", "ん");
+
+	return table;
+})();
+
+const longestRomaji = Math.max(
+	...[...romajiToKana.keys()].map((key) => key.length),
+);
+
+const markedVowels: Record<string, string> = {
+	ā: "aa",
+	â: "aa",
+	ī: "ii",
+	î: "ii",
+	ū: "uu",
+	û: "uu",
+	ē: "ee",
+	ê: "ee",
+	ō: "ou",
+	ô: "ou",
+};
+
+/**
+ * Whether text has any kana or kanji, so an answer is typed in Japanese
+ */
+export function containsJapanese(text: string): boolean {
+	return /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/.test(text);
+}
+
+/**
+ * Convert katakana to hiragana so マイナス and まいなす compare equal
+ */
+export function katakanaToHiragana(text: string): string {
+	return text.replace(/[ァ-ヶ]/g, (char) =>
+		String.fromCharCode(char.charCodeAt(0) - 0x60),
+	);
+}
+
+function hiraganaToKatakana(text: string): string {
+	return text.replace(/[ぁ-ゖ]/g, (char) =>
+		String.fromCharCode(char.charCodeAt(0) + 0x60),
+	);
+}
+
+/**
+ * Convert romaji to kana. Text that is already kana, digits and anything
+ * that is not romaji are kept, so half-converted input converts cleanly.
+ */
+export function toKana(text: string, options: KanaOptions = {}): string {
+	const final = options.final ?? true;
+	const input = text
+		.toLowerCase()
+		.replace(/[āâīîūûēêōô]/g, (char) => markedVowels[char] ?? char);
+	let output = "";
+
+	for (let i = 0; i < input.length; ) {
+		const char = input[i] ?? "";
+		const next = input[i + 1] ?? "";
+
+		if (char === "-") {
+			output += "ー";
+			i++;
+			continue;
+		}
+
+		if (char === "n" && !/[aiueoy]/.test(next)) {
+			if (next === "'") {
+				output += "ん";
+				i += 2;
+			} else if (next === "n") {
+				// nn is ん; in konnichiwa the second n starts に
+				output += "ん";
+				i += /[aiueoy]/.test(input[i + 2] ?? "") ? 1 : 2;
+			} else if (next === "" && !final) {
+				// Still typing: n may become な, に…
+				output += char;
+				i++;
+			} else {
+				output += "ん";
+				i++;
+			}
+			continue;
+		}
+
+		// Doubled consonants are っ (kk, tt, and Hepburn's tch)
+		if (
+			/[bcdfghjkmpqrstvwxyz]/.test(char) &&
+			(next === char || (char === "t" && next === "c" && input[i + 2] === "h"))
+		) {
+			output += "っ";
+			i++;
+			continue;
+		}
+
+		let matched = false;
+		for (let length = longestRomaji; length > 0; length--) {
+			const kana = romajiToKana.get(input.slice(i, i + length));
+			if (kana) {
+				output += kana;
+				i += length;
+				matched = true;
+				break;
+			}
+		}
+		if (!matched) {
+			output += char;
+			i++;
+		}
+	}
+
+	return options.katakana ? hiraganaToKatakana(output) : output;
+}
@@ -0,0 +1,131 @@
+import { describe, expect, test } from "vitest";
+import {
+	parseJapaneseBigInt,
+	parseJapaneseNumber,
+} from "./japanese-number-parser";
+import { convertToJapanese } from "./japanese-numbers";
+
+function parsedValue(input: string): number | undefined {
+	const result = parseJapaneseNumber(input);
+	return result.success ? result.value : undefined;
+}
+
+describe("parseJapaneseNumber", () => {
+	test("should parse kanji numerals", () => {
+		expect(parsedValue("零")).toBe(0);
+		expect(parsedValue("十")).toBe(10);
+		expect(parsedValue("四十二")).toBe(42);
+		expect(parsedValue("五千七百二十六")).toBe(5726);
+		expect(parsedValue("一万")).toBe(10000);
+		expect(parsedValue("千万")).toBe(10000000);
+		expect(parsedValue("三億五千万")).toBe(350000000);
+		expect(parsedValue("一兆二億")).toBe(1000200000000);
+	});
+
+	test("should parse positional kanji digits", () => {
+		expect(parsedValue("二〇二四")).toBe(2024);
+		expect(parsedValue("一〇")).toBe(10);
+	});
+
+	test("should parse hiragana and katakana readings", () => {
+		expect(parsedValue("よんじゅうに")).toBe(42);
+		expect(parsedValue("さんびゃく")).toBe(300);
+		expect(parsedValue("ろっぴゃく")).toBe(600);
+		expect(parsedValue("はっせん")).toBe(8000);
+		expect(parsedValue("いっせんまん")).toBe(10000000);
+		expect(parsedValue("さんおくごせんまん")).toBe(350000000);
+		expect(parsedValue("じゅっちょう")).toBe(10000000000000);
+		expect(parsedValue("ヨンジュウニ")).toBe(42);
+	});
+
+	test("should accept alternative digit readings", () => {
+		expect(parsedValue("しじゅう")).toBe(40);
+		expect(parsedValue("しちじゅう")).toBe(70);
+		expect(parsedValue("くじゅう")).toBe(90);
+	});
+
+	test("should parse romaji readings", () => {
+		expect(parsedValue("yonjuuni")).toBe(42);
+		expect(parsedValue("sanbyaku")).toBe(300);
+		expect(parsedValue("roppyaku")).toBe(600);
+		expect(parsedValue("hassen")).toBe(8000);
+		expect(parsedValue("icchou")).toBe(1000000000000);
+		expect(parsedValue("san'oku gosenman")).toBe(350000000);
+		expect(parsedValue("kyū-hyaku")).toBe(900);
+		expect(parsedValue("nijyuu")).toBe(20);
+	});
+
+	test("should parse mixed and full-width forms", () => {
+		expect(parsedValue("3億5000万")).toBe(350000000);
+		expect(parsedValue("３億５０００万")).toBe(350000000);
+		expect(parsedValue("1,234")).toBe(1234);
+		expect(parsedValue("２万")).toBe(20000);
+	});
+
+	test("should round-trip convertToJapanese output", () => {
+		const samples = [
+			7, 19, 21, 99, 101, 300, 666, 1000, 3333, 8888, 10000, 45678, 100000,
+			1000000, 12345678, 10000000, 300000000, 1000000000000, 1000200030000,
+		];
+		for (const num of samples) {
+			const japanese = convertToJapanese(num);
+			expect(parsedValue(japanese.kanji)).toBe(num);
+			expect(parsedValue(japanese.hiragana)).toBe(num);
+			expect(parsedValue(japanese.romaji)).toBe(num);
+		}
+	});
+
+	test("should parse 京 and 垓 as bigint", () => {
+		const result = parseJapaneseBigInt("十二京三千四百兆");
+		expect(result.success && result.value).toBe(123400000000000000n);
+
+		for (const value of [
+			10n ** 16n,
+			6n * 10n ** 16n,
+			100n * 10n ** 16n,
+			123400000000000005n,
+			3n * 10n ** 20n,
+		]) {
+			const japanese = convertToJapanese(value);
+			for (const text of [japanese.kanji, japanese.hiragana, japanese.romaji]) {
+				const parsed = parseJapaneseBigInt(text);
+				expect(parsed.success && parsed.value).toBe(value);
+			}
+		}
+	});
+
+	test("should report empty input", () => {
+		const result = parseJapaneseNumber("   ");
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error.code).toBe("empty");
+		}
+	});
+
+	test("should report unexpected characters", () => {
+		const result = parseJapaneseNumber("三百x");
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error.code).toBe("unexpected-character");
+			expect(result.error.fragment).toBe("x");
+		}
+	});
+
+	test("should reject malformed sequences", () => {
+		for (const input of ["百千", "万億", "にさん", "千5000", "15百", "万"]) {
+			const result = parseJapaneseNumber(input);
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.error.code).toBe("invalid-sequence");
+			}
+		}
+	});
+
+	test("should reject numbers beyond the safe integer range", () => {
+		const result = parseJapaneseNumber("9999兆9999億");
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error.code).toBe("out-of-range");
+		}
+	});
+});
@@ -0,0 +1,363 @@
+// Japanese numeral parsing utilities (text → number)
+
+export type JapaneseNumberParseErrorCode =
+	| "empty"
+	| "unexpected-character"
+	| "invalid-sequence"
+	| "out-of-range";
+
+export interface JapaneseNumberParseError {
+	code: JapaneseNumberParseErrorCode;
+	message: string;
+	/** The part of the (normalized) input that could not be parsed */
+	fragment?: string;
+}
+
+export type ParseJapaneseNumberResult =
+	| { success: true; value: number }
+	| { success: false; error: JapaneseNumberParseError };
+
+export type ParseJapaneseBigIntResult =
+	| { success: true; value: bigint }
+	| { success: false; error: JapaneseNumberParseError };
+
+type TokenTemplate =
+	| { kind: "literal"; value: number }
+	| { kind: "unit"; value: number }
+	| { kind: "bigUnit"; value: bigint };
+
+type NumeralToken = TokenTemplate & { text: string };
+
+// Kanji digits are positional when written in a row (二〇二四 → 2024)
+const kanjiDigits: Record<string, number> = {
+	〇: 0,
+	零: 0,
+	一: 1,
+	二: 2,
+	三: 3,
+	四: 4,
+	五: 5,
+	六: 6,
+	七: 7,
+	八: 8,
+	九: 9,
+};
+
+const kanjiUnits: Record<string, TokenTemplate> = {
+	十: { kind: "unit", value: 10 },
+	百: { kind: "unit", value: 100 },
+	千: { kind: "unit", value: 1000 },
+	万: { kind: "bigUnit", value: 10n ** 4n },
+	億: { kind: "bigUnit", value: 10n ** 8n },
+	兆: { kind: "bigUnit", value: 10n ** 12n },
+	京: { kind: "bigUnit", value: 10n ** 16n },
+	垓: { kind: "bigUnit", value: 10n ** 20n },
+};
+
+// Spelled-out readings (hiragana and romaji), including sound-changed forms
+const readingTokens: Record<string, TokenTemplate> = {
+	// Hiragana digits
+	れい: { kind: "literal", value: 0 },
+	ぜろ: { kind: "literal", value: 0 },
+	いち: { kind: "literal", value: 1 },
+	いっ: { kind: "literal", value: 1 },
+	に: { kind: "literal", value: 2 },
+	さん: { kind: "literal", value: 3 },
+	よん: { kind: "literal", value: 4 },
+	し: { kind: "literal", value: 4 },
+	ご: { kind: "literal", value: 5 },
+	ろく: { kind: "literal", value: 6 },
+	ろっ: { kind: "literal", value: 6 },
+	なな: { kind: "literal", value: 7 },
+	しち: { kind: "literal", value: 7 },
+	はち: { kind: "literal", value: 8 },
+	はっ: { kind: "literal", value: 8 },
+	きゅう: { kind: "literal", value: 9 },
+	く: { kind: "literal", value: 9 },
+	// Hiragana units
+	じゅう: { kind: "unit", value: 10 },
+	じゅっ: { kind: "unit", value: 10 },
+	じっ: { kind: "unit", value: 10 },
+	ひゃく: { kind: "unit", value: 100 },
+	びゃく: { kind: "unit", value: 100 },
+	ぴゃく: { kind: "unit", value: 100 },
+	ひゃっ: { kind: "unit", value: 100 },
+	せん: { kind: "unit", value: 1000 },
+	ぜん: { kind: "unit", value: 1000 },
+	まん: { kind: "bigUnit", value: 10n ** 4n },
+	おく: { kind: "bigUnit", value: 10n ** 8n },
+	ちょう: { kind: "bigUnit", value: 10n ** 12n },
+	けい: { kind: "bigUnit", value: 10n ** 16n },
+	がい: { kind: "bigUnit", value: 10n ** 20n },
+	// Romaji digits (Hepburn and Kunrei spellings)
+	rei: { kind: "literal", value: 0 },
+	zero: { kind: "literal", value: 0 },
+	ichi: { kind: "literal", value: 1 },
+	iti: { kind: "literal", value: 1 },
+	ic: { kind: "literal", value: 1 },
+	ik: { kind: "literal", value: 1 },
+	ip: { kind: "literal", value: 1 },
+	is: { kind: "literal", value: 1 },
+	it: { kind: "literal", value: 1 },
+	ni: { kind: "literal", value: 2 },
+	san: { kind: "literal", value: 3 },
+	yon: { kind: "literal", value: 4 },
+	shi: { kind: "literal", value: 4 },
+	si: { kind: "literal", value: 4 },
+	go: { kind: "literal", value: 5 },
+	roku: { kind: "literal", value: 6 },
+	rop: { kind: "literal", value: 6 },
+	rok: { kind: "literal", value: 6 },
+	nana: { kind: "literal", value: 7 },
+	shichi: { kind: "literal", value: 7 },
+	siti: { kind: "literal", value: 7 },
+	hachi: { kind: "literal", value: 8 },
+	hati: { kind: "literal", value: 8 },
+	hac: { kind: "literal", value: 8 },
+	hak: { kind: "literal", value: 8 },
+	hap: { kind: "literal", value: 8 },
+	has: { kind: "literal", value: 8 },
+	hat: { kind: "literal", value: 8 },
+	kyuu: { kind: "literal", value: 9 },
+	kyu: { kind: "literal", value: 9 },
+	ku: { kind: "literal", value: 9 },
+	// Romaji units
+	juu: { kind: "unit", value: 10 },
+	ju: { kind: "unit", value: 10 },
+	jyuu: { kind: "unit", value: 10 },
+	jyu: { kind: "unit", value: 10 },
+	zyuu: { kind: "unit", value: 10 },
+	zyu: { kind: "unit", value: 10 },
+	juc: { kind: "unit", value: 10 },
+	juk: { kind: "unit", value: 10 },
+	jut: { kind: "unit", value: 10 },
+	jic: { kind: "unit", value: 10 },
+	jit: { kind: "unit", value: 10 },
+	hyaku: { kind: "unit", value: 100 },
+	byaku: { kind: "unit", value: 100 },
+	pyaku: { kind: "unit", value: 100 },
+	hyak: { kind: "unit", value: 100 },
+	sen: { kind: "unit", value: 1000 },
+	zen: { kind: "unit", value: 1000 },
+	man: { kind: "bigUnit", value: 10n ** 4n },
+	oku: { kind: "bigUnit", value: 10n ** 8n },
+	chou: { kind: "bigUnit", value: 10n ** 12n },
+	cho: { kind: "bigUnit", value: 10n ** 12n },
+	tyou: { kind: "bigUnit", value: 10n ** 12n },
+	tyo: { kind: "bigUnit", value: 10n ** 12n },
+	kei: { kind: "bigUnit", value: 10n ** 16n },
+	gai: { kind: "bigUnit", value: 10n ** 20n },
+};
+
+// Longest readings first so that e.g. しち wins over し
+const readingKeys = Object.keys(readingTokens).sort(
+	(a, b) => b.length - a.length,
+);
+
+/**
+ * Normalize user input: full-width → half-width, katakana → hiragana,
+ * macron vowels → doubled vowels, and strip separators
+ */
+function normalizeNumeralInput(input: string): string {
+	return input
+		.normalize("NFKC")
+		.toLowerCase()
+		.replace(/[ァ-ヶ]/g, (char) =>
+			String.fromCharCode(char.charCodeAt(0) - 0x60),
+		)
+		.replace(/ō/g, "ou")
+		.replace(/ū/g, "uu")
+		.replace(/[\s,、'’・-]/g, "")
+		.replace(/nn(?![aeiouy])/g, "n");
+}
+
+function failure(
+	code: JapaneseNumberParseErrorCode,
+	message: string,
+	fragment?: string,
+): { success: false; error: JapaneseNumberParseError } {
+	return { success: false, error: { code, message, fragment } };
+}
+
+/**
+ * Split normalized input into digit literals and units
+ */
+function tokenize(text: string): NumeralToken[] | JapaneseNumberParseError {
+	const tokens: NumeralToken[] = [];
+	let position = 0;
+
+	while (position < text.length) {
+		const char = text.charAt(position);
+
+		// Arabic digit runs ("5000")
+		const arabicRun = /^[0-9]+/.exec(text.slice(position))?.[0];
+		if (arabicRun) {
+			tokens.push({
+				kind: "literal",
+				value: Number(arabicRun),
+				text: arabicRun,
+			});
+			position += arabicRun.length;
+			continue;
+		}
+
+		// Kanji digit runs ("五", "二〇二四")
+		if (kanjiDigits[char] !== undefined) {
+			let run = "";
+			let value = 0;
+			while (kanjiDigits[text.charAt(position)] !== undefined) {
+				const digitChar = text.charAt(position);
+				value = value * 10 + (kanjiDigits[digitChar] ?? 0);
+				run += digitChar;
+				position++;
+			}
+			tokens.push({ kind: "literal", value, text: run });
+			continue;
+		}
+
+		const kanjiUnit = kanjiUnits[char];
+		if (kanjiUnit) {
+			tokens.push({ ...kanjiUnit, text: char });
+			position++;
+			continue;
+		}
+
+		const reading = readingKeys.find((key) => text.startsWith(key, position));
+		const readingToken = reading ? readingTokens[reading] : undefined;
+		if (!reading || !readingToken) {
+			return {
+				code: "unexpected-character",
+				message: `Unexpected character "${char}"`,
+				fragment: text.slice(position),
+			};
+		}
+
+		tokens.push({ ...readingToken, text: reading });
+		position += reading.length;
+	}
+
+	return tokens;
+}
+
+/**
+ * Parse Japanese numeral text into an integer.
+ * Accepts kanji (三億五千万), hiragana/katakana (さんおくごせんまん), romaji
+ * (san'oku gosenman), mixed forms (3億5000万) and full-width digits (３５０).
+ */
+export function parseJapaneseNumber(input: string): ParseJapaneseNumberResult {
+	const result = parseJapaneseBigInt(input);
+	if (!result.success) {
+		return result;
+	}
+
+	if (result.value > BigInt(Number.MAX_SAFE_INTEGER)) {
+		return failure("out-of-range", "The number is too large to represent");
+	}
+
+	return { success: true, value: Number(result.value) };
+}
+
+/**
+ * Parse Japanese numeral text into a bigint, exact at every magnitude up
+ * to 垓 (十二京三千四百兆 → 123400000000000000n)
+ */
+export function parseJapaneseBigInt(input: string): ParseJapaneseBigIntResult {
+	const text = normalizeNumeralInput(input);
+	if (text.length === 0) {
+		return failure("empty", "Enter a number to parse");
+	}
+
+	const tokens = tokenize(text);
+	if (!Array.isArray(tokens)) {
+		return { success: false, error: tokens };
+	}
+
+	let total = 0n;
+	let section = 0; // value below the current 万/億/兆 group
+	let pending: number | null = null; // digit waiting for a unit
+	let lastUnit = Number.POSITIVE_INFINITY;
+	let lastBigUnit: bigint | null = null;
+
+	for (const token of tokens) {
+		switch (token.kind) {
+			case "literal": {
+				if (pending !== null) {
+					return failure(
+						"invalid-sequence",
+						"Two digits cannot follow each other",
+						token.text,
+					);
+				}
+				if (token.value >= lastUnit) {
+					return failure(
+						"invalid-sequence",
+						`"${token.text}" is too large to follow a smaller unit`,
+						token.text,
+					);
+				}
+				pending = token.value;
+				break;
+			}
+			case "unit": {
+				const multiplier = pending ?? 1;
+				if (multiplier === 0 || multiplier >= 10) {
+					return failure(
+						"invalid-sequence",
+						`"${token.text}" must be preceded by a single digit from 1 to 9`,
+						token.text,
+					);
+				}
+				if (token.value >= lastUnit) {
+					return failure(
+						"invalid-sequence",
+						`"${token.text}" is out of order`,
+						token.text,
+					);
+				}
+				section += multiplier * token.value;
+				lastUnit = token.value;
+				pending = null;
+				break;
+			}
+			case "bigUnit": {
+				const groupValue = section + (pending ?? 0);
+				if (groupValue === 0 || groupValue >= 10000) {
+					return failure(
+						"invalid-sequence",
+						`"${token.text}" must be preceded by a value from 1 to 9999`,
+						token.text,
+					);
+				}
+				if (lastBigUnit !== null && token.value >= lastBigUnit) {
+					return failure(
+						"invalid-sequence",
+						`"${token.text}" is out of order`,
+						token.text,
+					);
+				}
+				total += BigInt(groupValue) * token.value;
+				lastBigUnit = token.value;
+				section = 0;
+				pending = null;
+				lastUnit = Number.POSITIVE_INFINITY;
+				break;
+			}
+		}
+	}
+
+	const tail = section + (pending ?? 0);
+	if (lastBigUnit !== null && tail >= 10000) {
+		return failure(
+			"invalid-sequence",
+			"The value after the last 万/億/兆 must be below 10,000",
+		);
+	}
+
+	// Long Arabic digit runs lose precision as numbers (9007199254740993)
+	if (!Number.isSafeInteger(tail)) {
+		return failure("out-of-range", "The number is too large to represent");
+	}
+
+	total += BigInt(tail);
+	return { success: true, value: total };
+}
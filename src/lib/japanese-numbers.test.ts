@@ -1,11 +1,32 @@
 import { describe, expect, test } from "vitest";
+import { toRomaji } from "./japanese-kana";
 import {
 	type JapaneseNumber,
+	convertDecimalToJapanese,
+	convertFractionToEnglish,
+	convertFractionToJapanese,
+	convertPercentToEnglish,
+	convertPercentToJapanese,
+	convertPercentToWari,
+	convertToDaiji,
+	convertToEnglish,
 	convertToJapanese,
+	convertToWago,
+	formatFormalAmount,
+	generateFractionalExpression,
+	generateNumberWithPattern,
+	generateRandomBigInt,
 	generateRandomNumber,
+	getAnswerUsage,
+	getNumberPatterns,
 	isAnswerCorrect,
 	isRomajiMatch,
+	matchesJapaneseAnswer,
+	roundToRealistic,
+	toDaiji,
+	wagoNumbers,
 } from "./japanese-numbers";
+import { createSeededRandom } from "./seeded-random";
 
 describe("Japanese Numbers Library", () => {
 	describe("convertToJapanese", () => {
@@ -233,30 +254,142 @@ describe("Japanese Numbers Library", () => {
 
 	describe("isRomajiMatch", () => {
 		test("should match exact romaji", () => {
-			expect(isRomajiMatch("ichi", "ichi")).toBe(true);
-			expect(isRomajiMatch("nijuu", "nijuu")).toBe(true);
+			expect(isRomajiMatch("ichi", "いち")).toBe(true);
+			expect(isRomajiMatch("nijuu", "にじゅう")).toBe(true);
 		});
 
 		test("should match romaji variants", () => {
 			// juu vs jyuu variants
-			expect(isRomajiMatch("juu", "juu")).toBe(true);
-			expect(isRomajiMatch("jyuu", "juu")).toBe(true);
-			expect(isRomajiMatch("ju", "juu")).toBe(true);
+			expect(isRomajiMatch("juu", "じゅう")).toBe(true);
+			expect(isRomajiMatch("jyuu", "じゅう")).toBe(true);
+			expect(isRomajiMatch("ju", "じゅう")).toBe(true);
+
+			// kyuu vs kyu, but ku is a different reading
+			expect(isRomajiMatch("kyuu", "きゅう")).toBe(true);
+			expect(isRomajiMatch("kyu", "きゅう")).toBe(true);
+			expect(isRomajiMatch("ku", "きゅう")).toBe(false);
+		});
+
+		test("should match Kunrei-shiki and Nihon-shiki spellings", () => {
+			expect(isRomajiMatch("siti", "しち")).toBe(true);
+			expect(isRomajiMatch("sen'ittyou", "せんいっちょう")).toBe(true);
+			expect(isRomajiMatch("tu", "ち")).toBe(false);
+		});
+
+		test("should match ん with or without an apostrophe", () => {
+			expect(isRomajiMatch("sanoku", "さんおく")).toBe(true);
+			expect(isRomajiMatch("san'oku", "さんおく")).toBe(true);
+			expect(isRomajiMatch("sannbyaku", "さんびゃく")).toBe(true);
+			expect(isRomajiMatch("sanoku", "さのく")).toBe(true);
+		});
+
+		test("should only accept Hepburn when strict", () => {
+			expect(isRomajiMatch("juu", "じゅう", "strict")).toBe(true);
+			expect(isRomajiMatch("jū", "じゅう", "strict")).toBe(true);
+			expect(isRomajiMatch("itchou", "いっちょう", "strict")).toBe(true);
+			expect(isRomajiMatch("icchou", "いっちょう", "strict")).toBe(true);
+			expect(isRomajiMatch("zyuu", "じゅう", "strict")).toBe(false);
+			expect(isRomajiMatch("jyuu", "じゅう", "strict")).toBe(false);
+			expect(isRomajiMatch("ju", "じゅう", "strict")).toBe(false);
+			expect(isRomajiMatch("sannbyaku", "さんびゃく", "strict")).toBe(false);
+		});
 
-			// ku vs kyu variants
-			expect(isRomajiMatch("kyuu", "kyuu")).toBe(true);
-			expect(isRomajiMatch("kyu", "kyuu")).toBe(true);
-			expect(isRomajiMatch("ku", "kyuu")).toBe(true);
+		test("should never accept romaji when kana-only", () => {
+			expect(isRomajiMatch("juu", "じゅう", "kana-only")).toBe(false);
 		});
 
 		test("should be case insensitive", () => {
-			expect(isRomajiMatch("ICHI", "ichi")).toBe(true);
-			expect(isRomajiMatch("IcHi", "ichi")).toBe(true);
+			expect(isRomajiMatch("ICHI", "いち")).toBe(true);
+			expect(isRomajiMatch("IcHi", "いち")).toBe(true);
 		});
 
 		test("should handle whitespace", () => {
-			expect(isRomajiMatch(" ichi ", "ichi")).toBe(true);
-			expect(isRomajiMatch("ichi", " ichi ")).toBe(true);
+			expect(isRomajiMatch(" ichi ", "いち")).toBe(true);
+			expect(isRomajiMatch("ni juu", "にじゅう")).toBe(true);
+			expect(isRomajiMatch("ichi", " いち ")).toBe(true);
+		});
+
+		describe("every number reading", () => {
+			// Every reading below 10,000, and each unit from 万 to 京 with every
+			// multiplier, covers each sound change (さんびゃく, いっちょう, じゅっけい)
+			const numbers = [
+				...Array.from({ length: 10000 }, (_, i) => BigInt(i)),
+				...[10n ** 4n, 10n ** 8n, 10n ** 12n, 10n ** 16n].flatMap((unit) =>
+					[1n, 10n, 100n, 1000n].flatMap((place) =>
+						Array.from({ length: 9 }, (_, i) => BigInt(i + 1) * place * unit),
+					),
+				),
+			];
+			const readings = numbers.map((num) => convertToJapanese(num));
+
+			test("should accept the romaji shown with each reading", () => {
+				for (const reading of readings) {
+					expect(
+						isRomajiMatch(reading.romaji, reading.hiragana, "strict"),
+						reading.hiragana,
+					).toBe(true);
+				}
+			});
+
+			test("should accept every system when lenient, and only Hepburn when strict", () => {
+				for (const reading of readings) {
+					const hepburn = toRomaji(reading.hiragana, { longVowels: "marked" });
+					const kunrei = toRomaji(reading.hiragana, { system: "kunrei" });
+					const nihonShiki = toRomaji(reading.hiragana, {
+						system: "nihon-shiki",
+					});
+					expect(isRomajiMatch(hepburn, reading.hiragana, "strict")).toBe(true);
+					expect(isRomajiMatch(kunrei, reading.hiragana)).toBe(true);
+					expect(isRomajiMatch(nihonShiki, reading.hiragana)).toBe(true);
+					if (kunrei !== toRomaji(reading.hiragana)) {
+						expect(isRomajiMatch(kunrei, reading.hiragana, "strict")).toBe(
+							false,
+						);
+					}
+					expect(
+						isRomajiMatch(reading.romaji, reading.hiragana, "kana-only"),
+					).toBe(false);
+				}
+			});
+
+			test("should reject the reading of any other number", () => {
+				for (const [index, reading] of readings.entries()) {
+					const next = readings[index + 1];
+					if (!next) continue;
+					expect(isRomajiMatch(next.romaji, reading.hiragana)).toBe(false);
+					expect(isRomajiMatch(reading.romaji, next.hiragana)).toBe(false);
+				}
+			});
+		});
+	});
+
+	describe("matchesJapaneseAnswer", () => {
+		const monday = ["月曜日", "げつようび"];
+
+		test("should match kanji and kana, in katakana too", () => {
+			expect(matchesJapaneseAnswer("月曜日", monday)).toBe(true);
+			expect(matchesJapaneseAnswer("ゲツヨウビ", monday)).toBe(true);
+			expect(matchesJapaneseAnswer("かようび", monday)).toBe(false);
+		});
+
+		test("should match every romanization of the kana", () => {
+			expect(matchesJapaneseAnswer("getsuyoubi", monday)).toBe(true);
+			expect(matchesJapaneseAnswer("getuyoubi", monday)).toBe(true);
+			expect(matchesJapaneseAnswer("getsuyōbi", monday)).toBe(true);
+			expect(matchesJapaneseAnswer("sigatu", ["四月", "しがつ"])).toBe(true);
+			expect(matchesJapaneseAnswer("tuitati", ["一日", "ついたち"])).toBe(true);
+			expect(matchesJapaneseAnswer("yongatu", ["四月", "しがつ"])).toBe(false);
+		});
+
+		test("should follow the romaji strictness", () => {
+			expect(matchesJapaneseAnswer("getsuyōbi", monday, "strict")).toBe(true);
+			expect(matchesJapaneseAnswer("getuyoubi", monday, "strict")).toBe(false);
+			expect(matchesJapaneseAnswer("getsuyoubi", monday, "kana-only")).toBe(
+				false,
+			);
+			expect(matchesJapaneseAnswer("げつようび", monday, "kana-only")).toBe(
+				true,
+			);
 		});
 	});
 
@@ -289,6 +422,48 @@ describe("Japanese Numbers Library", () => {
 			expect(isAnswerCorrect("ichi", testNumber)).toBe(false);
 			expect(isAnswerCorrect("wrong", testNumber)).toBe(false);
 		});
+
+		test("should accept the old readings of 4, 7 and 9", () => {
+			expect(isAnswerCorrect("しちじゅう", convertToJapanese(70))).toBe(true);
+			expect(isAnswerCorrect("shijuu", convertToJapanese(40))).toBe(true);
+			expect(isAnswerCorrect("じゅうく", convertToJapanese(19))).toBe(true);
+			expect(isAnswerCorrect("senman", convertToJapanese(10000000))).toBe(true);
+			expect(isAnswerCorrect("しひゃく", convertToJapanese(400))).toBe(false);
+			expect(isAnswerCorrect("くせん", convertToJapanese(9000))).toBe(false);
+		});
+	});
+
+	describe("getAnswerUsage", () => {
+		test("should flag valid but unusual readings", () => {
+			expect(getAnswerUsage("よんじゅう", convertToJapanese(40))).toBe(
+				"standard",
+			);
+			expect(getAnswerUsage("しじゅう", convertToJapanese(40))).toBe("unusual");
+			expect(getAnswerUsage("shichihyaku", convertToJapanese(700))).toBe(
+				"unusual",
+			);
+			expect(getAnswerUsage("しちじゅう", convertToJapanese(70))).toBe(
+				"standard",
+			);
+			expect(getAnswerUsage("四十", convertToJapanese(40))).toBe("standard");
+			expect(getAnswerUsage("ごじゅう", convertToJapanese(40))).toBeNull();
+		});
+	});
+
+	describe("seeded generators", () => {
+		test("should repeat their results for the same seed", () => {
+			const generate = (seed: string) => {
+				const random = createSeededRandom(seed);
+				return [
+					generateRandomNumber(random),
+					generateRandomBigInt(10n ** 16n, 10n ** 21n, random),
+					generateNumberWithPattern("八百", random),
+					generateFractionalExpression(random).display,
+				];
+			};
+			expect(generate("same")).toEqual(generate("same"));
+			expect(generate("same")).not.toEqual(generate("other"));
+		});
 	});
 
 	describe("generateRandomNumber", () => {
@@ -570,4 +745,231 @@ describe("Japanese Numbers Library", () => {
 			expect(allValid).toBe(true);
 		});
 	});
+
+	describe("negatives, decimals, fractions and percentages", () => {
+		test("should prefix negative numbers with マイナス", () => {
+			const result = convertToJapanese(-5);
+			expect(result.kanji).toBe("マイナス五");
+			expect(result.hiragana).toBe("マイナスご");
+			expect(result.romaji).toBe("mainasugo");
+		});
+
+		test("should read decimal digits one by one", () => {
+			const result = convertToJapanese(3.14);
+			expect(result.kanji).toBe("三点一四");
+			expect(result.hiragana).toBe("さんてんいちよん");
+			expect(result.romaji).toBe("santenichiyon");
+
+			expect(convertToJapanese(0.5).hiragana).toBe("れいてんご");
+			expect(convertToJapanese(-2.5).kanji).toBe("マイナス二点五");
+		});
+
+		test("should geminate before 点", () => {
+			expect(convertToJapanese(1.5).hiragana).toBe("いってんご");
+			expect(convertToJapanese(1.5).romaji).toBe("ittengo");
+			expect(convertToJapanese(8.2).hiragana).toBe("はってんに");
+			expect(convertToJapanese(10.5).hiragana).toBe("じゅってんご");
+		});
+
+		test("should keep trailing zeros when given a string", () => {
+			expect(convertDecimalToJapanese("2.50").kanji).toBe("二点五〇");
+			expect(convertDecimalToJapanese("abc").kanji).toBe("?");
+		});
+
+		test("should convert fractions", () => {
+			const result = convertFractionToJapanese(2, 3);
+			expect(result.kanji).toBe("三分の二");
+			expect(result.hiragana).toBe("さんぶんのに");
+			expect(result.romaji).toBe("sanbunnoni");
+			expect(convertFractionToJapanese(1, 0).kanji).toBe("?");
+		});
+
+		test("should convert percentages", () => {
+			const result = convertPercentToJapanese(50);
+			expect(result.kanji).toBe("五十パーセント");
+			expect(result.hiragana).toBe("ごじゅっパーセント");
+			expect(result.romaji).toBe("gojuppaasento");
+			expect(convertPercentToJapanese(35).hiragana).toBe(
+				"さんじゅうごパーセント",
+			);
+		});
+
+		test("should convert percentages to 割・分・厘", () => {
+			const result = convertPercentToWari(35.2);
+			expect(result.kanji).toBe("三割五分二厘");
+			expect(result.hiragana).toBe("さんわりごぶにりん");
+			expect(convertPercentToWari(30).kanji).toBe("三割");
+			expect(convertPercentToWari(0.5).kanji).toBe("五厘");
+		});
+
+		test("should accept katakana loanwords typed in hiragana", () => {
+			expect(isAnswerCorrect("まいなすご", convertToJapanese(-5))).toBe(true);
+			expect(isAnswerCorrect("マイナスご", convertToJapanese(-5))).toBe(true);
+			expect(isAnswerCorrect("mainasugo", convertToJapanese(-5))).toBe(true);
+		});
+
+		test("should convert to English", () => {
+			expect(convertToEnglish(3.14)).toBe("three point one four");
+			expect(convertToEnglish(-5)).toBe("negative five");
+			expect(convertFractionToEnglish(2, 3)).toBe("two thirds");
+			expect(convertFractionToEnglish(1, 2)).toBe("one half");
+			expect(convertFractionToEnglish(1, 4)).toBe("one fourth");
+			expect(convertFractionToEnglish(3, 8)).toBe("three eighths");
+			expect(convertPercentToEnglish(35)).toBe("thirty-five percent");
+		});
+
+		test("should generate convertible expressions", () => {
+			for (let i = 0; i < 200; i++) {
+				const expression = generateFractionalExpression();
+				expect(expression.japanese.kanji).not.toBe("?");
+				expect(expression.display.length).toBeGreaterThan(0);
+				expect(expression.english.length).toBeGreaterThan(0);
+				if (expression.kind === "decimal") {
+					expect(expression.display).not.toMatch(/\.\d*0$/);
+				}
+			}
+		});
+	});
+
+	describe("large numbers and bigint", () => {
+		test("should group millions under 万", () => {
+			expect(convertToJapanese(1000000).kanji).toBe("百万");
+			expect(convertToJapanese(12345678).kanji).toBe(
+				"一千二百三十四万五千六百七十八",
+			);
+			expect(convertToJapanese(10000000).hiragana).toBe("いっせんまん");
+			expect(convertToJapanese(30000000).hiragana).toBe("さんぜんまん");
+		});
+
+		test("should geminate before 兆 and 京", () => {
+			expect(convertToJapanese(1000000000000).hiragana).toBe("いっちょう");
+			expect(convertToJapanese(1000000000000).romaji).toBe("icchou");
+			expect(convertToJapanese(8n * 10n ** 12n).hiragana).toBe("はっちょう");
+			expect(convertToJapanese(10n ** 16n).hiragana).toBe("いっけい");
+			expect(convertToJapanese(6n * 10n ** 16n).hiragana).toBe("ろっけい");
+			expect(convertToJapanese(100n * 10n ** 16n).hiragana).toBe("ひゃっけい");
+			expect(convertToJapanese(100n * 10n ** 16n).romaji).toBe("hyakkei");
+			expect(convertToJapanese(6n * 10n ** 12n).hiragana).toBe("ろくちょう");
+		});
+
+		test("should convert 京 and 垓 exactly", () => {
+			const result = convertToJapanese(123400000000000005n);
+			expect(result.kanji).toBe("十二京三千四百兆五");
+			expect(result.hiragana).toBe("じゅうにけいさんぜんよんひゃくちょうご");
+
+			expect(convertToJapanese(3n * 10n ** 20n).kanji).toBe("三垓");
+			expect(convertToJapanese(3n * 10n ** 20n).romaji).toBe("sangai");
+			expect(convertToJapanese(10n ** 24n).kanji).toBe("?");
+			expect(convertToJapanese(-(10n ** 16n)).kanji).toBe("マイナス一京");
+		});
+
+		test("should accept bigint in convertToEnglish", () => {
+			expect(convertToEnglish(10n ** 16n)).toBe("ten quadrillion");
+			expect(convertToEnglish(1000000000000000001n)).toBe(
+				"one quintillion one",
+			);
+			expect(convertToEnglish(12345)).toBe(
+				"twelve thousand three hundred forty-five",
+			);
+		});
+
+		test("should round bigint values to realistic amounts", () => {
+			expect(roundToRealistic(123456789012345678n)).toBe(123457000000000000n);
+			expect(roundToRealistic(1234n)).toBe(1200n);
+		});
+
+		test("should generate bigint values within range", () => {
+			const min = 10n ** 16n;
+			const max = 10n ** 21n - 1n;
+			for (let i = 0; i < 100; i++) {
+				const value = generateRandomBigInt(min, max);
+				expect(value >= min && value <= max).toBe(true);
+			}
+		});
+	});
+
+	describe("daiji", () => {
+		test("should add daiji to whole numbers", () => {
+			expect(convertToDaiji(10000).daiji).toBe("壱萬");
+			expect(convertToDaiji(23).daiji).toBe("弐拾参");
+			expect(convertToDaiji(10).daiji).toBe("壱拾");
+			expect(convertToDaiji(1234).daiji).toBe("壱千弐百参拾四");
+			expect(convertToDaiji(1000000).daiji).toBe("壱百萬");
+			expect(convertToDaiji(3.5).daiji).toBeUndefined();
+			expect(convertToDaiji(-3).daiji).toBeUndefined();
+		});
+
+		test("should convert kanji text to daiji", () => {
+			expect(toDaiji("三億二千万")).toBe("参億弐千萬");
+			expect(toDaiji("十五")).toBe("壱拾五");
+		});
+
+		test("should format formal amounts", () => {
+			expect(formatFormalAmount(10000)).toBe("金壱萬円也");
+			expect(formatFormalAmount(350000)).toBe("金参拾五萬円也");
+			expect(formatFormalAmount(-1)).toBe("?");
+		});
+
+		test("should accept daiji answers", () => {
+			expect(isAnswerCorrect("壱萬", convertToJapanese(10000))).toBe(true);
+			expect(isAnswerCorrect("弐拾参", convertToJapanese(23))).toBe(true);
+			expect(isAnswerCorrect("弐拾参", convertToJapanese(22))).toBe(false);
+		});
+	});
+
+	describe("native numerals", () => {
+		test("should count one to ten with つ", () => {
+			expect(convertToWago(1)).toMatchObject({
+				kanji: "一つ",
+				hiragana: "ひとつ",
+				romaji: "hitotsu",
+				stem: "ひと",
+			});
+			expect(convertToWago(9)?.hiragana).toBe("ここのつ");
+			expect(convertToWago(10)?.hiragana).toBe("とお");
+			expect(convertToWago(0)).toBeNull();
+			expect(convertToWago(11)).toBeNull();
+		});
+
+		test("should build every reading on its stem", () => {
+			for (const wago of wagoNumbers) {
+				expect(wago.hiragana.startsWith(wago.stem)).toBe(true);
+				expect(wago.romaji.startsWith(wago.stemRomaji)).toBe(true);
+				expect(toRomaji(wago.hiragana)).toBe(wago.romaji);
+			}
+		});
+	});
+
+	describe("reading patterns", () => {
+		test("should split numbers into digit, place and unit patterns", () => {
+			expect(getNumberPatterns(800)).toEqual(["八百"]);
+			expect(getNumberPatterns(3864)).toEqual(["三千", "八百", "六十", "四"]);
+			expect(getNumberPatterns(111)).toEqual(["百", "十", "一"]);
+			expect(getNumberPatterns(38000)).toEqual(["三", "万", "八千"]);
+			expect(getNumberPatterns(15000000)).toEqual(["一千", "五百", "万"]);
+			expect(getNumberPatterns(-600)).toEqual(["六百"]);
+			expect(getNumberPatterns(0)).toEqual([]);
+		});
+
+		test("should generate numbers that contain a pattern", () => {
+			for (const pattern of [
+				"八百",
+				"三千",
+				"千",
+				"十",
+				"四",
+				"万",
+				"億",
+				"一千",
+			]) {
+				for (let i = 0; i < 20; i++) {
+					const value = generateNumberWithPattern(pattern);
+					expect(value).not.toBeNull();
+					expect(getNumberPatterns(value ?? 0n)).toContain(pattern);
+				}
+			}
+			expect(generateNumberWithPattern("一百")).toBeNull();
+			expect(generateNumberWithPattern("?")).toBeNull();
+		});
+	});
 });
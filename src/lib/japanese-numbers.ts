@@ -1,14 +1,19 @@
 // Japanese number conversion utilities
 
+import { katakanaToHiragana, toKana, toRomaji } from "./japanese-kana";
+import { type ReadingUsage, getNumberReadings } from "./number-readings";
+
 export interface JapaneseNumber {
 	number: number;
 	kanji: string;
 	hiragana: string;
 	romaji: string;
+	// Formal 大字 numerals used on contracts and banknotes (壱萬)
+	daiji?: string;
 }
 
 // Utility function to format numbers with commas
-export function formatNumberWithCommas(num: number): string {
+export function formatNumberWithCommas(num: number | bigint): string {
 	return num.toLocaleString();
 }
 
@@ -110,22 +115,193 @@ const basicNumbers: Record<number, JapaneseNumber> = {
 	100: { number: 100, kanji: "百", hiragana: "ひゃく", romaji: "hyaku" },
 };
 
+// Native Japanese (和語) numerals, counted with the generic つ. Only one to
+// ten exist in everyday use; their stems are the roots of ひとり, ふたり and
+// the day readings (ふつか, みっか, ようか).
+export interface WagoNumber extends JapaneseNumber {
+	// The root without つ (ひと, ふた, み)
+	stem: string;
+	stemRomaji: string;
+}
+
+export const wagoNumbers: WagoNumber[] = [
+	{
+		number: 1,
+		kanji: "一つ",
+		hiragana: "ひとつ",
+		romaji: "hitotsu",
+		stem: "ひと",
+		stemRomaji: "hito",
+	},
+	{
+		number: 2,
+		kanji: "二つ",
+		hiragana: "ふたつ",
+		romaji: "futatsu",
+		stem: "ふた",
+		stemRomaji: "futa",
+	},
+	{
+		number: 3,
+		kanji: "三つ",
+		hiragana: "みっつ",
+		romaji: "mittsu",
+		stem: "み",
+		stemRomaji: "mi",
+	},
+	{
+		number: 4,
+		kanji: "四つ",
+		hiragana: "よっつ",
+		romaji: "yottsu",
+		stem: "よ",
+		stemRomaji: "yo",
+	},
+	{
+		number: 5,
+		kanji: "五つ",
+		hiragana: "いつつ",
+		romaji: "itsutsu",
+		stem: "いつ",
+		stemRomaji: "itsu",
+	},
+	{
+		number: 6,
+		kanji: "六つ",
+		hiragana: "むっつ",
+		romaji: "muttsu",
+		stem: "む",
+		stemRomaji: "mu",
+	},
+	{
+		number: 7,
+		kanji: "七つ",
+		hiragana: "ななつ",
+		romaji: "nanatsu",
+		stem: "なな",
+		stemRomaji: "nana",
+	},
+	{
+		number: 8,
+		kanji: "八つ",
+		hiragana: "やっつ",
+		romaji: "yattsu",
+		stem: "や",
+		stemRomaji: "ya",
+	},
+	{
+		number: 9,
+		kanji: "九つ",
+		hiragana: "ここのつ",
+		romaji: "kokonotsu",
+		stem: "ここの",
+		stemRomaji: "kokono",
+	},
+	// Ten takes no つ
+	{
+		number: 10,
+		kanji: "十",
+		hiragana: "とお",
+		romaji: "too",
+		stem: "とお",
+		stemRomaji: "too",
+	},
+];
+
+/**
+ * Count with the native numerals (3 → みっつ). Returns null outside one to
+ * ten, where the native series stops.
+ */
+export function convertToWago(num: number): WagoNumber | null {
+	return wagoNumbers.find((wago) => wago.number === num) ?? null;
+}
+
 /**
- * Convert a number (0-9999) to Japanese representations
+ * Convert a whole number to Japanese representations including the formal
+ * daiji style (10000 → 一万 / 壱萬). Negatives and decimals have no daiji.
  */
-export function convertToJapanese(num: number): JapaneseNumber {
+export function convertToDaiji(num: number | bigint): JapaneseNumber {
+	const japaneseNumber = convertToJapanese(num);
+	const isWholeNumber = typeof num === "bigint" || Number.isInteger(num);
+	if (!isWholeNumber || num < 0 || japaneseNumber.kanji === "?") {
+		return japaneseNumber;
+	}
+
+	return { ...japaneseNumber, daiji: toDaiji(japaneseNumber.kanji) };
+}
+
+// Daiji replace the numerals that are easiest to alter with extra strokes
+const daijiCharacters: Record<string, string> = {
+	一: "壱",
+	二: "弐",
+	三: "参",
+	十: "拾",
+	万: "萬",
+};
+
+/**
+ * Convert kanji numerals to 大字 (一万二千 → 壱萬弐千). Units are always
+ * written with an explicit 壱 (壱拾, 壱百, 壱千) so nothing can be added in front.
+ */
+export function toDaiji(kanji: string): string {
+	const explicitOnes = kanji.replace(
+		/(^|[^一二三四五六七八九])([十百千])/g,
+		"$1一$2",
+	);
+	return explicitOnes.replace(
+		/[一二三十万]/g,
+		(char) => daijiCharacters[char] ?? char,
+	);
+}
+
+/**
+ * Format an amount of yen as written on contracts and bank slips (金壱萬円也)
+ */
+export function formatFormalAmount(num: number | bigint): string {
+	const japaneseNumber = convertToDaiji(num);
+	if (!japaneseNumber.daiji) {
+		return "?";
+	}
+	return `金${japaneseNumber.daiji}円也`;
+}
+
+/**
+ * Convert a number to Japanese representations.
+ * Supports integers below 10^24 (up to 垓), negatives and decimals.
+ * Pass a bigint for exact readings past Number.MAX_SAFE_INTEGER; the
+ * `number` field is then only an approximation.
+ */
+export function convertToJapanese(num: number | bigint): JapaneseNumber {
+	if (typeof num === "bigint") {
+		if (num < 0n) {
+			return withMinusPrefix(convertToJapanese(-num), Number(num));
+		}
+		if (num <= BigInt(Number.MAX_SAFE_INTEGER)) {
+			return convertToJapanese(Number(num));
+		}
+		return convertMyriads(num);
+	}
+
 	// Handle basic numbers directly
 	if (basicNumbers[num]) {
 		return basicNumbers[num];
 	}
 
-	// Validate range - now supporting up to 999 trillion
-	if (num < 0 || num > 999999999999999) {
+	// Handle negative numbers - mainasu (マイナス)
+	if (num < 0) {
+		return withMinusPrefix(convertToJapanese(-num), num);
+	}
+
+	// Handle decimals - ten (点)
+	if (!Number.isInteger(num)) {
+		return convertDecimalToJapanese(num);
+	}
+
+	// Validate range - supporting up to 9999 垓 (10^24 - 1)
+	if (num > Number.MAX_SAFE_INTEGER) {
 		return {
+			...convertToJapanese(BigInt(num)),
 			number: num,
-			kanji: "?",
-			hiragana: "?",
-			romaji: "?",
 		};
 	}
 
@@ -172,88 +348,295 @@ export function convertToJapanese(num: number): JapaneseNumber {
 		return convertThousands(num);
 	}
 
-	// Handle ten thousands (10000-99999) - man (万)
-	if (num >= 10000 && num < 100000) {
-		return convertTenThousands(num);
-	}
+	// Handle 万 and above in groups of four digits
+	return convertMyriads(BigInt(num));
+}
 
-	// Handle hundred thousands (100000-999999)
-	if (num >= 100000 && num <= 999999) {
-		return convertHundredThousands(num);
+/**
+ * Prefix a converted number with マイナス
+ */
+function withMinusPrefix(
+	japaneseNumber: JapaneseNumber,
+	num: number,
+): JapaneseNumber {
+	if (japaneseNumber.kanji === "?") {
+		return { number: num, kanji: "?", hiragana: "?", romaji: "?" };
 	}
 
-	// Handle one million exactly
-	if (num === 1000000) {
-		return {
-			number: num,
-			kanji: "百万",
-			hiragana: "ひゃくまん",
-			romaji: "hyakuman",
-		};
+	return {
+		number: num,
+		kanji: `マイナス${japaneseNumber.kanji}`,
+		hiragana: `マイナス${japaneseNumber.hiragana}`,
+		romaji: `mainasu${japaneseNumber.romaji}`,
+	};
+}
+
+// Digits after 点 are read one by one (三点一四 → さんてんいちよん)
+const decimalDigitKanji = [
+	"〇",
+	"一",
+	"二",
+	"三",
+	"四",
+	"五",
+	"六",
+	"七",
+	"八",
+	"九",
+];
+
+// Endings that geminate before a k/s/t/p sound (いってん, はっちょう, ろっけい)
+const geminatingEndings: Array<{
+	hiragana: string;
+	romaji: string;
+	hiraganaStem: string;
+	romajiStem: string;
+	// Only geminate before this consonant
+	onlyBefore?: string;
+}> = [
+	{ hiragana: "いち", romaji: "ichi", hiraganaStem: "いっ", romajiStem: "i" },
+	{ hiragana: "はち", romaji: "hachi", hiraganaStem: "はっ", romajiStem: "ha" },
+	{
+		hiragana: "じゅう",
+		romaji: "juu",
+		hiraganaStem: "じゅっ",
+		romajiStem: "ju",
+	},
+	{
+		hiragana: "ろく",
+		romaji: "roku",
+		hiraganaStem: "ろっ",
+		romajiStem: "ro",
+		onlyBefore: "k",
+	},
+	{
+		hiragana: "ひゃく",
+		romaji: "hyaku",
+		hiraganaStem: "ひゃっ",
+		romajiStem: "hya",
+		onlyBefore: "k",
+	},
+];
+
+/**
+ * Geminate the end of a reading before a word starting with a k/s/t/p sound
+ */
+function geminateEnding(
+	japaneseNumber: JapaneseNumber,
+	nextRomaji: string,
+): { hiragana: string; romaji: string } {
+	const ending = /^(k|s|t|p|ch)/.test(nextRomaji)
+		? geminatingEndings.find(
+				(candidate) =>
+					japaneseNumber.hiragana.endsWith(candidate.hiragana) &&
+					(!candidate.onlyBefore ||
+						nextRomaji.startsWith(candidate.onlyBefore)),
+			)
+		: undefined;
+	if (!ending) {
+		return { hiragana: japaneseNumber.hiragana, romaji: japaneseNumber.romaji };
 	}
 
-	// Handle millions (1000000-9999999)
-	if (num >= 1000000 && num < 10000000) {
-		return convertMillions(num);
+	return {
+		hiragana:
+			japaneseNumber.hiragana.slice(0, -ending.hiragana.length) +
+			ending.hiraganaStem,
+		romaji:
+			japaneseNumber.romaji.slice(0, -ending.romaji.length) +
+			ending.romajiStem +
+			nextRomaji.charAt(0),
+	};
+}
+
+/**
+ * Convert a decimal number to Japanese (3.14 → 三点一四 / さんてんいちよん).
+ * Pass a string to keep trailing zeros or avoid floating point noise.
+ */
+export function convertDecimalToJapanese(
+	value: number | string,
+): JapaneseNumber {
+	const text = String(value).trim();
+	const num = Number(text);
+	const match = /^(-?)(\d+)(?:\.(\d+))?$/.exec(text);
+	if (!match || Number.isNaN(num)) {
+		return { number: num, kanji: "?", hiragana: "?", romaji: "?" };
 	}
 
-	// Handle ten millions (10000000-99999999)
-	if (num >= 10000000 && num < 100000000) {
-		return convertTenMillions(num);
+	const [, sign, integerDigits = "0", fractionDigits] = match;
+	const integerPart = convertToJapanese(Number(integerDigits));
+	if (!fractionDigits) {
+		return sign
+			? withMinusPrefix(integerPart, num)
+			: { ...integerPart, number: num };
 	}
 
-	// Handle hundred millions (100000000-999999999) - oku (億)
-	if (num >= 100000000 && num < 1000000000) {
-		return convertHundredMillions(num);
+	const integerReading = geminateEnding(integerPart, "ten");
+	let kanji = `${integerPart.kanji}点`;
+	let hiragana = `${integerReading.hiragana}てん`;
+	let romaji = `${integerReading.romaji}ten`;
+
+	for (const digitChar of fractionDigits) {
+		const digit = Number(digitChar);
+		const digitJapanese = basicNumbers[digit];
+		if (!digitJapanese) {
+			return { number: num, kanji: "?", hiragana: "?", romaji: "?" };
+		}
+		kanji += decimalDigitKanji[digit];
+		hiragana += digitJapanese.hiragana;
+		romaji += digitJapanese.romaji;
 	}
 
-	// Handle billions (1000000000-9999999999)
-	if (num >= 1000000000 && num < 10000000000) {
-		return convertBillions(num);
+	const result = { number: num, kanji, hiragana, romaji };
+	return sign ? withMinusPrefix(result, num) : result;
+}
+
+/**
+ * Convert a fraction to Japanese (2/3 → 三分の二 / さんぶんのに)
+ */
+export function convertFractionToJapanese(
+	numerator: number,
+	denominator: number,
+): JapaneseNumber {
+	const value = numerator / denominator;
+	const numeratorJapanese = convertToJapanese(numerator);
+	const denominatorJapanese = convertToJapanese(denominator);
+
+	if (
+		denominator <= 0 ||
+		numeratorJapanese.kanji === "?" ||
+		denominatorJapanese.kanji === "?"
+	) {
+		return { number: value, kanji: "?", hiragana: "?", romaji: "?" };
 	}
 
-	// Handle ten billions (10000000000-99999999999)
-	if (num >= 10000000000 && num < 100000000000) {
-		return convertTenBillions(num);
+	return {
+		number: value,
+		kanji: `${denominatorJapanese.kanji}分の${numeratorJapanese.kanji}`,
+		hiragana: `${denominatorJapanese.hiragana}ぶんの${numeratorJapanese.hiragana}`,
+		romaji: `${denominatorJapanese.romaji}bunno${numeratorJapanese.romaji}`,
+	};
+}
+
+/**
+ * Convert a percentage to Japanese (50 → 五十パーセント / ごじゅっパーセント)
+ */
+export function convertPercentToJapanese(
+	percent: number | string,
+): JapaneseNumber {
+	const base = convertDecimalToJapanese(percent);
+	if (base.kanji === "?") {
+		return base;
 	}
 
-	// Handle hundred billions (100000000000-999999999999)
-	if (num >= 100000000000 && num < 1000000000000) {
-		return convertHundredBillions(num);
+	const reading = geminateEnding(base, "paasento");
+	return {
+		number: base.number,
+		kanji: `${base.kanji}パーセント`,
+		hiragana: `${reading.hiragana}パーセント`,
+		romaji: `${reading.romaji}paasento`,
+	};
+}
+
+/**
+ * Convert a percentage to the traditional 割・分・厘 ratio (35.2 → 三割五分二厘).
+ * One 割 is 10%, one 分 is 1% and one 厘 is 0.1%.
+ */
+export function convertPercentToWari(percent: number): JapaneseNumber {
+	const tenthsOfPercent = Math.round(percent * 10);
+	if (tenthsOfPercent <= 0) {
+		return { number: percent, kanji: "?", hiragana: "?", romaji: "?" };
 	}
 
-	// Handle one trillion exactly
-	if (num === 1000000000000) {
-		return {
-			number: num,
-			kanji: "一兆",
-			hiragana: "いっちょう",
-			romaji: "icchou",
-		};
+	const parts = [
+		{
+			count: Math.floor(tenthsOfPercent / 100),
+			kanji: "割",
+			hiragana: "わり",
+			romaji: "wari",
+		},
+		{
+			count: Math.floor((tenthsOfPercent % 100) / 10),
+			kanji: "分",
+			hiragana: "ぶ",
+			romaji: "bu",
+		},
+		{
+			count: tenthsOfPercent % 10,
+			kanji: "厘",
+			hiragana: "りん",
+			romaji: "rin",
+		},
+	];
+
+	let kanji = "";
+	let hiragana = "";
+	let romaji = "";
+	for (const part of parts) {
+		if (part.count === 0) continue;
+		const countJapanese = convertToJapanese(part.count);
+		kanji += countJapanese.kanji + part.kanji;
+		hiragana += countJapanese.hiragana + part.hiragana;
+		romaji += countJapanese.romaji + part.romaji;
 	}
 
-	// Handle trillions (1000000000000-9999999999999)
-	if (num >= 1000000000000 && num < 10000000000000) {
-		return convertTrillions(num);
+	return { number: percent, kanji, hiragana, romaji };
+}
+
+// Myriad units: each one is 10,000 times the previous
+const bigUnits = [
+	{ exponent: 20n, kanji: "垓", hiragana: "がい", romaji: "gai" },
+	{ exponent: 16n, kanji: "京", hiragana: "けい", romaji: "kei" },
+	{ exponent: 12n, kanji: "兆", hiragana: "ちょう", romaji: "chou" },
+	{ exponent: 8n, kanji: "億", hiragana: "おく", romaji: "oku" },
+	{ exponent: 4n, kanji: "万", hiragana: "まん", romaji: "man" },
+];
+
+const maxSupportedNumber = 10n ** 24n - 1n;
+
+/**
+ * Helper function to convert numbers from 万 upwards, one four-digit
+ * group per big unit (12京3400兆 → 十二京三千四百兆)
+ */
+function convertMyriads(value: bigint): JapaneseNumber {
+	const num = Number(value);
+	if (value < 0n || value > maxSupportedNumber) {
+		return { number: num, kanji: "?", hiragana: "?", romaji: "?" };
 	}
 
-	// Handle ten trillions (10000000000000-99999999999999)
-	if (num >= 10000000000000 && num < 100000000000000) {
-		return convertTenTrillions(num);
+	let kanji = "";
+	let hiragana = "";
+	let romaji = "";
+
+	for (const unit of bigUnits) {
+		const group = Number((value / 10n ** unit.exponent) % 10000n);
+		if (group === 0) continue;
+
+		// A leading 千 is counted explicitly before big units (一千万)
+		let groupJapanese = convertToJapanese(group);
+		if (group >= 1000 && group < 2000) {
+			groupJapanese = {
+				number: group,
+				kanji: `一${groupJapanese.kanji}`,
+				hiragana: `いっ${groupJapanese.hiragana}`,
+				romaji: `is${groupJapanese.romaji}`,
+			};
+		}
+
+		const reading = geminateEnding(groupJapanese, unit.romaji);
+		kanji += groupJapanese.kanji + unit.kanji;
+		hiragana += reading.hiragana + unit.hiragana;
+		romaji += reading.romaji + unit.romaji;
 	}
 
-	// Handle hundred trillions (100000000000000-999999999999999)
-	if (num >= 100000000000000 && num < 1000000000000000) {
-		return convertHundredTrillions(num);
+	const remainder = Number(value % 10000n);
+	if (remainder > 0) {
+		const remainderJapanese = convertToJapanese(remainder);
+		kanji += remainderJapanese.kanji;
+		hiragana += remainderJapanese.hiragana;
+		romaji += remainderJapanese.romaji;
 	}
 
-	// Fallback for unsupported numbers
-	return {
-		number: num,
-		kanji: "?",
-		hiragana: "?",
-		romaji: "?",
-	};
+	return { number: num, kanji, hiragana, romaji };
 }
 
 /**
@@ -449,17 +832,131 @@ function convertThousands(num: number): JapaneseNumber {
 /**
  * Generate a random number for practice (0-999,999,999,999,999) with realistic rounding
  */
-export function generateRandomNumber(): number {
-	const rawNumber = Math.floor(Math.random() * 1000000000000000); // 0-999,999,999,999,999
+export function generateRandomNumber(
+	random: () => number = Math.random,
+): number {
+	const rawNumber = Math.floor(random() * 1000000000000000); // 0-999,999,999,999,999
 
 	// Apply realistic rounding based on magnitude
 	return roundToRealistic(rawNumber);
 }
 
+/**
+ * Generate a random bigint in [min, max], one decimal digit at a time so
+ * values past Number.MAX_SAFE_INTEGER stay uniformly distributed
+ */
+export function generateRandomBigInt(
+	min: bigint,
+	max: bigint,
+	random: () => number = Math.random,
+): bigint {
+	const span = max - min + 1n;
+	const digits = span.toString().length + 4;
+	let value = 0n;
+	for (let i = 0; i < digits; i++) {
+		value = value * 10n + BigInt(Math.floor(random() * 10));
+	}
+	return min + (value % span);
+}
+
+// Places inside a four-digit group, largest first
+const groupPlaces = [
+	{ value: 1000, kanji: "千" },
+	{ value: 100, kanji: "百" },
+	{ value: 10, kanji: "十" },
+];
+
+/**
+ * Split an integer into the reading patterns it contains: each non-zero
+ * digit with its place (八百, 三千, 十, 四), each big unit (万, 億) and the
+ * 一千 that is counted before a big unit (一千万)
+ */
+export function getNumberPatterns(num: number | bigint): string[] {
+	let value = typeof num === "bigint" ? num : BigInt(Math.trunc(num));
+	if (value < 0n) value = -value;
+	if (value > maxSupportedNumber) return [];
+
+	const patterns = new Set<string>();
+	const addGroup = (group: number, unitKanji?: string) => {
+		if (group === 0) return;
+		if (unitKanji && group >= 1000 && group < 2000) patterns.add("一千");
+		for (const place of groupPlaces) {
+			const digit = Math.floor(group / place.value) % 10;
+			if (digit === 0 || (unitKanji && place.value === 1000 && digit === 1)) {
+				continue;
+			}
+			patterns.add(
+				`${digit === 1 ? "" : decimalDigitKanji[digit]}${place.kanji}`,
+			);
+		}
+		const units = group % 10;
+		if (units > 0) patterns.add(decimalDigitKanji[units] ?? "?");
+		if (unitKanji) patterns.add(unitKanji);
+	};
+
+	for (const unit of bigUnits) {
+		addGroup(Number((value / 10n ** unit.exponent) % 10000n), unit.kanji);
+	}
+	addGroup(Number(value % 10000n));
+
+	return [...patterns];
+}
+
+/**
+ * Generate a number that contains a reading pattern from getNumberPatterns
+ * (八百 → 8xx), or null for an unknown pattern
+ */
+export function generateNumberWithPattern(
+	pattern: string,
+	random: () => number = Math.random,
+): bigint | null {
+	const unit = bigUnits.find((candidate) => candidate.kanji === pattern);
+	if (unit) {
+		const base = 10n ** unit.exponent;
+		return (
+			generateRandomBigInt(1n, 9999n, random) * base +
+			generateRandomBigInt(0n, base - 1n, random)
+		);
+	}
+
+	if (pattern === "一千") {
+		return (
+			generateRandomBigInt(1000n, 1999n, random) * 10000n +
+			generateRandomBigInt(0n, 9999n, random)
+		);
+	}
+
+	const place = groupPlaces.find((candidate) =>
+		pattern.endsWith(candidate.kanji),
+	);
+	if (place) {
+		const digitKanji = pattern.slice(0, -1);
+		const digit = digitKanji === "" ? 1 : decimalDigitKanji.indexOf(digitKanji);
+		if (digit < 2 && digitKanji !== "") return null;
+		return BigInt(digit * place.value + randomInt(0, place.value - 1, random));
+	}
+
+	const digit = decimalDigitKanji.indexOf(pattern);
+	if (digit < 1) return null;
+	return BigInt(randomInt(0, 9, random) * 10 + digit);
+}
+
 /**
  * Round numbers to realistic values based on their magnitude
  */
-export function roundToRealistic(num: number): number {
+export function roundToRealistic(num: number): number;
+export function roundToRealistic(num: bigint): bigint;
+export function roundToRealistic(num: number | bigint): number | bigint;
+export function roundToRealistic(num: number | bigint): number | bigint {
+	if (typeof num === "bigint") {
+		if (num <= BigInt(Number.MAX_SAFE_INTEGER)) {
+			return BigInt(roundToRealistic(Number(num)));
+		}
+		// Keep the four or five leading digits for 京 and 垓 (12京3400兆)
+		const step = num < 10n ** 20n ? 10n ** 12n : 10n ** 16n;
+		return ((num + step / 2n) / step) * step;
+	}
+
 	if (num < 1000) {
 		// Keep small numbers exact (0-999)
 		return num;
@@ -523,465 +1020,160 @@ export function getSupportedNumbers(): number[] {
 	return supported.sort((a, b) => a - b);
 }
 
-/**
- * Generate alternative romanization variants for a given romaji string
- * Handles common romanization differences like:
- * - Long vowels: uu <-> u, ou <-> o
- * - Y-variations: jyu <-> ju, kyu <-> ku, etc.
- * - N variations: n <-> nn before certain consonants
- */
-function generateRomajiVariants(romaji: string): string[] {
-	const variants = new Set([romaji]);
-
-	// Long vowel variations (uu <-> u, ou <-> o, etc.)
-	const longVowelMappings = [
-		{ long: "uu", short: "u" },
-		{ long: "ou", short: "o" },
-		{ long: "aa", short: "a" },
-		{ long: "ii", short: "i" },
-		{ long: "ee", short: "e" },
-	];
-
-	for (const mapping of longVowelMappings) {
-		// Add variant with long vowel replaced by short
-		if (romaji.includes(mapping.long)) {
-			variants.add(
-				romaji.replace(new RegExp(mapping.long, "g"), mapping.short),
-			);
-		}
-		// Add variant with short vowel replaced by long (for words that typically have long vowels)
-		if (romaji.includes(mapping.short) && !romaji.includes(mapping.long)) {
-			// Only replace if it's a standalone vowel or at the end
-			const longVariant = romaji.replace(
-				new RegExp(`${mapping.short}(?![aeiou])`, "g"),
-				mapping.long,
-			);
-			if (longVariant !== romaji) {
-				variants.add(longVariant);
-			}
-		}
-	}
+export type RomajiStrictness = "strict" | "lenient" | "kana-only";
 
-	// Y-sound variations (jyu <-> ju, kyu <-> ku, etc.)
-	const ySoundMappings = [
-		{ with_y: "jyu", without_y: "ju" },
-		{ with_y: "kyu", without_y: "ku" },
-		{ with_y: "syu", without_y: "su" },
-		{ with_y: "tyu", without_y: "tu" },
-		{ with_y: "nyu", without_y: "nu" },
-		{ with_y: "hyu", without_y: "hu" },
-		{ with_y: "myu", without_y: "mu" },
-		{ with_y: "ryu", without_y: "ru" },
-		{ with_y: "gyu", without_y: "gu" },
-		{ with_y: "zyu", without_y: "zu" },
-		{ with_y: "dyu", without_y: "du" },
-		{ with_y: "byu", without_y: "bu" },
-		{ with_y: "pyu", without_y: "pu" },
-	];
-
-	// Apply y-sound variations to all current variants
-	const currentVariants = Array.from(variants);
-	for (const variant of currentVariants) {
-		for (const mapping of ySoundMappings) {
-			if (variant.includes(mapping.with_y)) {
-				variants.add(
-					variant.replace(new RegExp(mapping.with_y, "g"), mapping.without_y),
-				);
-			}
-			if (variant.includes(mapping.without_y)) {
-				variants.add(
-					variant.replace(new RegExp(mapping.without_y, "g"), mapping.with_y),
-				);
-			}
-		}
-	}
-
-	// N variations (nn <-> n)
-	const finalVariants = Array.from(variants);
-	for (const variant of finalVariants) {
-		// Add double n variant
-		variants.add(variant.replace(/n(?=[bpmfv])/g, "nn"));
-		// Add single n variant
-		variants.add(variant.replace(/nn/g, "n"));
-	}
-
-	return Array.from(variants);
+// Apostrophes are optional after ん: さんおく is san'oku or sanoku
+function withoutApostrophes(romaji: string): string {
+	return romaji.replace(/'/g, "");
 }
 
 /**
- * Check if a user's romanization input matches the correct answer
- * Accounts for different romanization styles and common variations
+ * Drop the second half of long vowels (きゅう → きゅ, ごう → ご) so that
+ * juu, ju, kyuu and kyu compare equal
  */
-export function isRomajiMatch(
-	userInput: string,
-	correctRomaji: string,
-): boolean {
-	const normalizedInput = userInput.toLowerCase().trim();
-	const normalizedCorrect = correctRomaji.toLowerCase().trim();
-
-	// Exact match
-	if (normalizedInput === normalizedCorrect) {
-		return true;
+function shortenLongVowels(kana: string): string {
+	let shortened = "";
+	for (const char of kana) {
+		const vowel = toRomaji(shortened.slice(-2)).at(-1);
+		const lengthens =
+			char === "ー" ||
+			(char === "う" && (vowel === "o" || vowel === "u")) ||
+			(vowel !== "i" && toRomaji(char) === vowel);
+		if (!lengthens) shortened += char;
 	}
-
-	// Generate and check variants
-	const variants = generateRomajiVariants(normalizedCorrect);
-	return variants.some((variant) => variant === normalizedInput);
+	return shortened;
 }
 
 /**
- * Check if user input matches any valid representation of the Japanese number
+ * Check if romaji typed by the user spells the expected kana reading. The
+ * answer is converted to kana and compared, so Hepburn, Kunrei-shiki and
+ * Nihon-shiki spellings of the same reading match and other readings don't.
+ * - strict: Hepburn only (juu, jū, sanbyaku; not zyuu, ju or sannbyaku)
+ * - lenient: any system, nn for ん, and long vowels may be shortened (ju)
+ * - kana-only: romaji is never accepted
  */
-export function isAnswerCorrect(
+export function isRomajiMatch(
 	userInput: string,
-	japaneseNumber: JapaneseNumber,
+	correctReading: string,
+	strictness: RomajiStrictness = "lenient",
 ): boolean {
-	const normalizedInput = userInput.toLowerCase().trim();
-
-	// Check hiragana match
-	if (normalizedInput === japaneseNumber.hiragana) {
-		return true;
+	const romaji = userInput.normalize("NFC").toLowerCase().replace(/\s+/g, "");
+	if (strictness === "kana-only" || !/[a-zāâīîūûēêōô]/.test(romaji)) {
+		return false;
 	}
 
-	// Check kanji match
-	if (normalizedInput === japaneseNumber.kanji) {
-		return true;
+	const expected = katakanaToHiragana(toKana(correctReading.trim()));
+	if (strictness === "strict") {
+		// っち is written tch in Hepburn, or cch as in the readings we show
+		const spelling = withoutApostrophes(romaji).replace(/cch/g, "tch");
+		return [
+			toRomaji(expected),
+			toRomaji(expected, { longVowels: "marked" }),
+		].some((hepburn) => withoutApostrophes(hepburn) === spelling);
 	}
 
-	// Check romaji match with variants
-	return isRomajiMatch(normalizedInput, japaneseNumber.romaji);
+	// The same reading typed without the apostrophe after ん (sanoku)
+	const expectedWithoutApostrophes = toKana(
+		withoutApostrophes(toRomaji(expected)),
+	);
+	const typed = toKana(romaji);
+	const shortened = shortenLongVowels(typed);
+	return [expected, expectedWithoutApostrophes].some(
+		(reading) => shortenLongVowels(reading) === shortened,
+	);
 }
 
 /**
- * Helper function to convert ten thousands (10000-99999) using 万 (man)
+ * Check input against Japanese spellings of an answer (kanji and kana).
+ * Romaji is checked against each kana spelling with isRomajiMatch, so
+ * getsuyoubi, getuyoubi and getsuyōbi all match げつようび.
  */
-function convertTenThousands(num: number): JapaneseNumber {
-	const tenThousands = Math.floor(num / 10000);
-	const remainder = num % 10000;
-
-	let tenThousandsKanji: string;
-	let tenThousandsHiragana: string;
-	let tenThousandsRomaji: string;
-
-	// Get the ten thousands part
-	if (tenThousands === 1) {
-		tenThousandsKanji = "一万";
-		tenThousandsHiragana = "いちまん";
-		tenThousandsRomaji = "ichiman";
-	} else {
-		const tenThousandsJapanese = convertToJapanese(tenThousands);
-		tenThousandsKanji = `${tenThousandsJapanese.kanji}万`;
-		tenThousandsHiragana = `${tenThousandsJapanese.hiragana}まん`;
-		tenThousandsRomaji = `${tenThousandsJapanese.romaji}man`;
-	}
-
-	// Handle remainder if exists
-	if (remainder === 0) {
-		return {
-			number: num,
-			kanji: tenThousandsKanji,
-			hiragana: tenThousandsHiragana,
-			romaji: tenThousandsRomaji,
-		};
-	}
-
-	const remainderJapanese = convertToJapanese(remainder);
-	return {
-		number: num,
-		kanji: tenThousandsKanji + remainderJapanese.kanji,
-		hiragana: tenThousandsHiragana + remainderJapanese.hiragana,
-		romaji: tenThousandsRomaji + remainderJapanese.romaji,
-	};
+export function matchesJapaneseAnswer(
+	userInput: string,
+	answers: string[],
+	strictness: RomajiStrictness = "lenient",
+): boolean {
+	const guess = userInput.normalize("NFKC").toLowerCase().trim();
+	const kana = katakanaToHiragana(guess);
+	return answers.some((answer) => {
+		const spelling = answer.normalize("NFKC").trim();
+		return (
+			katakanaToHiragana(spelling) === kana ||
+			(/^[ぁ-ゖァ-ヶー]+$/.test(spelling) &&
+				isRomajiMatch(guess, spelling, strictness))
+		);
+	});
 }
 
 /**
- * Helper function to convert hundred thousands (100000-999999)
+ * Check how a correct answer reads the number: "standard", or "unusual" for
+ * accepted alternatives most speakers wouldn't use (しじゅう for 四十).
+ * Returns null when the answer is wrong.
  */
-function convertHundredThousands(num: number): JapaneseNumber {
-	const hundredThousands = Math.floor(num / 10000); // Get the X in X0000
-	const remainder = num % 10000;
-
-	// Convert the hundred thousands part (this will be 10-99)
-	const hundredThousandsJapanese = convertToJapanese(hundredThousands);
-	const baseKanji = `${hundredThousandsJapanese.kanji}万`;
-	const baseHiragana = `${hundredThousandsJapanese.hiragana}まん`;
-	const baseRomaji = `${hundredThousandsJapanese.romaji}man`;
-
-	// Handle remainder if exists
-	if (remainder === 0) {
-		return {
-			number: num,
-			kanji: baseKanji,
-			hiragana: baseHiragana,
-			romaji: baseRomaji,
-		};
-	}
-
-	const remainderJapanese = convertToJapanese(remainder);
-	return {
-		number: num,
-		kanji: baseKanji + remainderJapanese.kanji,
-		hiragana: baseHiragana + remainderJapanese.hiragana,
-		romaji: baseRomaji + remainderJapanese.romaji,
-	};
-}
-
-// Convert millions (1,000,000 - 9,999,999)
-function convertMillions(num: number): JapaneseNumber {
-	const millions = Math.floor(num / 1000000);
-	const remainder = num % 1000000;
-
-	const millionsJapanese = convertToJapanese(millions);
-	const baseKanji = `${millionsJapanese.kanji}百万`;
-	const baseHiragana = `${millionsJapanese.hiragana}ひゃくまん`;
-	const baseRomaji = `${millionsJapanese.romaji}hyakuman`;
-
-	if (remainder === 0) {
-		return {
-			number: num,
-			kanji: baseKanji,
-			hiragana: baseHiragana,
-			romaji: baseRomaji,
-		};
-	}
-
-	const remainderJapanese = convertToJapanese(remainder);
-	return {
-		number: num,
-		kanji: baseKanji + remainderJapanese.kanji,
-		hiragana: baseHiragana + remainderJapanese.hiragana,
-		romaji: baseRomaji + remainderJapanese.romaji,
-	};
-}
-
-// Convert ten millions (10,000,000 - 99,999,999)
-function convertTenMillions(num: number): JapaneseNumber {
-	const tenMillions = Math.floor(num / 1000000);
-	const remainder = num % 1000000;
-
-	const tenMillionsJapanese = convertToJapanese(tenMillions);
-	const baseKanji = `${tenMillionsJapanese.kanji}百万`;
-	const baseHiragana = `${tenMillionsJapanese.hiragana}ひゃくまん`;
-	const baseRomaji = `${tenMillionsJapanese.romaji}hyakuman`;
-
-	if (remainder === 0) {
-		return {
-			number: num,
-			kanji: baseKanji,
-			hiragana: baseHiragana,
-			romaji: baseRomaji,
-		};
-	}
-
-	const remainderJapanese = convertToJapanese(remainder);
-	return {
-		number: num,
-		kanji: baseKanji + remainderJapanese.kanji,
-		hiragana: baseHiragana + remainderJapanese.hiragana,
-		romaji: baseRomaji + remainderJapanese.romaji,
-	};
-}
-
-// Convert hundred millions (100,000,000 - 999,999,999) - oku (億)
-function convertHundredMillions(num: number): JapaneseNumber {
-	const hundredMillions = Math.floor(num / 100000000);
-	const remainder = num % 100000000;
-
-	const hundredMillionsJapanese = convertToJapanese(hundredMillions);
-	const baseKanji = `${hundredMillionsJapanese.kanji}億`;
-	const baseHiragana = `${hundredMillionsJapanese.hiragana}おく`;
-	const baseRomaji = `${hundredMillionsJapanese.romaji}oku`;
-
-	if (remainder === 0) {
-		return {
-			number: num,
-			kanji: baseKanji,
-			hiragana: baseHiragana,
-			romaji: baseRomaji,
-		};
-	}
-
-	const remainderJapanese = convertToJapanese(remainder);
-	return {
-		number: num,
-		kanji: baseKanji + remainderJapanese.kanji,
-		hiragana: baseHiragana + remainderJapanese.hiragana,
-		romaji: baseRomaji + remainderJapanese.romaji,
-	};
-}
-
-// Convert billions (1,000,000,000 - 9,999,999,999)
-function convertBillions(num: number): JapaneseNumber {
-	const billions = Math.floor(num / 100000000);
-	const remainder = num % 100000000;
-
-	const billionsJapanese = convertToJapanese(billions);
-	const baseKanji = `${billionsJapanese.kanji}億`;
-	const baseHiragana = `${billionsJapanese.hiragana}おく`;
-	const baseRomaji = `${billionsJapanese.romaji}oku`;
+export function getAnswerUsage(
+	userInput: string,
+	japaneseNumber: JapaneseNumber,
+	strictness: RomajiStrictness = "lenient",
+): ReadingUsage | null {
+	const normalizedInput = userInput.toLowerCase().trim();
 
-	if (remainder === 0) {
-		return {
-			number: num,
-			kanji: baseKanji,
-			hiragana: baseHiragana,
-			romaji: baseRomaji,
-		};
+	// Check kanji match
+	if (normalizedInput === japaneseNumber.kanji) {
+		return "standard";
 	}
 
-	const remainderJapanese = convertToJapanese(remainder);
-	return {
-		number: num,
-		kanji: baseKanji + remainderJapanese.kanji,
-		hiragana: baseHiragana + remainderJapanese.hiragana,
-		romaji: baseRomaji + remainderJapanese.romaji,
-	};
-}
-
-// Convert ten billions (10,000,000,000 - 99,999,999,999)
-function convertTenBillions(num: number): JapaneseNumber {
-	const tenBillions = Math.floor(num / 100000000);
-	const remainder = num % 100000000;
-
-	const tenBillionsJapanese = convertToJapanese(tenBillions);
-	const baseKanji = `${tenBillionsJapanese.kanji}億`;
-	const baseHiragana = `${tenBillionsJapanese.hiragana}おく`;
-	const baseRomaji = `${tenBillionsJapanese.romaji}oku`;
-
-	if (remainder === 0) {
-		return {
-			number: num,
-			kanji: baseKanji,
-			hiragana: baseHiragana,
-			romaji: baseRomaji,
-		};
+	// Check daiji match (壱萬), derived from plain integer kanji when not set
+	const daiji =
+		japaneseNumber.daiji ??
+		(/^[零一二三四五六七八九十百千万億兆京垓]+$/.test(japaneseNumber.kanji)
+			? toDaiji(japaneseNumber.kanji)
+			: undefined);
+	if (daiji && normalizedInput === daiji) {
+		return "standard";
 	}
 
-	const remainderJapanese = convertToJapanese(remainder);
-	return {
-		number: num,
-		kanji: baseKanji + remainderJapanese.kanji,
-		hiragana: baseHiragana + remainderJapanese.hiragana,
-		romaji: baseRomaji + remainderJapanese.romaji,
-	};
-}
+	const readings = getNumberReadings(japaneseNumber);
 
-// Convert hundred billions (100,000,000,000 - 999,999,999,999)
-function convertHundredBillions(num: number): JapaneseNumber {
-	const hundredBillions = Math.floor(num / 100000000);
-	const remainder = num % 100000000;
-
-	const hundredBillionsJapanese = convertToJapanese(hundredBillions);
-	const baseKanji = `${hundredBillionsJapanese.kanji}億`;
-	const baseHiragana = `${hundredBillionsJapanese.hiragana}おく`;
-	const baseRomaji = `${hundredBillionsJapanese.romaji}oku`;
-
-	if (remainder === 0) {
-		return {
-			number: num,
-			kanji: baseKanji,
-			hiragana: baseHiragana,
-			romaji: baseRomaji,
-		};
+	// Check hiragana match (katakana loanwords like マイナス may be typed either way)
+	const kana = katakanaToHiragana(normalizedInput);
+	const kanaMatch = readings.find(
+		(reading) => katakanaToHiragana(reading.hiragana) === kana,
+	);
+	if (kanaMatch) {
+		return kanaMatch.usage;
 	}
 
-	const remainderJapanese = convertToJapanese(remainder);
-	return {
-		number: num,
-		kanji: baseKanji + remainderJapanese.kanji,
-		hiragana: baseHiragana + remainderJapanese.hiragana,
-		romaji: baseRomaji + remainderJapanese.romaji,
-	};
+	// Check romaji spellings of each reading
+	const romajiMatch = readings.find((reading) =>
+		isRomajiMatch(normalizedInput, reading.hiragana, strictness),
+	);
+	return romajiMatch?.usage ?? null;
 }
 
-// Convert trillions (1,000,000,000,000 - 9,999,999,999,999)
-function convertTrillions(num: number): JapaneseNumber {
-	const trillions = Math.floor(num / 1000000000000);
-	const remainder = num % 1000000000000;
-
-	const trillionsJapanese = convertToJapanese(trillions);
-	const baseKanji = `${trillionsJapanese.kanji}兆`;
-	const baseHiragana = `${trillionsJapanese.hiragana}ちょう`;
-	const baseRomaji = `${trillionsJapanese.romaji}chou`;
-
-	if (remainder === 0) {
-		return {
-			number: num,
-			kanji: baseKanji,
-			hiragana: baseHiragana,
-			romaji: baseRomaji,
-		};
-	}
-
-	const remainderJapanese = convertToJapanese(remainder);
-	return {
-		number: num,
-		kanji: baseKanji + remainderJapanese.kanji,
-		hiragana: baseHiragana + remainderJapanese.hiragana,
-		romaji: baseRomaji + remainderJapanese.romaji,
-	};
-}
-
-// Convert ten trillions (10,000,000,000,000 - 99,999,999,999,999)
-function convertTenTrillions(num: number): JapaneseNumber {
-	const tenTrillions = Math.floor(num / 1000000000000);
-	const remainder = num % 1000000000000;
-
-	const tenTrillionsJapanese = convertToJapanese(tenTrillions);
-	const baseKanji = `${tenTrillionsJapanese.kanji}兆`;
-	const baseHiragana = `${tenTrillionsJapanese.hiragana}ちょう`;
-	const baseRomaji = `${tenTrillionsJapanese.romaji}chou`;
-
-	if (remainder === 0) {
-		return {
-			number: num,
-			kanji: baseKanji,
-			hiragana: baseHiragana,
-			romaji: baseRomaji,
-		};
-	}
-
-	const remainderJapanese = convertToJapanese(remainder);
-	return {
-		number: num,
-		kanji: baseKanji + remainderJapanese.kanji,
-		hiragana: baseHiragana + remainderJapanese.hiragana,
-		romaji: baseRomaji + remainderJapanese.romaji,
-	};
-}
-
-// Convert hundred trillions (100,000,000,000,000 - 999,999,999,999,999)
-function convertHundredTrillions(num: number): JapaneseNumber {
-	const hundredTrillions = Math.floor(num / 1000000000000);
-	const remainder = num % 1000000000000;
-
-	const hundredTrillionsJapanese = convertToJapanese(hundredTrillions);
-	const baseKanji = `${hundredTrillionsJapanese.kanji}兆`;
-	const baseHiragana = `${hundredTrillionsJapanese.hiragana}ちょう`;
-	const baseRomaji = `${hundredTrillionsJapanese.romaji}chou`;
-
-	if (remainder === 0) {
-		return {
-			number: num,
-			kanji: baseKanji,
-			hiragana: baseHiragana,
-			romaji: baseRomaji,
-		};
-	}
-
-	const remainderJapanese = convertToJapanese(remainder);
-	return {
-		number: num,
-		kanji: baseKanji + remainderJapanese.kanji,
-		hiragana: baseHiragana + remainderJapanese.hiragana,
-		romaji: baseRomaji + remainderJapanese.romaji,
-	};
+/**
+ * Check if user input matches any valid representation of the Japanese number
+ */
+export function isAnswerCorrect(
+	userInput: string,
+	japaneseNumber: JapaneseNumber,
+	strictness: RomajiStrictness = "lenient",
+): boolean {
+	return getAnswerUsage(userInput, japaneseNumber, strictness) !== null;
 }
 
 // Function to convert numbers to English words
-export function convertToEnglish(num: number): string {
-	if (num === 0) return "zero";
+export function convertToEnglish(num: number | bigint): string {
+	if (typeof num === "number" && !Number.isFinite(num)) return "?";
+	if (num === 0 || num === 0n) return "zero";
 	if (num < 0) return `negative ${convertToEnglish(-num)}`;
+	if (typeof num === "number" && !Number.isInteger(num)) {
+		// Read digits after the decimal point one by one: 3.14 → three point one four
+		const [integerDigits = "0", fractionDigits = ""] = String(num).split(".");
+		const digitWords = fractionDigits
+			.split("")
+			.map((digit) => convertToEnglish(Number(digit)));
+		return `${convertToEnglish(Number(integerDigits))} point ${digitWords.join(" ")}`;
+	}
 
 	const ones = [
 		"",
@@ -1020,33 +1212,202 @@ export function convertToEnglish(num: number): string {
 	];
 
 	const scales = [
-		{ value: 1000000000000, name: "trillion" },
-		{ value: 1000000000, name: "billion" },
-		{ value: 1000000, name: "million" },
-		{ value: 1000, name: "thousand" },
-		{ value: 100, name: "hundred" },
+		{ value: 10n ** 21n, name: "sextillion" },
+		{ value: 10n ** 18n, name: "quintillion" },
+		{ value: 10n ** 15n, name: "quadrillion" },
+		{ value: 1000000000000n, name: "trillion" },
+		{ value: 1000000000n, name: "billion" },
+		{ value: 1000000n, name: "million" },
+		{ value: 1000n, name: "thousand" },
+		{ value: 100n, name: "hundred" },
 	];
 
 	let result = "";
-	let remaining = num;
+	// Work in bigint so large values keep every digit
+	let remaining = BigInt(num);
 
 	// Handle large scales
 	for (const scale of scales) {
 		if (remaining >= scale.value) {
-			const count = Math.floor(remaining / scale.value);
+			const count = remaining / scale.value;
 			result += `${convertToEnglish(count)} ${scale.name}`;
 			remaining %= scale.value;
-			if (remaining > 0) result += " ";
+			if (remaining > 0n) result += " ";
 		}
 	}
 
 	// Handle tens and ones
-	if (remaining >= 20) {
-		result += tens[Math.floor(remaining / 10)];
-		if (remaining % 10 > 0) result += `-${ones[remaining % 10]}`;
-	} else if (remaining > 0) {
-		result += ones[remaining];
+	const small = Number(remaining);
+	if (small >= 20) {
+		result += tens[Math.floor(small / 10)];
+		if (small % 10 > 0) result += `-${ones[small % 10]}`;
+	} else if (small > 0) {
+		result += ones[small];
 	}
 
 	return result.trim();
 }
+
+// Convert a cardinal English number to its ordinal form (three → third)
+function toEnglishOrdinal(cardinal: string): string {
+	const irregular: Record<string, string> = {
+		one: "first",
+		two: "second",
+		three: "third",
+		five: "fifth",
+		eight: "eighth",
+		nine: "ninth",
+		twelve: "twelfth",
+	};
+
+	const match = /([a-z]+)$/.exec(cardinal);
+	const lastWord = match?.[1] ?? cardinal;
+	const prefix = cardinal.slice(0, cardinal.length - lastWord.length);
+
+	if (irregular[lastWord]) return prefix + irregular[lastWord];
+	if (lastWord.endsWith("y")) return `${prefix}${lastWord.slice(0, -1)}ieth`;
+	return `${prefix}${lastWord}th`;
+}
+
+// Function to convert fractions to English words (2/3 → two thirds)
+export function convertFractionToEnglish(
+	numerator: number,
+	denominator: number,
+): string {
+	const numeratorEnglish = convertToEnglish(numerator);
+	const plural = numerator !== 1;
+
+	if (denominator === 2) {
+		return `${numeratorEnglish} ${plural ? "halves" : "half"}`;
+	}
+
+	const ordinal = toEnglishOrdinal(convertToEnglish(denominator));
+	return `${numeratorEnglish} ${ordinal}${plural ? "s" : ""}`;
+}
+
+// Function to convert percentages to English words (35 → thirty-five percent)
+export function convertPercentToEnglish(percent: number): string {
+	return `${convertToEnglish(percent)} percent`;
+}
+
+/**
+ * A number as it appears in real-world text, with its Japanese and English readings
+ */
+export interface NumberExpression {
+	// digits: read digit by digit, like phone numbers (090-1234-5678)
+	kind:
+		| "integer"
+		| "negative"
+		| "decimal"
+		| "fraction"
+		| "percent"
+		| "wari"
+		| "digits";
+	// How the value is shown as a prompt (1,980 / 3.14 / 2/3 / 35%)
+	display: string;
+	// Plain numeric answer (1980 / 3.14 / 2/3 / 35%)
+	numeral: string;
+	japanese: JapaneseNumber;
+	english: string;
+	// Extra context shown with the prompt
+	hint?: string;
+}
+
+/**
+ * Wrap an integer as a number expression
+ */
+export function createIntegerExpression(
+	num: number | bigint,
+): NumberExpression {
+	return {
+		kind: num < 0 ? "negative" : "integer",
+		display: formatNumberWithCommas(num),
+		numeral: num.toString(),
+		japanese: convertToJapanese(num),
+		english: convertToEnglish(num),
+	};
+}
+
+function randomInt(
+	min: number,
+	max: number,
+	random: () => number = Math.random,
+): number {
+	return Math.floor(random() * (max - min + 1)) + min;
+}
+
+/**
+ * Generate a negative, decimal, fraction or percentage like the ones in
+ * prices, statistics and weather reports
+ */
+export function generateFractionalExpression(
+	random: () => number = Math.random,
+): NumberExpression {
+	const kinds: NumberExpression["kind"][] = [
+		"negative",
+		"decimal",
+		"fraction",
+		"percent",
+		"wari",
+	];
+	const kind = kinds[randomInt(0, kinds.length - 1, random)] ?? "decimal";
+
+	switch (kind) {
+		case "negative": {
+			// Winter temperatures
+			const temperature = -randomInt(1, 20, random);
+			return {
+				...createIntegerExpression(temperature),
+				hint: "気温 (temperature, ℃)",
+			};
+		}
+		case "fraction": {
+			const denominator = randomInt(2, 10, random);
+			const numerator = randomInt(1, denominator - 1, random);
+			return {
+				kind,
+				display: `${numerator}/${denominator}`,
+				numeral: `${numerator}/${denominator}`,
+				japanese: convertFractionToJapanese(numerator, denominator),
+				english: convertFractionToEnglish(numerator, denominator),
+			};
+		}
+		case "percent": {
+			const percent = randomInt(1, 100, random);
+			return {
+				kind,
+				display: `${percent}%`,
+				numeral: `${percent}%`,
+				japanese: convertPercentToJapanese(percent),
+				english: convertPercentToEnglish(percent),
+			};
+		}
+		case "wari": {
+			// Batting averages and discounts use 割・分・厘
+			const tenthsOfPercent = randomInt(1, 999, random);
+			const percent = tenthsOfPercent / 10;
+			return {
+				kind,
+				display: `${percent}%`,
+				numeral: `${percent}%`,
+				japanese: convertPercentToWari(percent),
+				english: convertPercentToEnglish(percent),
+				hint: "割・分・厘",
+			};
+		}
+		default: {
+			// The last decimal digit is never 0, so "2.50" can't come up
+			const decimalPlaces = randomInt(1, 2, random);
+			const digits = randomInt(0, 999, random) * 10 + randomInt(1, 9, random);
+			const value = (digits / 10 ** decimalPlaces).toFixed(decimalPlaces);
+			const japanese = convertDecimalToJapanese(value);
+			return {
+				kind: "decimal",
+				display: value,
+				numeral: value,
+				japanese,
+				english: convertToEnglish(Number(value)),
+			};
+		}
+	}
+}
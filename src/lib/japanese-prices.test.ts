@@ -0,0 +1,146 @@
+import { describe, expect, test } from "vitest";
+import {
+	addConsumptionTax,
+	convertPriceToJapanese,
+	formatManYen,
+	formatPreTax,
+	formatPrice,
+	generatePrice,
+	isPriceAnswerCorrect,
+	roundToPrice,
+} from "./japanese-prices";
+import { createSeededRandom } from "./seeded-random";
+
+describe("Japanese Prices", () => {
+	describe("roundToPrice", () => {
+		test("should keep three digits ending in 0 or 8", () => {
+			expect(roundToPrice(1983)).toBe(1980);
+			expect(roundToPrice(39812)).toBe(39800);
+			expect(roundToPrice(2450)).toBe(2480);
+			expect(roundToPrice(1004)).toBe(1000);
+			expect(roundToPrice(197)).toBe(198);
+			expect(roundToPrice(251234)).toBe(250000);
+		});
+	});
+
+	describe("addConsumptionTax", () => {
+		test("should round down after adding tax", () => {
+			expect(addConsumptionTax(1800)).toBe(1980);
+			expect(addConsumptionTax(980)).toBe(1078);
+			expect(addConsumptionTax(198, 0.08)).toBe(213);
+		});
+	});
+
+	describe("generatePrice", () => {
+		test("should generate realistic prices", () => {
+			for (let i = 0; i < 50; i++) {
+				const price = generatePrice();
+				expect(price.amount).toBeGreaterThanOrEqual(100);
+				expect(price.amount).toBeLessThan(1100000);
+				if (price.style === "tax-included") {
+					expect(price.preTax).toBeDefined();
+				} else {
+					expect(roundToPrice(price.amount)).toBe(price.amount);
+				}
+				if (price.style === "man") {
+					expect(price.amount).toBeGreaterThanOrEqual(10000);
+				}
+			}
+		});
+
+		test("should repeat prices for the same seed", () => {
+			expect(generatePrice(createSeededRandom("shop"))).toEqual(
+				generatePrice(createSeededRandom("shop")),
+			);
+		});
+	});
+
+	describe("formatPrice", () => {
+		test("should write prices like shop signs", () => {
+			expect(formatPrice({ amount: 1980, style: "yen-sign" })).toBe("¥1,980");
+			expect(formatPrice({ amount: 1980, style: "yen" })).toBe("1,980円");
+			expect(formatPrice({ amount: 39800, style: "man" })).toBe("3万9800円");
+			expect(
+				formatPrice({
+					amount: 1078,
+					style: "tax-included",
+					preTax: 980,
+					taxRate: 0.1,
+				}),
+			).toBe("税込1,078円");
+		});
+
+		test("should write 万 amounts without a remainder", () => {
+			expect(formatManYen(120000)).toBe("12万円");
+			expect(formatManYen(9800)).toBe("9,800円");
+		});
+
+		test("should describe the price before tax", () => {
+			expect(
+				formatPreTax({
+					amount: 213,
+					style: "tax-included",
+					preTax: 198,
+					taxRate: 0.08,
+				}),
+			).toBe("本体198円 + 税8%");
+			expect(formatPreTax({ amount: 198, style: "yen" })).toBeNull();
+		});
+	});
+
+	describe("convertPriceToJapanese", () => {
+		test("should read prices with えん", () => {
+			expect(convertPriceToJapanese(1980)).toMatchObject({
+				kanji: "千九百八十円",
+				hiragana: "せんきゅうひゃくはちじゅうえん",
+				romaji: "senkyuuhyakuhachijuuen",
+			});
+			expect(convertPriceToJapanese(3000).romaji).toBe("sanzen'en");
+		});
+
+		test("should read 4円 as よえん", () => {
+			expect(convertPriceToJapanese(4).hiragana).toBe("よえん");
+			expect(convertPriceToJapanese(214).hiragana).toBe("にひゃくじゅうよえん");
+			expect(convertPriceToJapanese(40).hiragana).toBe("よんじゅうえん");
+		});
+	});
+
+	describe("isPriceAnswerCorrect", () => {
+		test("should accept written amounts", () => {
+			for (const answer of [
+				"1980",
+				"1,980円",
+				"¥1,980",
+				"￥１９８０",
+				"税込1980円",
+				"千九百八十円",
+			]) {
+				expect(isPriceAnswerCorrect(answer, 1980)).toBe(true);
+			}
+			expect(isPriceAnswerCorrect("3万9800円", 39800)).toBe(true);
+			expect(isPriceAnswerCorrect("1,990円", 1980)).toBe(false);
+		});
+
+		test("should accept readings with or without えん", () => {
+			for (const answer of [
+				"せんきゅうひゃくはちじゅうえん",
+				"せんきゅうひゃくはちじゅう",
+				"senkyuuhyakuhachijuu en",
+				"senkyuuhyakuhachijuu yen",
+				"センキュウヒャクハチジュウエン",
+			]) {
+				expect(isPriceAnswerCorrect(answer, 1980)).toBe(true);
+			}
+			expect(isPriceAnswerCorrect("sanzen'en", 3000)).toBe(true);
+			expect(isPriceAnswerCorrect("sanzen en", 3000)).toBe(true);
+		});
+
+		test("should reject misread prices", () => {
+			expect(isPriceAnswerCorrect("ろくひゃくえん", 600)).toBe(false);
+			expect(isPriceAnswerCorrect("ろっぴゃくえん", 600)).toBe(true);
+			expect(isPriceAnswerCorrect("よんえん", 4)).toBe(false);
+			expect(isPriceAnswerCorrect("よえん", 4)).toBe(true);
+			expect(isPriceAnswerCorrect("yoen", 4)).toBe(true);
+		});
+	});
+});
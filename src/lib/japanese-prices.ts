@@ -0,0 +1,196 @@
+// Prices as shop signs, tags and receipts show them (¥1,980, 3万9800円,
+// 税込1,078円) and reading them aloud with 円
+
+import { katakanaToHiragana, toKana, toRomaji } from "./japanese-kana";
+import { parseJapaneseBigInt } from "./japanese-number-parser";
+import {
+	type JapaneseNumber,
+	type NumberExpression,
+	convertToJapanese,
+	createIntegerExpression,
+	formatNumberWithCommas,
+	isAnswerCorrect,
+} from "./japanese-numbers";
+
+// How a price is written
+// - yen-sign: ¥1,980 (receipts, online shops)
+// - yen: 1,980円 (shop signs, menus)
+// - man: 3万9800円 (electronics and furniture flyers)
+// - tax-included: 税込1,078円 with the price before tax beside it
+export type PriceStyle = "yen-sign" | "yen" | "man" | "tax-included";
+
+export interface Price {
+	// What is paid, tax included for 税込 prices
+	amount: number;
+	style: PriceStyle;
+	// The price before consumption tax (本体価格), for 税込 prices
+	preTax?: number;
+	// 0.1, or the reduced 0.08 for food and drink
+	taxRate?: number;
+}
+
+export const CONSUMPTION_TAX_RATE = 0.1;
+export const REDUCED_TAX_RATE = 0.08;
+
+// Price ranges from snacks to furniture, picked with equal chance
+const priceRanges: Array<[number, number]> = [
+	[100, 999],
+	[1000, 9999],
+	[10000, 99999],
+	[100000, 999999],
+];
+
+function randomInt(min: number, max: number, random: () => number): number {
+	return Math.floor(random() * (max - min + 1)) + min;
+}
+
+/**
+ * Round a number to a price a shop would charge: three significant digits,
+ * the last of them 0 or 8 (198円, 1,980円, 39,800円, 248,000円)
+ */
+export function roundToPrice(num: number): number {
+	const digits = Math.max(1, Math.floor(num).toString().length);
+	const step = 10 ** Math.max(0, digits - 3);
+	const head = Math.round(num / step);
+	const tens = Math.floor(head / 10) * 10;
+	const ending = [tens, tens + 8, tens + 10].reduce((closest, candidate) =>
+		Math.abs(candidate - head) < Math.abs(closest - head) ? candidate : closest,
+	);
+	return ending * step;
+}
+
+/**
+ * Add consumption tax, rounding down as most shops do (1,800円 → 1,980円)
+ */
+export function addConsumptionTax(
+	preTax: number,
+	taxRate = CONSUMPTION_TAX_RATE,
+): number {
+	// Round first so 1.1 × 1800 isn't 1979.9999…
+	return Math.floor(Math.round(preTax * (1 + taxRate) * 100) / 100);
+}
+
+/**
+ * Generate a realistic price in a random style
+ */
+export function generatePrice(random: () => number = Math.random): Price {
+	const [min, max] = priceRanges[
+		randomInt(0, priceRanges.length - 1, random)
+	] ?? [100, 999];
+	const price = roundToPrice(randomInt(min, max, random));
+	const styles: PriceStyle[] = ["yen-sign", "yen", "man", "tax-included"];
+	const style = styles[randomInt(0, styles.length - 1, random)] ?? "yen";
+
+	if (style === "tax-included") {
+		// Food is taxed at the reduced rate, and food is cheap
+		const taxRate =
+			price < 1000 && random() < 0.5 ? REDUCED_TAX_RATE : CONSUMPTION_TAX_RATE;
+		return {
+			amount: addConsumptionTax(price, taxRate),
+			style,
+			preTax: price,
+			taxRate,
+		};
+	}
+	// 万 notation only reads naturally from 1万円 up
+	return {
+		amount: price,
+		style: style === "man" && price < 10000 ? "yen" : style,
+	};
+}
+
+/**
+ * Write an amount in 万 notation as flyers do (39800 → 3万9800円)
+ */
+export function formatManYen(amount: number): string {
+	const man = Math.floor(amount / 10000);
+	const rest = amount % 10000;
+	if (man === 0) return `${formatNumberWithCommas(amount)}円`;
+	return `${man}万${rest === 0 ? "" : rest}円`;
+}
+
+/**
+ * Write a price in its style (¥1,980 / 1,980円 / 3万9800円 / 税込1,078円)
+ */
+export function formatPrice(price: Price): string {
+	switch (price.style) {
+		case "yen-sign":
+			return `¥${formatNumberWithCommas(price.amount)}`;
+		case "man":
+			return formatManYen(price.amount);
+		case "tax-included":
+			return `税込${formatNumberWithCommas(price.amount)}円`;
+		default:
+			return `${formatNumberWithCommas(price.amount)}円`;
+	}
+}
+
+/**
+ * Describe the price before tax (本体1,800円 + 税10%), or null
+ */
+export function formatPreTax(price: Price): string | null {
+	if (price.preTax === undefined) return null;
+	const percent = Math.round((price.taxRate ?? CONSUMPTION_TAX_RATE) * 100);
+	return `本体${formatNumberWithCommas(price.preTax)}円 + 税${percent}%`;
+}
+
+/**
+ * Read an amount of yen (1980 → せんきゅうひゃくはちじゅうえん). 4円 is よえん.
+ */
+export function convertPriceToJapanese(
+	amount: number | bigint,
+): JapaneseNumber {
+	const japanese = convertToJapanese(amount);
+	const hiragana = `${japanese.hiragana.replace(/よん$/, "よ")}えん`;
+	return {
+		...japanese,
+		kanji: `${japanese.kanji}円`,
+		hiragana,
+		romaji: toRomaji(hiragana),
+	};
+}
+
+/**
+ * Wrap a price as a number expression: the amount, shown in its style
+ */
+export function createPriceExpression(price: Price): NumberExpression {
+	return {
+		...createIntegerExpression(price.amount),
+		display: formatPrice(price),
+		hint: formatPreTax(price) ?? undefined,
+	};
+}
+
+/**
+ * Check an answer to "how much is this?". Written amounts (1980円, ¥1,980,
+ * 3万9800円, 千九百八十円) are parsed; readings must be right, with or
+ * without えん (よえん, not よんえん, for amounts ending in 4).
+ */
+export function isPriceAnswerCorrect(
+	userInput: string,
+	amount: number | bigint,
+): boolean {
+	const text = userInput
+		.normalize("NFKC")
+		.toLowerCase()
+		.trim()
+		.replace(/^(¥|\\|金|税込|税抜)/, "")
+		.replace(/\s*(円|yen)(也|なり)?$/, "");
+	if (!text) return false;
+
+	// Readings are checked as readings; the parser would take ろくひゃく too.
+	// Romaji is read before spaces go, so sanzen en stays さんぜんえん.
+	const reading = katakanaToHiragana(
+		/[a-z]/.test(text) ? toKana(text) : text,
+	).replace(/\s+/g, "");
+	if (/^[\p{Script=Hiragana}ー]+$/u.test(reading)) {
+		if (/よんえん$/.test(reading)) return false;
+		const number = reading
+			.replace(/よえん$/, "よん")
+			.replace(/えん(なり)?$/, "");
+		return isAnswerCorrect(number, convertToJapanese(amount));
+	}
+
+	const parsed = parseJapaneseBigInt(text);
+	return parsed.success && parsed.value === BigInt(amount);
+}
@@ -0,0 +1,100 @@
+import { describe, expect, test } from "vitest";
+import { matchesJapaneseAnswer } from "./japanese-numbers";
+import {
+	type RelativeDateWord,
+	convertTimeWordToJapanese,
+	createRelativeDateQuestion,
+	generateRelativeDateQuestion,
+	recurringTimeWords,
+	relativeDateWords,
+} from "./japanese-relative-dates";
+
+// Thursday
+const reference = { year: 2024, month: 3, day: 14 };
+
+function findWord(japanese: string): RelativeDateWord {
+	const word = relativeDateWords.find((entry) => entry.japanese === japanese);
+	if (!word) throw new Error(`Unknown word ${japanese}`);
+	return word;
+}
+
+describe("Japanese Relative Dates Library", () => {
+	test("should resolve day words", () => {
+		expect(
+			createRelativeDateQuestion(reference, findWord("明後日")).target.kanji,
+		).toBe("3月16日(土)");
+		expect(
+			createRelativeDateQuestion(reference, findWord("一昨日")).target.kanji,
+		).toBe("3月12日(火)");
+		expect(
+			createRelativeDateQuestion(
+				{ year: 2024, month: 2, day: 28 },
+				findWord("明日"),
+			).target.kanji,
+		).toBe("2月29日(木)");
+	});
+
+	test("should accept the resolved date with or without the year", () => {
+		const { target } = createRelativeDateQuestion(reference, findWord("明日"));
+		for (const answer of [
+			"3月15日",
+			"三月十五日",
+			"2024年3月15日(金)",
+			"さんがつじゅうごにち",
+		]) {
+			expect(target.japaneseAnswers).toContain(answer);
+		}
+		expect(target.englishAnswers).toContain("march 15");
+	});
+
+	test("should resolve week words to a weekday", () => {
+		const question = createRelativeDateQuestion(reference, findWord("来週"), 4);
+		expect(question.phrase.kanji).toBe("来週の金曜日");
+		expect(question.phrase.hiragana).toBe("らいしゅうのきんようび");
+		expect(question.phrase.japaneseAnswers).toContain("来週金曜日");
+		expect(question.target.kanji).toBe("3月22日(金)");
+
+		expect(
+			createRelativeDateQuestion(reference, findWord("先週"), 0).target.kanji,
+		).toBe("3月4日(月)");
+	});
+
+	test("should resolve month and year words across year boundaries", () => {
+		const december = { year: 2024, month: 12, day: 1 };
+		expect(
+			createRelativeDateQuestion(december, findWord("来月")).target.kanji,
+		).toBe("2025年1月");
+		expect(
+			createRelativeDateQuestion(reference, findWord("先々月")).target.kanji,
+		).toBe("2024年1月");
+		const lastYear = createRelativeDateQuestion(reference, findWord("去年"));
+		expect(lastYear.target.kanji).toBe("2023年");
+		expect(lastYear.target.hiragana).toBe("にせんにじゅうさんねん");
+	});
+
+	test("should accept every spelling of a word", () => {
+		const tomorrow = convertTimeWordToJapanese(findWord("明日"));
+		for (const answer of ["明日", "あした", "あす", "ashita", "asu"]) {
+			expect(matchesJapaneseAnswer(answer, tomorrow.japaneseAnswers)).toBe(
+				true,
+			);
+		}
+		const lastYear = convertTimeWordToJapanese(findWord("去年"));
+		expect(lastYear.japaneseAnswers).toContain("昨年");
+		expect(lastYear.japaneseAnswers).toContain("さくねん");
+
+		const everyMorning = recurringTimeWords.find(
+			(word) => word.japanese === "毎朝",
+		);
+		expect(everyMorning && convertTimeWordToJapanese(everyMorning).romaji).toBe(
+			"maiasa",
+		);
+	});
+
+	test("should generate questions with a target", () => {
+		for (let i = 0; i < 50; i++) {
+			const question = generateRelativeDateQuestion(reference);
+			expect(question.target.kanji).not.toContain("?");
+		}
+	});
+});
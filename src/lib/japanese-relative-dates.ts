@@ -0,0 +1,413 @@
+// Relative date vocabulary (今日, 明後日, 来週, 去年…) and recurring time
+// words (毎朝, 毎週…), resolved against a reference date
+
+import {
+	addDays,
+	convertFullDateToJapanese,
+	convertYearMonthToJapanese,
+	daysOfWeek,
+	getDayOfWeek,
+} from "./japanese-dates";
+import {
+	type ReadingVariants,
+	type TimeExpression,
+	combineVariants,
+	toExpression,
+} from "./japanese-time";
+import type { CalendarDate } from "./wareki";
+
+export type RelativeUnit = "day" | "week" | "month" | "year";
+
+interface WordSpelling {
+	japanese: string;
+	reading: string;
+	romaji: string;
+}
+
+export interface TimeWord extends WordSpelling {
+	english: string;
+	// Other words with the same meaning (あす for 明日, 昨年 for 去年)
+	alternatives?: WordSpelling[];
+}
+
+export interface RelativeDateWord extends TimeWord {
+	unit: RelativeUnit;
+	// Days, weeks, months or years from the reference date
+	offset: number;
+}
+
+export interface RelativeDateQuestion {
+	reference: CalendarDate;
+	word: RelativeDateWord;
+	// The word itself (明後日), or with a weekday for weeks (来週の金曜日)
+	phrase: TimeExpression;
+	// The date the word points at (3月16日(土), 2024年4月, 2025年)
+	target: TimeExpression;
+}
+
+export const relativeDateWords: RelativeDateWord[] = [
+	{
+		unit: "day",
+		offset: -2,
+		japanese: "一昨日",
+		reading: "おととい",
+		romaji: "ototoi",
+		english: "the day before yesterday",
+		alternatives: [
+			{ japanese: "一昨日", reading: "いっさくじつ", romaji: "issakujitsu" },
+		],
+	},
+	{
+		unit: "day",
+		offset: -1,
+		japanese: "昨日",
+		reading: "きのう",
+		romaji: "kinou",
+		english: "yesterday",
+		alternatives: [
+			{ japanese: "昨日", reading: "さくじつ", romaji: "sakujitsu" },
+		],
+	},
+	{
+		unit: "day",
+		offset: 0,
+		japanese: "今日",
+		reading: "きょう",
+		romaji: "kyou",
+		english: "today",
+		alternatives: [
+			{ japanese: "本日", reading: "ほんじつ", romaji: "honjitsu" },
+		],
+	},
+	{
+		unit: "day",
+		offset: 1,
+		japanese: "明日",
+		reading: "あした",
+		romaji: "ashita",
+		english: "tomorrow",
+		alternatives: [
+			{ japanese: "明日", reading: "あす", romaji: "asu" },
+			{ japanese: "明日", reading: "みょうにち", romaji: "myounichi" },
+		],
+	},
+	{
+		unit: "day",
+		offset: 2,
+		japanese: "明後日",
+		reading: "あさって",
+		romaji: "asatte",
+		english: "the day after tomorrow",
+		alternatives: [
+			{ japanese: "明後日", reading: "みょうごにち", romaji: "myougonichi" },
+		],
+	},
+	{
+		unit: "day",
+		offset: 3,
+		japanese: "明明後日",
+		reading: "しあさって",
+		romaji: "shiasatte",
+		english: "in three days",
+		alternatives: [
+			{ japanese: "明々後日", reading: "しあさって", romaji: "shiasatte" },
+		],
+	},
+	{
+		unit: "week",
+		offset: -2,
+		japanese: "先々週",
+		reading: "せんせんしゅう",
+		romaji: "sensenshuu",
+		english: "the week before last",
+		alternatives: [
+			{ japanese: "先先週", reading: "せんせんしゅう", romaji: "sensenshuu" },
+		],
+	},
+	{
+		unit: "week",
+		offset: -1,
+		japanese: "先週",
+		reading: "せんしゅう",
+		romaji: "senshuu",
+		english: "last week",
+	},
+	{
+		unit: "week",
+		offset: 0,
+		japanese: "今週",
+		reading: "こんしゅう",
+		romaji: "konshuu",
+		english: "this week",
+	},
+	{
+		unit: "week",
+		offset: 1,
+		japanese: "来週",
+		reading: "らいしゅう",
+		romaji: "raishuu",
+		english: "next week",
+	},
+	{
+		unit: "week",
+		offset: 2,
+		japanese: "再来週",
+		reading: "さらいしゅう",
+		romaji: "saraishuu",
+		english: "the week after next",
+	},
+	{
+		unit: "month",
+		offset: -2,
+		japanese: "先々月",
+		reading: "せんせんげつ",
+		romaji: "sensengetsu",
+		english: "the month before last",
+		alternatives: [
+			{ japanese: "先先月", reading: "せんせんげつ", romaji: "sensengetsu" },
+		],
+	},
+	{
+		unit: "month",
+		offset: -1,
+		japanese: "先月",
+		reading: "せんげつ",
+		romaji: "sengetsu",
+		english: "last month",
+	},
+	{
+		unit: "month",
+		offset: 0,
+		japanese: "今月",
+		reading: "こんげつ",
+		romaji: "kongetsu",
+		english: "this month",
+	},
+	{
+		unit: "month",
+		offset: 1,
+		japanese: "来月",
+		reading: "らいげつ",
+		romaji: "raigetsu",
+		english: "next month",
+	},
+	{
+		unit: "month",
+		offset: 2,
+		japanese: "再来月",
+		reading: "さらいげつ",
+		romaji: "saraigetsu",
+		english: "the month after next",
+	},
+	{
+		unit: "year",
+		offset: -2,
+		japanese: "一昨年",
+		reading: "おととし",
+		romaji: "ototoshi",
+		english: "the year before last",
+		alternatives: [
+			{ japanese: "一昨年", reading: "いっさくねん", romaji: "issakunen" },
+		],
+	},
+	{
+		unit: "year",
+		offset: -1,
+		japanese: "去年",
+		reading: "きょねん",
+		romaji: "kyonen",
+		english: "last year",
+		alternatives: [
+			{ japanese: "昨年", reading: "さくねん", romaji: "sakunen" },
+		],
+	},
+	{
+		unit: "year",
+		offset: 0,
+		japanese: "今年",
+		reading: "ことし",
+		romaji: "kotoshi",
+		english: "this year",
+	},
+	{
+		unit: "year",
+		offset: 1,
+		japanese: "来年",
+		reading: "らいねん",
+		romaji: "rainen",
+		english: "next year",
+	},
+	{
+		unit: "year",
+		offset: 2,
+		japanese: "再来年",
+		reading: "さらいねん",
+		romaji: "sarainen",
+		english: "the year after next",
+	},
+];
+
+// Recurring words have no single date, so they are practised with their meaning
+export const recurringTimeWords: TimeWord[] = [
+	{
+		japanese: "毎日",
+		reading: "まいにち",
+		romaji: "mainichi",
+		english: "every day",
+	},
+	{
+		japanese: "毎朝",
+		reading: "まいあさ",
+		romaji: "maiasa",
+		english: "every morning",
+	},
+	{
+		japanese: "毎晩",
+		reading: "まいばん",
+		romaji: "maiban",
+		english: "every night",
+	},
+	{
+		japanese: "毎週",
+		reading: "まいしゅう",
+		romaji: "maishuu",
+		english: "every week",
+	},
+	{
+		japanese: "毎月",
+		reading: "まいつき",
+		romaji: "maitsuki",
+		english: "every month",
+		alternatives: [
+			{ japanese: "毎月", reading: "まいげつ", romaji: "maigetsu" },
+		],
+	},
+	{
+		japanese: "毎年",
+		reading: "まいとし",
+		romaji: "maitoshi",
+		english: "every year",
+		alternatives: [{ japanese: "毎年", reading: "まいねん", romaji: "mainen" }],
+	},
+];
+
+function wordVariants(word: TimeWord): ReadingVariants {
+	const spellings = [word, ...(word.alternatives ?? [])];
+	return {
+		kanji: [...new Set(spellings.map((spelling) => spelling.japanese))],
+		hiragana: [...new Set(spellings.map((spelling) => spelling.reading))],
+		romaji: [...new Set(spellings.map((spelling) => spelling.romaji))],
+	};
+}
+
+/**
+ * Convert a time word to an expression accepting every spelling
+ */
+export function convertTimeWordToJapanese(word: TimeWord): TimeExpression {
+	return toExpression(wordVariants(word), word.english, [word.english]);
+}
+
+/**
+ * A date target answered with or without the year (3月16日 or 2024年3月16日)
+ */
+function dateTarget(date: CalendarDate): TimeExpression {
+	const { monthDay, seireki } = convertFullDateToJapanese(date);
+	return {
+		...monthDay,
+		japaneseAnswers: [...monthDay.japaneseAnswers, ...seireki.japaneseAnswers],
+		unusualAnswers: [...monthDay.unusualAnswers, ...seireki.unusualAnswers],
+		englishAnswers: [...monthDay.englishAnswers, ...seireki.englishAnswers],
+	};
+}
+
+function addMonths(
+	date: CalendarDate,
+	months: number,
+): { year: number; month: number } {
+	const monthIndex = date.year * 12 + date.month - 1 + months;
+	return { year: Math.floor(monthIndex / 12), month: (monthIndex % 12) + 1 };
+}
+
+/**
+ * Resolve a relative date word against a reference date. Week words need a
+ * weekday (0 = Monday) and become 来週の金曜日.
+ */
+export function createRelativeDateQuestion(
+	reference: CalendarDate,
+	word: RelativeDateWord,
+	weekdayIndex = 0,
+): RelativeDateQuestion {
+	switch (word.unit) {
+		case "day":
+			return {
+				reference,
+				word,
+				phrase: convertTimeWordToJapanese(word),
+				target: dateTarget(addDays(reference, word.offset)),
+			};
+
+		case "week": {
+			const weekday = daysOfWeek[weekdayIndex];
+			if (!weekday) throw new Error("Invalid day of the week");
+
+			const referenceWeekday = daysOfWeek.indexOf(getDayOfWeek(reference));
+			const date = addDays(
+				reference,
+				word.offset * 7 + weekdayIndex - referenceWeekday,
+			);
+			const english = `${weekday.english} ${word.english}`;
+			return {
+				reference,
+				word,
+				phrase: toExpression(
+					combineVariants([
+						wordVariants(word),
+						{ kanji: ["の", ""], hiragana: ["の"], romaji: ["no"] },
+						{
+							kanji: [weekday.japanese],
+							hiragana: [weekday.reading],
+							romaji: [weekday.romaji],
+						},
+					]),
+					english,
+					[english],
+				),
+				target: dateTarget(date),
+			};
+		}
+
+		case "month": {
+			const { year, month } = addMonths(reference, word.offset);
+			return {
+				reference,
+				word,
+				phrase: convertTimeWordToJapanese(word),
+				target: convertYearMonthToJapanese(year, month),
+			};
+		}
+
+		case "year":
+			return {
+				reference,
+				word,
+				phrase: convertTimeWordToJapanese(word),
+				target: convertYearMonthToJapanese(reference.year + word.offset),
+			};
+	}
+}
+
+/**
+ * Generate a question for a relative date word, random unless given
+ */
+export function generateRelativeDateQuestion(
+	reference: CalendarDate,
+	word?: RelativeDateWord,
+	random: () => number = Math.random,
+): RelativeDateQuestion {
+	const picked =
+		word ?? relativeDateWords[Math.floor(random() * relativeDateWords.length)];
+	if (!picked) throw new Error("No relative date words defined");
+
+	const weekdayIndex = Math.floor(random() * daysOfWeek.length);
+	return createRelativeDateQuestion(reference, picked, weekdayIndex);
+}
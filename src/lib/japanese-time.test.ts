@@ -0,0 +1,177 @@
+import { describe, expect, test } from "vitest";
+import { matchesJapaneseAnswer } from "./japanese-numbers";
+import {
+	type DurationUnit,
+	type TimeExpression,
+	convertDurationToJapanese,
+	convertTimeToJapanese,
+	generateDuration,
+	generateTimeOfDay,
+} from "./japanese-time";
+
+function durationReading(amount: number, unit: DurationUnit): string {
+	return convertDurationToJapanese(amount, unit).hiragana;
+}
+
+// English answers as typed, Japanese ones through their kana readings
+function acceptsAnswer(answer: string, expression: TimeExpression): boolean {
+	return (
+		expression.englishAnswers.includes(answer.toLowerCase()) ||
+		matchesJapaneseAnswer(answer, expression.japaneseAnswers)
+	);
+}
+
+describe("Japanese Time Library", () => {
+	describe("convertTimeToJapanese", () => {
+		test("should read hours with よじ, しちじ and くじ", () => {
+			expect(convertTimeToJapanese(4, 0).hiragana).toBe("ごぜんよじ");
+			expect(convertTimeToJapanese(7, 0).hiragana).toBe("ごぜんしちじ");
+			expect(convertTimeToJapanese(9, 0).hiragana).toBe("ごぜんくじ");
+			expect(convertTimeToJapanese(21, 0).kanji).toBe("午後九時");
+			expect(convertTimeToJapanese(21, 0).romaji).toBe("gogokuji");
+		});
+
+		test("should apply ふん/ぷん sound changes to minutes", () => {
+			expect(convertTimeToJapanese(10, 1).hiragana).toBe(
+				"ごぜんじゅうじいっぷん",
+			);
+			expect(convertTimeToJapanese(10, 2).hiragana).toBe(
+				"ごぜんじゅうじにふん",
+			);
+			expect(convertTimeToJapanese(10, 3).hiragana).toBe(
+				"ごぜんじゅうじさんぷん",
+			);
+			expect(convertTimeToJapanese(10, 15).hiragana).toBe(
+				"ごぜんじゅうじじゅうごふん",
+			);
+			expect(convertTimeToJapanese(10, 20).hiragana).toBe(
+				"ごぜんじゅうじにじゅっぷん",
+			);
+		});
+
+		test("should use 半 for half past", () => {
+			const result = convertTimeToJapanese(15, 30);
+			expect(result.kanji).toBe("午後三時半");
+			expect(result.hiragana).toBe("ごごさんじはん");
+			expect(result.romaji).toBe("gogosanjihan");
+			expect(result.english).toBe("3:30 PM");
+		});
+
+		test("should accept every spelling of a time", () => {
+			const result = convertTimeToJapanese(15, 30);
+			for (const answer of [
+				"午後三時半",
+				"午後3時半",
+				"午後三時三十分",
+				"午後3時30分",
+				"十五時半",
+				"15時30分",
+				"ごごさんじさんじゅっぷん",
+				"ごごさんじさんじっぷん",
+				"じゅうごじはん",
+				"gogosanjihan",
+				"3:30 pm",
+				"15:30",
+			]) {
+				expect(acceptsAnswer(answer, result)).toBe(true);
+			}
+			expect(acceptsAnswer("ごぜんさんじはん", result)).toBe(false);
+		});
+
+		test("should accept but flag なな for seven o'clock", () => {
+			const result = convertTimeToJapanese(19, 0);
+			expect(acceptsAnswer("ごごしちじ", result)).toBe(true);
+			expect(acceptsAnswer("ごごななじ", result)).toBe(true);
+			expect(result.unusualAnswers).toContain("ごごななじ");
+			expect(result.unusualAnswers).not.toContain("ごごしちじ");
+			expect(acceptsAnswer("ごごくじ", convertTimeToJapanese(21, 0))).toBe(
+				true,
+			);
+			expect(acceptsAnswer("ごごきゅうじ", convertTimeToJapanese(21, 0))).toBe(
+				false,
+			);
+		});
+
+		test("should accept Kunrei-shiki romaji", () => {
+			const result = convertTimeToJapanese(19, 0);
+			expect(acceptsAnswer("gogo sitizi", result)).toBe(true);
+			expect(acceptsAnswer("gogo sichiji", result)).toBe(true);
+			expect(acceptsAnswer("gogo hachiji", result)).toBe(false);
+		});
+
+		test("should handle midnight and noon", () => {
+			expect(convertTimeToJapanese(0, 0).kanji).toBe("午前十二時");
+			expect(convertTimeToJapanese(12, 0).kanji).toBe("午後十二時");
+			expect(convertTimeToJapanese(0, 5).english).toBe("12:05 AM");
+			expect(acceptsAnswer("れいじごふん", convertTimeToJapanese(0, 5))).toBe(
+				true,
+			);
+		});
+	});
+
+	describe("convertDurationToJapanese", () => {
+		test("should convert 時間", () => {
+			expect(durationReading(4, "hours")).toBe("よじかん");
+			expect(durationReading(9, "hours")).toBe("くじかん");
+			expect(durationReading(14, "hours")).toBe("じゅうよじかん");
+			expect(convertDurationToJapanese(7, "hours").unusualAnswers).toEqual([
+				"ななじかん",
+			]);
+			expect(convertDurationToJapanese(1, "hours").english).toBe("1 hour");
+		});
+
+		test("should convert 分間", () => {
+			expect(durationReading(1, "minutes")).toBe("いっぷんかん");
+			expect(durationReading(5, "minutes")).toBe("ごふんかん");
+			expect(durationReading(10, "minutes")).toBe("じゅっぷんかん");
+			expect(convertDurationToJapanese(7, "minutes").japaneseAnswers).toContain(
+				"しちふんかん",
+			);
+			expect(convertDurationToJapanese(7, "minutes").unusualAnswers).toEqual(
+				[],
+			);
+		});
+
+		test("should convert 週間", () => {
+			expect(durationReading(1, "weeks")).toBe("いっしゅうかん");
+			expect(durationReading(3, "weeks")).toBe("さんしゅうかん");
+			expect(durationReading(8, "weeks")).toBe("はっしゅうかん");
+			expect(convertDurationToJapanese(1, "weeks").romaji).toBe("isshuukan");
+		});
+
+		test("should convert か月 and accept every spelling", () => {
+			const result = convertDurationToJapanese(6, "months");
+			expect(result.kanji).toBe("六か月");
+			expect(result.hiragana).toBe("ろっかげつ");
+			for (const answer of [
+				"六ヶ月",
+				"6ヵ月",
+				"6カ月",
+				"ろっかげつ",
+				"rokkagetsu",
+				"6 months",
+				"six months",
+			]) {
+				expect(acceptsAnswer(answer, result)).toBe(true);
+			}
+			expect(durationReading(10, "months")).toBe("じゅっかげつ");
+			expect(
+				acceptsAnswer("じっかげつ", convertDurationToJapanese(10, "months")),
+			).toBe(true);
+		});
+	});
+
+	describe("generators", () => {
+		test("should generate valid times and durations", () => {
+			for (let i = 0; i < 100; i++) {
+				const { hour, minute } = generateTimeOfDay();
+				expect(convertTimeToJapanese(hour, minute).kanji).not.toContain("?");
+
+				const { amount, unit } = generateDuration();
+				expect(convertDurationToJapanese(amount, unit).kanji).not.toContain(
+					"?",
+				);
+			}
+		});
+	});
+});
@@ -0,0 +1,253 @@
+// Japanese time-of-day (時・分) and duration (時間・分間・週間・か月) utilities
+
+import { type CounterId, convertWithCounter } from "./japanese-counters";
+import { convertToEnglish } from "./japanese-numbers";
+
+export type DurationUnit = "hours" | "minutes" | "weeks" | "months";
+
+export interface TimeExpression {
+	kanji: string;
+	hiragana: string;
+	romaji: string;
+	english: string;
+	// Every accepted Japanese spelling in kanji and kana; romaji answers are
+	// checked against the kana (matchesJapaneseAnswer)
+	japaneseAnswers: string[];
+	// Accepted kana spellings most speakers wouldn't use (ごごななじ)
+	unusualAnswers: string[];
+	// Every accepted English spelling (3:30 pm, 15:30)
+	englishAnswers: string[];
+}
+
+// Spellings of one part of an expression; the first entry is the canonical one
+export interface ReadingVariants {
+	kanji: string[];
+	hiragana: string[];
+	romaji: string[];
+	// Kana spellings that are accepted but flagged (ななじ)
+	unusual?: string[];
+}
+
+const durationCounters: Record<
+	DurationUnit,
+	{ counterId: CounterId; singular: string; plural: string }
+> = {
+	hours: { counterId: "jikan", singular: "hour", plural: "hours" },
+	minutes: { counterId: "funkan", singular: "minute", plural: "minutes" },
+	weeks: { counterId: "shuukan", singular: "week", plural: "weeks" },
+	months: { counterId: "kagetsu", singular: "month", plural: "months" },
+};
+
+// か月 is also written ヶ月, カ月, ヵ月, ケ月 and 箇月
+const kagetsuSpellings = ["か月", "ヶ月", "カ月", "ヵ月", "ケ月", "箇月"];
+
+function unique(values: string[]): string[] {
+	return [...new Set(values)];
+}
+
+/**
+ * Collect every reading of a counted number, adding じっ for じゅっ
+ * (じっぷん is the traditional reading of じゅっぷん). Unusual readings of
+ * the counter (ななじ) are flagged.
+ */
+export function countedVariants(
+	num: number,
+	counterId: CounterId,
+): ReadingVariants {
+	const counted = convertWithCounter(num, counterId);
+	const readings = [counted, ...counted.alternatives];
+
+	const hiragana = readings.map((reading) => reading.hiragana);
+	const romaji = readings.map((reading) => reading.romaji);
+	for (const reading of readings) {
+		if (reading.hiragana.includes("じゅっ")) {
+			hiragana.push(reading.hiragana.replace(/じゅっ/g, "じっ"));
+			romaji.push(reading.romaji.replace(/ju(?=[kstpc])/g, "ji"));
+		}
+	}
+
+	const counterKanji = counted.kanji.replace(
+		/^[〇零一二三四五六七八九十百千万]+/,
+		"",
+	);
+	return {
+		kanji: [counted.kanji, `${num}${counterKanji}`],
+		hiragana: unique(hiragana),
+		romaji: unique(romaji),
+		unusual: counted.alternatives
+			.filter((reading) => reading.usage === "unusual")
+			.map((reading) => reading.hiragana),
+	};
+}
+
+/**
+ * Join parts together, producing every combination of their spellings. A
+ * combination is unusual when any of its parts is.
+ */
+export function combineVariants(parts: ReadingVariants[]): ReadingVariants {
+	const combine = (lists: string[][]) =>
+		lists.reduce<string[]>(
+			(results, options) =>
+				results.flatMap((prefix) => options.map((option) => prefix + option)),
+			[""],
+		);
+	const hiragana = parts.reduce<Array<{ text: string; unusual: boolean }>>(
+		(results, part) =>
+			results.flatMap((prefix) =>
+				part.hiragana.map((option) => ({
+					text: prefix.text + option,
+					unusual: prefix.unusual || (part.unusual?.includes(option) ?? false),
+				})),
+			),
+		[{ text: "", unusual: false }],
+	);
+
+	return {
+		kanji: unique(combine(parts.map((part) => part.kanji))),
+		hiragana: unique(hiragana.map(({ text }) => text)),
+		romaji: unique(combine(parts.map((part) => part.romaji))),
+		unusual: unique(
+			hiragana.filter(({ unusual }) => unusual).map(({ text }) => text),
+		),
+	};
+}
+
+/**
+ * Build an expression from its spellings; the first of each is canonical
+ */
+export function toExpression(
+	variants: ReadingVariants,
+	english: string,
+	englishAnswers: string[],
+): TimeExpression {
+	return {
+		kanji: variants.kanji[0] ?? "?",
+		hiragana: variants.hiragana[0] ?? "?",
+		romaji: variants.romaji[0] ?? "?",
+		english,
+		japaneseAnswers: unique([...variants.kanji, ...variants.hiragana]),
+		unusualAnswers: unique(variants.unusual ?? []),
+		englishAnswers: unique(
+			englishAnswers.map((answer) => answer.toLowerCase()),
+		),
+	};
+}
+
+/**
+ * Convert a time of day to Japanese (15:30 → 午後三時半 / ごごさんじはん).
+ * The 24-hour form (十五時半) and 三十分 for 半 are accepted as well.
+ */
+export function convertTimeToJapanese(
+	hour: number,
+	minute: number,
+): TimeExpression {
+	const isAfternoon = hour >= 12;
+	const hour12 = hour % 12 === 0 ? 12 : hour % 12;
+
+	const period: ReadingVariants = isAfternoon
+		? { kanji: ["午後"], hiragana: ["ごご"], romaji: ["gogo"] }
+		: { kanji: ["午前"], hiragana: ["ごぜん"], romaji: ["gozen"] };
+
+	let minutes: ReadingVariants = { kanji: [""], hiragana: [""], romaji: [""] };
+	if (minute === 30) {
+		const thirty = countedVariants(30, "fun");
+		minutes = {
+			kanji: ["半", ...thirty.kanji],
+			hiragana: ["はん", ...thirty.hiragana],
+			romaji: ["han", ...thirty.romaji],
+			unusual: thirty.unusual,
+		};
+	} else if (minute > 0) {
+		minutes = countedVariants(minute, "fun");
+	}
+
+	const twelveHour = combineVariants([
+		period,
+		countedVariants(hour12, "ji"),
+		minutes,
+	]);
+	const twentyFourHour = combineVariants([
+		countedVariants(hour, "ji"),
+		minutes,
+	]);
+
+	const paddedMinute = minute.toString().padStart(2, "0");
+	const suffix = isAfternoon ? "PM" : "AM";
+	const english = `${hour12}:${paddedMinute} ${suffix}`;
+
+	return toExpression(
+		{
+			kanji: [...twelveHour.kanji, ...twentyFourHour.kanji],
+			hiragana: [...twelveHour.hiragana, ...twentyFourHour.hiragana],
+			romaji: [...twelveHour.romaji, ...twentyFourHour.romaji],
+			unusual: [
+				...(twelveHour.unusual ?? []),
+				...(twentyFourHour.unusual ?? []),
+			],
+		},
+		english,
+		[
+			english,
+			`${hour12}:${paddedMinute}${suffix}`,
+			`${hour12}:${paddedMinute} ${isAfternoon ? "p.m." : "a.m."}`,
+			`${hour.toString().padStart(2, "0")}:${paddedMinute}`,
+			`${hour}:${paddedMinute}`,
+		],
+	);
+}
+
+/**
+ * Convert a duration to Japanese (3 weeks → 三週間 / さんしゅうかん)
+ */
+export function convertDurationToJapanese(
+	amount: number,
+	unit: DurationUnit,
+): TimeExpression {
+	const { counterId, singular, plural } = durationCounters[unit];
+	const variants = countedVariants(amount, counterId);
+
+	if (unit === "months") {
+		variants.kanji = variants.kanji.flatMap((kanji) =>
+			kagetsuSpellings.map((spelling) => kanji.replace("か月", spelling)),
+		);
+	}
+
+	const unitName = amount === 1 ? singular : plural;
+	const english = `${amount} ${unitName}`;
+	return toExpression(variants, english, [
+		english,
+		`${convertToEnglish(amount)} ${unitName}`,
+	]);
+}
+
+/**
+ * Generate a random time of day, on the hour, half hour or any minute
+ */
+export function generateTimeOfDay(random: () => number = Math.random): {
+	hour: number;
+	minute: number;
+} {
+	const hour = Math.floor(random() * 24);
+	const roll = random();
+	const minute = roll < 0.25 ? 0 : roll < 0.5 ? 30 : Math.floor(random() * 60);
+	return { hour, minute };
+}
+
+/**
+ * Generate a random realistic duration
+ */
+export function generateDuration(random: () => number = Math.random): {
+	amount: number;
+	unit: DurationUnit;
+} {
+	const ranges: Record<DurationUnit, number> = {
+		hours: 24,
+		minutes: 60,
+		weeks: 12,
+		months: 12,
+	};
+	const units = Object.keys(ranges) as DurationUnit[];
+	const unit = units[Math.floor(random() * units.length)] ?? "hours";
+	const amount = Math.floor(random() * ranges[unit]) + 1;
+	return { amount, unit };
+}
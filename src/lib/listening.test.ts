@@ -0,0 +1,67 @@
+import { describe, expect, test } from "vitest";
+import {
+	findJapaneseVoice,
+	getCorrectStreak,
+	getListeningSpeed,
+	getReplaysLeft,
+} from "./listening";
+import type { QuizAnswer } from "./quiz-engine";
+
+function answers(...results: boolean[]): QuizAnswer[] {
+	return results.map((isCorrect) => ({
+		question: "よんじゅうに",
+		correctAnswer: "42",
+		userAnswer: "42",
+		timeMs: 2000,
+		isCorrect,
+	}));
+}
+
+describe("Listening", () => {
+	describe("getCorrectStreak", () => {
+		test("should count correct answers since the last miss", () => {
+			expect(getCorrectStreak([])).toBe(0);
+			expect(getCorrectStreak(answers(true, false, true, true))).toBe(2);
+			expect(getCorrectStreak(answers(true, true, false))).toBe(0);
+		});
+	});
+
+	describe("getListeningSpeed", () => {
+		test("should speed up with the streak and drop back after a miss", () => {
+			const ramp = { maxReplays: 2, speedRamp: true };
+			expect(getListeningSpeed(0.8, ramp, [])).toBe(0.8);
+			expect(getListeningSpeed(0.8, ramp, answers(true, true, true))).toBe(1.1);
+			expect(getListeningSpeed(0.8, ramp, answers(true, true, false))).toBe(
+				0.8,
+			);
+		});
+
+		test("should stop at the top speed", () => {
+			const ramp = { maxReplays: null, speedRamp: true };
+			const streak = answers(...Array<boolean>(20).fill(true));
+			expect(getListeningSpeed(0.8, ramp, streak)).toBe(1.5);
+		});
+
+		test("should keep the base speed without a ramp", () => {
+			const steady = { maxReplays: 2, speedRamp: false };
+			expect(getListeningSpeed(0.6, steady, answers(true, true))).toBe(0.6);
+		});
+	});
+
+	describe("getReplaysLeft", () => {
+		test("should count down to zero, or stay unlimited", () => {
+			expect(getReplaysLeft(2, 0)).toBe(2);
+			expect(getReplaysLeft(2, 3)).toBe(0);
+			expect(getReplaysLeft(null, 10)).toBeNull();
+		});
+	});
+
+	describe("findJapaneseVoice", () => {
+		test("should prefer a ja-JP voice", () => {
+			const voices = [{ lang: "en-US" }, { lang: "ja" }, { lang: "ja_JP" }];
+			expect(findJapaneseVoice(voices)).toBe(voices[2]);
+			expect(findJapaneseVoice(voices.slice(0, 2))).toBe(voices[1]);
+			expect(findJapaneseVoice([{ lang: "en-GB" }])).toBeUndefined();
+		});
+	});
+});
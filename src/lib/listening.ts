@@ -0,0 +1,185 @@
+// Listening practice: the prompt is only spoken, with a limited number of
+// replays and a playback speed that ramps up while answers keep coming right.
+// Browsers without a Japanese voice fall back to showing the kana reading.
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { QuizAnswer } from "./quiz-engine";
+
+export interface ListeningSettings {
+	// Replays allowed after the first play; null for unlimited
+	maxReplays: number | null;
+	// Speed up after every correct answer in a row
+	speedRamp: boolean;
+}
+
+export const defaultListeningSettings: ListeningSettings = {
+	maxReplays: 2,
+	speedRamp: true,
+};
+
+export type VoiceStatus = "loading" | "available" | "missing";
+
+const SPEED_STEP = 0.1;
+const MAX_SPEED = 1.5;
+// Some browsers never fire voiceschanged when no voices are installed
+const VOICE_LOAD_TIMEOUT_MS = 1500;
+
+/**
+ * Count the correct answers at the end of the log
+ */
+export function getCorrectStreak(answers: QuizAnswer[]): number {
+	let streak = 0;
+	for (let i = answers.length - 1; i >= 0 && answers[i]?.isCorrect; i--) {
+		streak++;
+	}
+	return streak;
+}
+
+/**
+ * Work out the playback rate: the base speed, raised a step for each correct
+ * answer in a row when the ramp is on
+ */
+export function getListeningSpeed(
+	baseSpeed: number,
+	settings: ListeningSettings,
+	answers: QuizAnswer[],
+): number {
+	if (!settings.speedRamp) return baseSpeed;
+	const speed = baseSpeed + getCorrectStreak(answers) * SPEED_STEP;
+	return Math.round(Math.min(Math.max(baseSpeed, MAX_SPEED), speed) * 10) / 10;
+}
+
+/**
+ * Get the replays left, or null when replays are unlimited
+ */
+export function getReplaysLeft(
+	maxReplays: number | null,
+	replaysUsed: number,
+): number | null {
+	return maxReplays === null ? null : Math.max(0, maxReplays - replaysUsed);
+}
+
+/**
+ * Pick a Japanese voice, preferring ja-JP over other Japanese locales
+ */
+export function findJapaneseVoice<TVoice extends { lang: string }>(
+	voices: TVoice[],
+): TVoice | undefined {
+	const normalized = (voice: TVoice) => voice.lang.replace("_", "-");
+	return (
+		voices.find((voice) => normalized(voice) === "ja-JP") ??
+		voices.find((voice) => normalized(voice).startsWith("ja"))
+	);
+}
+
+/**
+ * Speak Japanese text, replacing anything still playing
+ */
+export function speakJapaneseText(
+	text: string,
+	rate: number,
+	voice?: SpeechSynthesisVoice,
+) {
+	if (!("speechSynthesis" in window)) return;
+	window.speechSynthesis.cancel();
+	const utterance = new SpeechSynthesisUtterance(text);
+	utterance.lang = "ja-JP";
+	utterance.rate = rate;
+	utterance.pitch = 1.0;
+	if (voice) utterance.voice = voice;
+	window.speechSynthesis.speak(utterance);
+}
+
+/**
+ * Find the browser's Japanese voice. Voices load asynchronously, so the
+ * status stays "loading" until they arrive or the wait times out.
+ */
+export function useJapaneseVoice(): {
+	status: VoiceStatus;
+	voice?: SpeechSynthesisVoice;
+} {
+	const [voices, setVoices] = useState<SpeechSynthesisVoice[] | null>(null);
+
+	useEffect(() => {
+		if (!("speechSynthesis" in window)) {
+			setVoices([]);
+			return;
+		}
+		const synthesis = window.speechSynthesis;
+		const update = () => {
+			const loaded = synthesis.getVoices();
+			if (loaded.length > 0) setVoices(loaded);
+		};
+		update();
+		synthesis.addEventListener("voiceschanged", update);
+		const timeout = setTimeout(() => {
+			setVoices((current) => current ?? synthesis.getVoices());
+		}, VOICE_LOAD_TIMEOUT_MS);
+		return () => {
+			synthesis.removeEventListener("voiceschanged", update);
+			clearTimeout(timeout);
+		};
+	}, []);
+
+	if (voices === null) return { status: "loading" };
+	const voice = findJapaneseVoice(voices);
+	return voice ? { status: "available", voice } : { status: "missing" };
+}
+
+export interface ListeningController {
+	status: VoiceStatus;
+	// null when replays are unlimited
+	replaysLeft: number | null;
+	replay: () => void;
+}
+
+/**
+ * Play each new prompt once as soon as a Japanese voice is ready, and count
+ * the replays. questionKey changes with every question, so the same text
+ * asked twice in a row is still played.
+ */
+export function useListening({
+	text,
+	questionKey,
+	rate,
+	maxReplays,
+}: {
+	text: string | null;
+	questionKey: number;
+	rate: number;
+	maxReplays: number | null;
+}): ListeningController {
+	const { status, voice } = useJapaneseVoice();
+	const [replays, setReplays] = useState({ questionKey, used: 0 });
+	const replaysUsed = replays.questionKey === questionKey ? replays.used : 0;
+
+	// Read the latest rate and voice without replaying on every change
+	const playbackRef = useRef({ rate, voice });
+	playbackRef.current = { rate, voice };
+
+	const playedKeyRef = useRef<number | null>(null);
+	useEffect(() => {
+		if (!text || status !== "available") return;
+		if (playedKeyRef.current === questionKey) return;
+		playedKeyRef.current = questionKey;
+		speakJapaneseText(
+			text,
+			playbackRef.current.rate,
+			playbackRef.current.voice,
+		);
+	}, [text, questionKey, status]);
+
+	const replaysLeft = getReplaysLeft(maxReplays, replaysUsed);
+
+	const replay = useCallback(() => {
+		if (!text || status !== "available" || replaysLeft === 0) return;
+		setReplays({ questionKey, used: replaysUsed + 1 });
+		speakJapaneseText(
+			text,
+			playbackRef.current.rate,
+			playbackRef.current.voice,
+		);
+	}, [text, status, replaysLeft, questionKey, replaysUsed]);
+
+	return { status, replaysLeft, replay };
+}
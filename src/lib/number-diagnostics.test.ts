@@ -0,0 +1,74 @@
+import { describe, expect, test } from "vitest";
+import { convertToJapanese } from "./japanese-numbers";
+import { diagnoseNumberMistake, summarizeMistakes } from "./number-diagnostics";
+
+function diagnose(answer: string, num: number): string[] {
+	return diagnoseNumberMistake(answer, convertToJapanese(num));
+}
+
+describe("Number Diagnostics", () => {
+	describe("diagnoseNumberMistake", () => {
+		test("should spot missed sound changes", () => {
+			expect(diagnose("さんひゃく", 300)).toEqual(["rendaku"]);
+			expect(diagnose("ろくひゃく", 600)).toEqual(["rendaku"]);
+			expect(diagnose("はちせん", 8000)).toEqual(["rendaku"]);
+			expect(diagnose("sanhyaku", 300)).toEqual(["rendaku"]);
+			expect(diagnose("rokuhyaku", 600)).toEqual(["rendaku"]);
+		});
+
+		test("should spot よん/し and なな/しち confusion", () => {
+			expect(diagnose("しひゃく", 400)).toEqual(["yon-shi"]);
+			expect(diagnose("shisen", 4000)).toEqual(["yon-shi"]);
+			expect(diagnose("しちひゃく", 700)).toEqual(["nana-shichi"]);
+			expect(diagnose("shichijuu", 70)).toEqual(["nana-shichi"]);
+		});
+
+		test("should spot a dropped 一 before 千万", () => {
+			expect(diagnose("せんまん", 10000000)).toEqual(["dropped-ichi"]);
+			expect(diagnose("senman", 10000000)).toEqual(["dropped-ichi"]);
+			expect(diagnose("千万", 10000000)).toEqual(["dropped-ichi"]);
+		});
+
+		test("should spot long-vowel slips", () => {
+			expect(diagnose("じゅに", 12)).toEqual(["long-vowel"]);
+			expect(diagnose("kyu", 9)).toEqual(["long-vowel"]);
+			expect(diagnose("jū", 10)).toEqual(["long-vowel"]);
+		});
+
+		test("should spot 万/億 grouping mistakes", () => {
+			expect(diagnose("ひゃくにじゅうまん", 12000000)).toEqual(["grouping"]);
+			expect(diagnose("120万", 12000000)).toEqual(["grouping"]);
+			expect(diagnose("さんおく", 30000000)).toEqual(["grouping"]);
+		});
+
+		test("should label several slips in one answer", () => {
+			expect(diagnose("さんせんしちひゃく", 3700)).toEqual([
+				"nana-shichi",
+				"rendaku",
+			]);
+		});
+
+		test("should fall back to other, and ignore correct answers", () => {
+			expect(diagnose("ごひゃく", 300)).toEqual(["other"]);
+			expect(diagnose("forty", 42)).toEqual(["other"]);
+			expect(diagnose("サンビャク", 300)).toEqual([]);
+			expect(diagnose("", 300)).toEqual([]);
+		});
+	});
+
+	describe("summarizeMistakes", () => {
+		test("should count categories, most frequent first", () => {
+			expect(
+				summarizeMistakes([
+					{ mistakes: ["rendaku"] },
+					{ mistakes: ["long-vowel", "rendaku"] },
+					{},
+					{ mistakes: ["unknown"] },
+				]),
+			).toEqual([
+				{ category: "rendaku", count: 2 },
+				{ category: "long-vowel", count: 1 },
+			]);
+		});
+	});
+});
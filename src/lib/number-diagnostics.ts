@@ -0,0 +1,269 @@
+// Number mistake diagnostics: compare a wrong answer with the expected
+// reading and label what went wrong (さんひゃく → missed rendaku)
+
+import { katakanaToHiragana } from "./japanese-kana";
+import { parseJapaneseBigInt } from "./japanese-number-parser";
+import type { JapaneseNumber } from "./japanese-numbers";
+
+export type MistakeCategory =
+	| "rendaku"
+	| "grouping"
+	| "yon-shi"
+	| "nana-shichi"
+	| "dropped-ichi"
+	| "long-vowel"
+	| "other";
+
+export interface MistakeCategoryInfo {
+	label: string;
+	example: string;
+	// What to practise next
+	drill: string;
+}
+
+export const mistakeCategories: Record<MistakeCategory, MistakeCategoryInfo> = {
+	rendaku: {
+		label: "Sound changes",
+		example: "さんひゃく → さんびゃく, ろくひゃく → ろっぴゃく",
+		drill:
+			"Drill the Complex (100-999) and Advanced (1000-9999) levels and listen for さんびゃく, ろっぴゃく, はっぴゃく, さんぜん and はっせん.",
+	},
+	grouping: {
+		label: "万/億 grouping",
+		example: "1,200万 read as 120万",
+		drill:
+			"Drill the Master level and split numbers into groups of four digits from the right: 1234,5678 → 千二百三十四万五千六百七十八.",
+	},
+	"yon-shi": {
+		label: "よん/し",
+		example: "しひゃく → よんひゃく",
+		drill:
+			"Drill the Basic and Complex levels: 4 is よん in 四十, 四百, 四千 and 四万.",
+	},
+	"nana-shichi": {
+		label: "なな/しち",
+		example: "しちひゃく → ななひゃく",
+		drill:
+			"Drill the Compound and Complex levels: 7 is なな in 七十, 七百, 七千 and 七万.",
+	},
+	"dropped-ichi": {
+		label: "Dropped 一 before 千万",
+		example: "せんまん → いっせんまん",
+		drill:
+			"Drill the Master level: a 千 before 万 or 億 is usually counted as 一千 (いっせんまん, いっせんおく); せんまん is understood but flagged.",
+	},
+	"long-vowel": {
+		label: "Long vowels",
+		example: "じゅ → じゅう, kyu → kyuu",
+		drill:
+			"Drill the Compound level and hold the long vowels in じゅう, きゅう and ちょう.",
+	},
+	other: {
+		label: "Other mistakes",
+		example: "",
+		drill: "Slow down and review the readings at your current level.",
+	},
+};
+
+type Script = "hiragana" | "romaji" | "kanji";
+
+type Normalizer = (text: string, script: Script) => string;
+
+// Geminated prefixes and their plain readings (ろっ → ろく)
+const geminatedPrefixesHiragana: Record<string, string> = {
+	ろ: "ろく",
+	は: "はち",
+	い: "いち",
+	じゅ: "じゅう",
+};
+
+const geminatedPrefixesRomaji: Record<string, string> = {
+	ro: "roku",
+	ha: "hachi",
+	i: "ichi",
+	ju: "juu",
+};
+
+// Each normalizer erases one kind of difference; two readings that only
+// differ in that way become equal
+const normalizers: Array<
+	[Exclude<MistakeCategory, "grouping" | "other">, Normalizer]
+> = [
+	[
+		"dropped-ichi",
+		(text, script) =>
+			script === "hiragana"
+				? text.replace(/いっせん(?=まん|おく|ちょう|けい|がい)/g, "せん")
+				: script === "romaji"
+					? text.replace(/issen(?=man|oku|chou|kei|gai)/g, "sen")
+					: text.replace(/一千(?=[万億兆京垓])/g, "千"),
+	],
+	[
+		"yon-shi",
+		(text, script) =>
+			script === "hiragana"
+				? text.replace(/し(?!ち)/g, "よん")
+				: script === "romaji"
+					? text.replace(/shi(?!chi)/g, "yon")
+					: text,
+	],
+	[
+		"nana-shichi",
+		(text, script) =>
+			script === "hiragana"
+				? text.replace(/しち/g, "なな")
+				: script === "romaji"
+					? text.replace(/shichi/g, "nana")
+					: text,
+	],
+	[
+		"rendaku",
+		(text, script) => {
+			if (script === "hiragana") {
+				return text
+					.replace(/[びぴ]ゃく/g, "ひゃく")
+					.replace(/ぜん/g, "せん")
+					.replace(
+						/(ろ|は|い|じゅ)っ(?=ひゃく|せん|ちょう|けい)/g,
+						(_, prefix: string) => geminatedPrefixesHiragana[prefix] ?? prefix,
+					);
+			}
+			if (script === "romaji") {
+				return text
+					.replace(/[bp]yaku/g, "hyaku")
+					.replace(/zen/g, "sen")
+					.replace(
+						/(ro|ha|i|ju)[pstck](?=hyaku|sen|chou|kei)/g,
+						(_, prefix: string) => geminatedPrefixesRomaji[prefix] ?? prefix,
+					);
+			}
+			return text;
+		},
+	],
+	[
+		"long-vowel",
+		(text, script) =>
+			script === "hiragana"
+				? text.replace(/([ゅょ])う/g, "$1").replace(/ー/g, "")
+				: script === "romaji"
+					? text
+							.replace(/ū/g, "u")
+							.replace(/ō/g, "o")
+							.replace(/uu/g, "u")
+							.replace(/o[ou]/g, "o")
+					: text,
+	],
+];
+
+function detectScript(text: string): Script {
+	if (/^[ぁ-ゟー]+$/.test(text)) return "hiragana";
+	if (/^[a-zāīūēō']+$/.test(text)) return "romaji";
+	return "kanji";
+}
+
+function normalizeInput(text: string): string {
+	return katakanaToHiragana(text.normalize("NFKC").toLowerCase()).replace(
+		/[\s,-]/g,
+		"",
+	);
+}
+
+function isPowerOfTen(value: bigint): boolean {
+	if (value < 10n) return false;
+	let remaining = value;
+	while (remaining % 10n === 0n) remaining /= 10n;
+	return remaining === 1n;
+}
+
+/**
+ * Check whether two values differ only by a power of ten (120万 for 1200万)
+ */
+function isGroupingMistake(answer: string, expected: JapaneseNumber): boolean {
+	const parsedAnswer = parseJapaneseBigInt(answer);
+	const parsedExpected = parseJapaneseBigInt(expected.kanji);
+	if (!parsedAnswer.success || !parsedExpected.success) return false;
+
+	const [small, large] = [parsedAnswer.value, parsedExpected.value].sort(
+		(a, b) => (a < b ? -1 : a > b ? 1 : 0),
+	);
+	if (small === undefined || large === undefined || small <= 0n) return false;
+	return large % small === 0n && isPowerOfTen(large / small);
+}
+
+/**
+ * Label a wrong answer to a number reading. Returns every category that
+ * explains the difference, ["other"] when none does, and [] when the answer
+ * matches the expected reading.
+ */
+export function diagnoseNumberMistake(
+	userAnswer: string,
+	expected: JapaneseNumber,
+): MistakeCategory[] {
+	const answer = normalizeInput(userAnswer);
+	if (!answer) return [];
+
+	const script = detectScript(answer);
+	const target = normalizeInput(
+		script === "hiragana"
+			? expected.hiragana
+			: script === "romaji"
+				? expected.romaji
+				: expected.kanji,
+	);
+	if (answer === target) return [];
+
+	// A single kind of slip
+	const single = normalizers
+		.filter(
+			([, normalize]) =>
+				normalize(answer, script) === normalize(target, script),
+		)
+		.map(([category]) => category);
+	if (single.length > 0) return single;
+
+	// Several slips in one answer (しちひゃく with a missed rendaku)
+	const normalizeAll = (text: string) =>
+		normalizers.reduce(
+			(current, [, normalize]) => normalize(current, script),
+			text,
+		);
+	if (normalizeAll(answer) === normalizeAll(target)) {
+		return normalizers
+			.filter(([category]) => {
+				// Only count slips that actually differ between the two readings
+				const withoutCategory = normalizers.filter(
+					([other]) => other !== category,
+				);
+				const normalizeRest = (text: string) =>
+					withoutCategory.reduce(
+						(current, [, normalize]) => normalize(current, script),
+						text,
+					);
+				return normalizeRest(answer) !== normalizeRest(target);
+			})
+			.map(([category]) => category);
+	}
+
+	if (isGroupingMistake(answer, expected)) return ["grouping"];
+
+	return ["other"];
+}
+
+/**
+ * Count mistakes per category, most frequent first
+ */
+export function summarizeMistakes(
+	answers: Array<{ mistakes?: string[] }>,
+): Array<{ category: MistakeCategory; count: number }> {
+	const counts = new Map<MistakeCategory, number>();
+	for (const answer of answers) {
+		for (const mistake of answer.mistakes ?? []) {
+			if (!(mistake in mistakeCategories)) continue;
+			const category = mistake as MistakeCategory;
+			counts.set(category, (counts.get(category) ?? 0) + 1);
+		}
+	}
+	return [...counts.entries()]
+		.map(([category, count]) => ({ category, count }))
+		.sort((a, b) => b.count - a.count);
+}
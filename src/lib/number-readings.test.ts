@@ -0,0 +1,102 @@
+import { describe, expect, test } from "vitest";
+import { convertToJapanese } from "./japanese-numbers";
+import {
+	getDigitReadings,
+	getFinalDigitReadings,
+	getNumberReadings,
+} from "./number-readings";
+
+const readingsOf = (num: number | bigint) =>
+	getNumberReadings(convertToJapanese(num)).map(
+		({ hiragana, usage }) => `${hiragana}:${usage}`,
+	);
+
+describe("Number Readings", () => {
+	describe("getDigitReadings", () => {
+		test("should list the readings valid in a context, standard first", () => {
+			expect(getDigitReadings(4, "number")).toEqual([
+				{ hiragana: "よん", romaji: "yon", usage: "standard" },
+				{ hiragana: "し", romaji: "shi", usage: "unusual" },
+			]);
+			expect(getDigitReadings(7, "month")).toEqual([
+				{ hiragana: "しち", romaji: "shichi", usage: "standard" },
+				{ hiragana: "なな", romaji: "nana", usage: "unusual" },
+			]);
+		});
+
+		test("should leave out readings that are wrong in a context", () => {
+			expect(getDigitReadings(4, "month").map((r) => r.hiragana)).toEqual([
+				"し",
+			]);
+			expect(getDigitReadings(9, "place").map((r) => r.hiragana)).toEqual([
+				"きゅう",
+			]);
+			expect(getDigitReadings(5, "number")).toEqual([]);
+		});
+	});
+
+	describe("getFinalDigitReadings", () => {
+		test("should read the last digit as in its context", () => {
+			expect(
+				getFinalDigitReadings(convertToJapanese(14), "hour").map(
+					(reading) => reading.hiragana,
+				),
+			).toEqual(["じゅうよ"]);
+			expect(getFinalDigitReadings(convertToJapanese(17), "day")).toEqual([
+				{ hiragana: "じゅうしち", romaji: "juushichi", usage: "standard" },
+				{ hiragana: "じゅうなな", romaji: "juunana", usage: "unusual" },
+			]);
+		});
+
+		test("should keep the plain reading of other digits", () => {
+			expect(getFinalDigitReadings(convertToJapanese(12), "hour")).toEqual([
+				{ hiragana: "じゅうに", romaji: "juuni", usage: "standard" },
+			]);
+		});
+	});
+
+	describe("getNumberReadings", () => {
+		test("should offer the old readings of 4, 7 and 9", () => {
+			expect(readingsOf(4)).toEqual(["よん:standard", "し:unusual"]);
+			expect(readingsOf(7)).toEqual(["なな:standard", "しち:standard"]);
+			expect(readingsOf(9)).toEqual(["きゅう:standard", "く:unusual"]);
+		});
+
+		test("should follow the rules for each place", () => {
+			expect(readingsOf(40)).toEqual([
+				"よんじゅう:standard",
+				"しじゅう:unusual",
+			]);
+			expect(readingsOf(400)).toEqual(["よんひゃく:standard"]);
+			expect(readingsOf(700)).toEqual([
+				"ななひゃく:standard",
+				"しちひゃく:unusual",
+			]);
+			expect(readingsOf(9000)).toEqual(["きゅうせん:standard"]);
+		});
+
+		test("should combine alternatives", () => {
+			expect(readingsOf(77)).toEqual([
+				"ななじゅうなな:standard",
+				"しちじゅうなな:standard",
+				"ななじゅうしち:standard",
+				"しちじゅうしち:standard",
+			]);
+			expect(readingsOf(49)).toContain("しじゅうく:unusual");
+		});
+
+		test("should accept but flag せんまん for いっせんまん", () => {
+			expect(readingsOf(10000000)).toEqual([
+				"いっせんまん:standard",
+				"せんまん:unusual",
+			]);
+			expect(getNumberReadings(convertToJapanese(10000000))[1]?.romaji).toBe(
+				"senman",
+			);
+		});
+
+		test("should keep numbers without alternatives to one reading", () => {
+			expect(readingsOf(365)).toEqual(["さんびゃくろくじゅうご:standard"]);
+		});
+	});
+});
@@ -0,0 +1,282 @@
+// Alternate readings of 4, 7 and 9 (し/よん, しち/なな, く/きゅう), tagged
+// with the contexts each one is used in. 数字-Dash and 日付-Dash both check
+// answers against these variants, and the counters for days, hours and
+// minutes read their digits from here, so their rules stay the same.
+
+import type { JapaneseNumber } from "./japanese-numbers";
+
+// Where a digit is read
+// - number: on its own or in the ones place (四, 二十四)
+// - tens: in front of 十 (四十)
+// - place: in front of 百, 千 and the big units (七百, 七万)
+// - month: in front of 月 (四月)
+// - day: in front of 日 in days without a native reading (十七日)
+// - hour: in front of 時 and 時間 (四時, 九時間)
+// - minute: in front of 分 and 分間 (七分)
+export type ReadingContext =
+	| "number"
+	| "tens"
+	| "place"
+	| "month"
+	| "day"
+	| "hour"
+	| "minute";
+
+// Unusual readings are accepted but flagged: correct, yet not what most
+// speakers would say in that context
+export type ReadingUsage = "standard" | "unusual";
+
+export interface DigitReading {
+	hiragana: string;
+	romaji: string;
+	// Contexts the reading is valid in; missing contexts are wrong (よんがつ)
+	contexts: Partial<Record<ReadingContext, ReadingUsage>>;
+}
+
+export interface NumberReading {
+	hiragana: string;
+	romaji: string;
+	usage: ReadingUsage;
+}
+
+export const digitReadings: Record<4 | 7 | 9, DigitReading[]> = {
+	4: [
+		{
+			hiragana: "よん",
+			romaji: "yon",
+			contexts: {
+				number: "standard",
+				tens: "standard",
+				place: "standard",
+				minute: "standard",
+			},
+		},
+		{
+			hiragana: "し",
+			romaji: "shi",
+			contexts: { number: "unusual", tens: "unusual", month: "standard" },
+		},
+		{ hiragana: "よ", romaji: "yo", contexts: { hour: "standard" } },
+	],
+	7: [
+		{
+			hiragana: "なな",
+			romaji: "nana",
+			contexts: {
+				number: "standard",
+				tens: "standard",
+				place: "standard",
+				month: "unusual",
+				day: "unusual",
+				hour: "unusual",
+				minute: "standard",
+			},
+		},
+		{
+			hiragana: "しち",
+			romaji: "shichi",
+			contexts: {
+				number: "standard",
+				tens: "standard",
+				place: "unusual",
+				month: "standard",
+				day: "standard",
+				hour: "standard",
+				minute: "standard",
+			},
+		},
+	],
+	9: [
+		{
+			hiragana: "きゅう",
+			romaji: "kyuu",
+			contexts: {
+				number: "standard",
+				tens: "standard",
+				place: "standard",
+				minute: "standard",
+			},
+		},
+		{
+			hiragana: "く",
+			romaji: "ku",
+			contexts: {
+				number: "unusual",
+				tens: "unusual",
+				month: "standard",
+				day: "standard",
+				hour: "standard",
+			},
+		},
+	],
+};
+
+// More variants than this are not listed (each 4, 7 or 9 doubles them)
+const MAX_READINGS = 64;
+
+/**
+ * Get the readings of a digit that are valid in a context, standard ones
+ * first. Digits without alternatives return an empty list.
+ */
+export function getDigitReadings(
+	digit: number,
+	context: ReadingContext,
+): NumberReading[] {
+	const readings = digitReadings[digit as keyof typeof digitReadings] ?? [];
+	return readings
+		.flatMap(({ hiragana, romaji, contexts }) => {
+			const usage = contexts[context];
+			return usage ? [{ hiragana, romaji, usage }] : [];
+		})
+		.sort(
+			(a, b) => Number(a.usage === "unusual") - Number(b.usage === "unusual"),
+		);
+}
+
+/**
+ * Get the readings of a number with its last digit read as in a context
+ * (十七 → じゅうしち, じゅうなな in front of 時), standard ones first. Numbers
+ * whose last digit has no alternatives keep their plain reading.
+ */
+export function getFinalDigitReadings(
+	reading: JapaneseNumber,
+	context: ReadingContext,
+): NumberReading[] {
+	const plain: NumberReading = {
+		hiragana: reading.hiragana,
+		romaji: reading.romaji,
+		usage: "standard",
+	};
+	const digit = reading.number % 10;
+	// The plain reading ends with the digit as it is said on its own
+	const [ending] = getDigitReadings(digit, "number");
+	const readings = getDigitReadings(digit, context);
+	if (
+		!ending ||
+		readings.length === 0 ||
+		!reading.hiragana.endsWith(ending.hiragana) ||
+		!reading.romaji.endsWith(ending.romaji)
+	) {
+		return [plain];
+	}
+	return readings.map(({ hiragana, romaji, usage }) => ({
+		hiragana: reading.hiragana.slice(0, -ending.hiragana.length) + hiragana,
+		romaji: reading.romaji.slice(0, -ending.romaji.length) + romaji,
+		usage,
+	}));
+}
+
+// A spot in a reading that can be said more than one way. The first group
+// is the part that changes, the second what follows it.
+interface ReadingSite {
+	hiragana: RegExp;
+	romaji: RegExp;
+	options: (matched: string, following: string) => NumberReading[];
+}
+
+const digitByHiragana: Record<string, number> = { よん: 4, なな: 7, きゅう: 9 };
+
+function getContext(following: string): ReadingContext {
+	if (following === "") return "number";
+	if (following === "じゅう") return "tens";
+	return "place";
+}
+
+const readingSites: ReadingSite[] = [
+	{
+		hiragana:
+			/(よん|なな|きゅう)(?=(じゅう|ひゃく|びゃく|ぴゃく|せん|ぜん|まん|おく|ちょう|けい|がい|$))/g,
+		romaji:
+			/(yon|nana|kyuu)(?=(juu|hyaku|byaku|pyaku|sen|zen|man|oku|chou|kei|gai|$))/g,
+		options: (matched, following) =>
+			getDigitReadings(digitByHiragana[matched] ?? 0, getContext(following)),
+	},
+	// 一千万 is read いっせんまん. Plain せんまん is understood, but the 一 is
+	// usual before the big units, so it is flagged (see dropped-ichi).
+	{
+		hiragana: /(いっせん)(?=(まん|おく|ちょう|けい|がい))/g,
+		romaji: /(issen)(?=(man|oku|chou|kei|gai))/g,
+		options: () => [
+			{ hiragana: "いっせん", romaji: "issen", usage: "standard" },
+			{ hiragana: "せん", romaji: "sen", usage: "unusual" },
+		],
+	},
+];
+
+interface SiteMatch {
+	index: number;
+	length: number;
+	romajiIndex: number;
+	romajiLength: number;
+	options: NumberReading[];
+}
+
+function findSites(reading: JapaneseNumber): SiteMatch[] {
+	const sites: SiteMatch[] = [];
+	for (const site of readingSites) {
+		const kana = [...reading.hiragana.matchAll(site.hiragana)];
+		const romaji = [...reading.romaji.matchAll(site.romaji)];
+		// The romaji is built alongside the kana, so the spots line up
+		if (kana.length !== romaji.length) continue;
+		kana.forEach((match, i) => {
+			const romajiMatch = romaji[i];
+			const options = site.options(match[1] ?? "", match[2] ?? "");
+			if (!romajiMatch || options.length < 2) return;
+			sites.push({
+				index: match.index,
+				length: match[0].length,
+				romajiIndex: romajiMatch.index,
+				romajiLength: romajiMatch[0].length,
+				options,
+			});
+		});
+	}
+	return sites.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * List every accepted reading of a number: the canonical reading first, then
+ * the alternatives (しちじゅう for ななじゅう, せんまん for いっせんまん), standard
+ * ones before unusual ones
+ */
+export function getNumberReadings(reading: JapaneseNumber): NumberReading[] {
+	const canonical: NumberReading = {
+		hiragana: reading.hiragana,
+		romaji: reading.romaji,
+		usage: "standard",
+	};
+	const sites = findSites(reading);
+
+	// Rebuild the reading with each combination of options, end first so the
+	// earlier indexes stay valid
+	let variants: NumberReading[] = [canonical];
+	for (const site of [...sites].reverse()) {
+		variants = variants
+			.flatMap((variant) =>
+				site.options.map((option) => ({
+					hiragana:
+						variant.hiragana.slice(0, site.index) +
+						option.hiragana +
+						variant.hiragana.slice(site.index + site.length),
+					romaji:
+						variant.romaji.slice(0, site.romajiIndex) +
+						option.romaji +
+						variant.romaji.slice(site.romajiIndex + site.romajiLength),
+					usage:
+						variant.usage === "unusual" || option.usage === "unusual"
+							? ("unusual" as const)
+							: ("standard" as const),
+				})),
+			)
+			.slice(0, MAX_READINGS);
+	}
+
+	const alternatives = variants.filter(
+		(variant) => variant.hiragana !== canonical.hiragana,
+	);
+	return [
+		canonical,
+		...alternatives.filter((variant) => variant.usage === "standard"),
+		...alternatives.filter((variant) => variant.usage === "unusual"),
+	];
+}
@@ -0,0 +1,963 @@
+"use client";
+
+// Shared step components for the Dash labs, driven by the quiz engine
+
+import {
+	ArrowLeft,
+	Check,
+	Eye,
+	Headphones,
+	Link2,
+	Mic,
+	MicOff,
+	RefreshCw,
+	Target,
+	Timer,
+	TrendingUp,
+	Trophy,
+} from "lucide-react";
+import Link from "next/link";
+import { type KeyboardEvent, type ReactNode, useEffect, useState } from "react";
+
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { containsJapanese, toKana } from "./japanese-kana";
+import type { ListeningController, ListeningSettings } from "./listening";
+import {
+	type GameState,
+	type QuizConfiguration,
+	type QuizController,
+	type QuizQuestion,
+	type QuizSession,
+	type QuizTimer,
+	getResultHeadline,
+	scoreAnswers,
+	summarizeQuizSession,
+} from "./quiz-engine";
+import { createConfigSearch } from "./session-links";
+import { getReviewQueueStatus } from "./spaced-repetition";
+import {
+	type SpeechAnswerController,
+	speechRecognitionErrors,
+} from "./speech-recognition";
+import { themeStyles } from "./theme";
+
+interface QuizStatColors {
+	box: string;
+	value: string;
+	label: string;
+}
+
+// Accent classes for one lab. Kept as full class strings so Tailwind sees them.
+export interface QuizTheme {
+	backButton: string;
+	progressBar: string;
+	prompt: string;
+	input: string;
+	checkButton: string;
+	nextButton: string;
+	outlineButton: string;
+	statsBox: string;
+	statsAccent: string;
+	stepActive: string;
+	restartButton: string;
+	// Correct answers, accuracy, total time and time per question
+	stats: [QuizStatColors, QuizStatColors, QuizStatColors, QuizStatColors];
+}
+
+const floatingButtonClass =
+	"flex h-10 w-10 cursor-pointer items-center justify-center rounded-full bg-white/80 text-gray-600 shadow-lg backdrop-blur-sm transition-all hover:bg-white hover:shadow-xl";
+
+/**
+ * Format a countdown in whole seconds, rounding up so 0s means time is up
+ */
+function formatSecondsLeft(timer: QuizTimer): string {
+	return `${Math.ceil(timer.remainingMs / 1000)}s`;
+}
+
+/**
+ * Pick a prompt size that keeps long prompts on screen
+ */
+function getPromptSize(prompt: string): string {
+	if (prompt.length <= 3) return "text-8xl sm:text-9xl";
+	if (prompt.length <= 6) return "text-6xl sm:text-8xl";
+	if (prompt.length <= 9) return "text-4xl sm:text-6xl";
+	if (prompt.length <= 12) return "text-3xl sm:text-5xl";
+	return "text-2xl sm:text-4xl";
+}
+
+export function QuizTransitionStyles() {
+	return (
+		<style jsx global>{`
+			@media (prefers-reduced-motion: no-preference) {
+				::view-transition-old(root),
+				::view-transition-new(root) {
+					animation-duration: 0.5s;
+				}
+
+				::view-transition-old(config-step) {
+					animation: slide-out-left 0.4s ease-in-out;
+				}
+
+				::view-transition-new(game-step) {
+					animation: slide-in-right 0.4s ease-in-out;
+				}
+
+				::view-transition-old(game-step) {
+					animation: slide-out-right 0.4s ease-in-out;
+				}
+
+				::view-transition-new(results-step) {
+					animation: slide-in-up 0.4s ease-in-out;
+				}
+
+				::view-transition-old(results-step) {
+					animation: slide-out-down 0.4s ease-in-out;
+				}
+
+				::view-transition-new(config-step) {
+					animation: slide-in-left 0.4s ease-in-out;
+				}
+			}
+
+			@keyframes slide-out-left {
+				to { transform: translateX(-100%); opacity: 0; }
+			}
+
+			@keyframes slide-in-right {
+				from { transform: translateX(100%); opacity: 0; }
+			}
+
+			@keyframes slide-out-right {
+				to { transform: translateX(100%); opacity: 0; }
+			}
+
+			@keyframes slide-in-left {
+				from { transform: translateX(-100%); opacity: 0; }
+			}
+
+			@keyframes slide-in-up {
+				from { transform: translateY(50px); opacity: 0; }
+			}
+
+			@keyframes slide-out-down {
+				to { transform: translateY(-50px); opacity: 0; }
+			}
+		`}</style>
+	);
+}
+
+export function QuizStepIndicator({
+	gameState,
+	theme,
+}: {
+	gameState: GameState;
+	theme: QuizTheme;
+}) {
+	return (
+		<div className="mt-4 flex justify-center">
+			<div className="flex items-center gap-2">
+				{(["configuration", "playing", "results"] as const).map((step) => (
+					<div
+						key={step}
+						className={`h-2 w-8 rounded-full transition-all duration-300 ${
+							gameState === step ? theme.stepActive : "bg-gray-300"
+						}`}
+					/>
+				))}
+			</div>
+		</div>
+	);
+}
+
+export function QuizActionButton({
+	theme,
+	onClick,
+	disabled,
+	children,
+}: {
+	theme: QuizTheme;
+	onClick: () => void;
+	disabled?: boolean;
+	children: ReactNode;
+}) {
+	return (
+		<Button
+			variant="outline"
+			onClick={onClick}
+			disabled={disabled}
+			className={`rounded-lg border-2 px-4 py-3 ${theme.outlineButton}`}
+		>
+			{children}
+		</Button>
+	);
+}
+
+/**
+ * Large answer buttons for choice questions, numbered for the keyboard. Once
+ * answered, the right choice turns green and a wrong pick red.
+ */
+function QuizChoices({
+	choices,
+	theme,
+	correctAnswer,
+	selected,
+	onSelect,
+}: {
+	choices: string[];
+	theme: QuizTheme;
+	correctAnswer: string;
+	// The picked choice once answered
+	selected: string | null;
+	onSelect: (choice: string) => void;
+}) {
+	const answered = selected !== null;
+	return (
+		<div
+			className={`grid gap-3 ${choices.length === 2 ? "grid-cols-2" : "grid-cols-1 sm:grid-cols-2"}`}
+		>
+			{choices.map((choice, index) => (
+				<Button
+					key={choice}
+					variant="outline"
+					onClick={() => onSelect(choice)}
+					disabled={answered}
+					className={`h-auto min-h-14 justify-start whitespace-normal rounded-lg border-2 px-4 py-3 text-left text-lg ${
+						!answered
+							? theme.outlineButton
+							: choice === correctAnswer
+								? "border-green-400 bg-green-50 text-green-800 disabled:opacity-100 dark:bg-green-950 dark:text-green-200"
+								: choice === selected
+									? "border-red-400 bg-red-50 text-red-800 disabled:opacity-100 dark:bg-red-950 dark:text-red-200"
+									: ""
+					}`}
+				>
+					<span
+						className={`mr-3 hidden font-mono text-sm sm:inline ${themeStyles.text.muted}`}
+					>
+						{index + 1}
+					</span>
+					{choice}
+				</Button>
+			))}
+		</div>
+	);
+}
+
+export function QuizPlayStep<TQuestion extends QuizQuestion>({
+	quiz,
+	theme,
+	onBack,
+	subtitle,
+	instruction,
+	promptAction,
+	promptContent,
+	belowPrompt,
+	answerDetails,
+	answerNote,
+	actions,
+}: {
+	quiz: QuizController<TQuestion>;
+	theme: QuizTheme;
+	onBack: () => void;
+	subtitle: ReactNode;
+	instruction: string;
+	// Shown next to the prompt (a speaker button)
+	promptAction?: ReactNode;
+	// Replaces the prompt until the question is answered (listening mode)
+	promptContent?: ReactNode;
+	// Shown under the prompt (hints, readings)
+	belowPrompt?: ReactNode;
+	// Replaces the default "Correct answer" line once answered
+	answerDetails?: ReactNode;
+	// Shown under the answer once answered (an unusual but accepted reading)
+	answerNote?: ReactNode;
+	// Extra buttons after Check/Next and Show Answer
+	actions?: ReactNode;
+}) {
+	const { question, showAnswer, isCorrect, answers, sessionTimer } = quiz;
+	// Convert romaji to kana as it is typed; a trailing n becomes ん on submit.
+	// Only Japanese answers are converted, so "twenty" stays as typed.
+	const [kanaInput, setKanaInput] = useState(false);
+	const choices = question?.choices;
+	const { nextQuestion, submitText } = quiz;
+
+	// Number keys pick a choice and Enter moves on, as there is no text input
+	useEffect(() => {
+		if (!choices) return;
+		const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+			if (e.target instanceof HTMLButtonElement) return;
+			const choice = choices[Number(e.key) - 1];
+			if (!showAnswer && choice) {
+				submitText(choice);
+			} else if (showAnswer && e.key === "Enter") {
+				nextQuestion();
+			}
+		};
+
+		window.addEventListener("keydown", handleKeyDown);
+		return () => window.removeEventListener("keydown", handleKeyDown);
+	}, [choices, showAnswer, nextQuestion, submitText]);
+
+	if (!question) {
+		return <div>Loading...</div>;
+	}
+
+	const japaneseAnswer = containsJapanese(question.correctAnswer);
+	const convertToKana = kanaInput && japaneseAnswer;
+	const correctCount = answers.filter((answer) => answer.isCorrect).length;
+	const timedOut = showAnswer && answers[answers.length - 1]?.timedOut;
+	const progress = sessionTimer
+		? sessionTimer.remainingMs / sessionTimer.totalMs
+		: (quiz.questionIndex + 1) / quiz.questionCount;
+
+	const submit = () => {
+		if (convertToKana) {
+			quiz.submitText(toKana(quiz.userInput));
+		} else {
+			quiz.submitAnswer();
+		}
+	};
+
+	const handleKeyDown = (e: KeyboardEvent) => {
+		if (e.key === "Enter" && !showAnswer) {
+			e.preventDefault();
+			submit();
+		} else {
+			quiz.handleKeyDown(e);
+		}
+	};
+
+	return (
+		<>
+			{/* Floating Back Button - Outside transition container */}
+			<div className="fade-in-0 fixed top-6 left-6 z-50 animate-in delay-300 duration-500">
+				<button
+					type="button"
+					onClick={onBack}
+					className={`${floatingButtonClass} ${theme.backButton}`}
+				>
+					<ArrowLeft className="h-4 w-4" />
+				</button>
+			</div>
+
+			<div
+				className="fade-in-0 slide-in-from-right-4 mx-auto max-w-4xl animate-in space-y-6 duration-700"
+				style={{ viewTransitionName: "game-step" }}
+			>
+				{/* Progress Header */}
+				<div className="text-center">
+					<h2 className={`mb-2 font-bold text-3xl ${themeStyles.text.primary}`}>
+						{sessionTimer ? (
+							<span className="inline-flex items-center gap-3">
+								Question {quiz.questionIndex + 1}
+								<span
+									className={`inline-flex items-center font-mono text-2xl ${
+										sessionTimer.remainingMs <= 10000
+											? "text-red-600"
+											: theme.statsAccent
+									}`}
+								>
+									<Timer className="mr-1 h-6 w-6" />
+									{formatSecondsLeft(sessionTimer)}
+								</span>
+							</span>
+						) : (
+							<>
+								Question {quiz.questionIndex + 1} of {quiz.questionCount}
+							</>
+						)}
+					</h2>
+					<div className="mx-auto mb-4 h-2 w-full max-w-md rounded-full bg-gray-200 dark:bg-gray-700">
+						<div
+							className={`h-2 rounded-full bg-gradient-to-r transition-all duration-300 ${theme.progressBar}`}
+							style={{ width: `${progress * 100}%` }}
+						/>
+					</div>
+					<p className={themeStyles.text.secondary}>{subtitle}</p>
+				</div>
+
+				{/* Question Card */}
+				<Card
+					className={`shadow-xl transition-all duration-500 ${
+						showAnswer
+							? isCorrect
+								? "border-green-400 bg-green-50/50 dark:bg-green-950/50"
+								: "border-red-400 bg-red-50/50 dark:bg-red-950/50"
+							: ""
+					}`}
+				>
+					<CardContent className="p-8">
+						<h3
+							className={`mb-4 text-center text-xl ${themeStyles.text.primary}`}
+						>
+							{showAnswer
+								? isCorrect
+									? "✅ Correct!"
+									: timedOut
+										? "⏰ Time's up!"
+										: "❌ Not quite right"
+								: instruction}
+						</h3>
+
+						{/* Question Countdown */}
+						{quiz.questionTimer && (
+							<div className="mx-auto mb-4 flex max-w-xs items-center gap-3">
+								<div className="h-1.5 flex-1 rounded-full bg-gray-200 dark:bg-gray-700">
+									<div
+										className={`h-1.5 rounded-full transition-all duration-200 ${
+											quiz.questionTimer.remainingMs <= 3000
+												? "bg-red-500"
+												: "bg-gray-400 dark:bg-gray-500"
+										}`}
+										style={{
+											width: `${(quiz.questionTimer.remainingMs / quiz.questionTimer.totalMs) * 100}%`,
+										}}
+									/>
+								</div>
+								<span
+									className={`w-8 text-right font-mono text-sm ${themeStyles.text.secondary}`}
+								>
+									{formatSecondsLeft(quiz.questionTimer)}
+								</span>
+							</div>
+						)}
+
+						{/* Question Display */}
+						{promptContent && !showAnswer ? (
+							<div className="mb-6">{promptContent}</div>
+						) : (
+							<div className="mb-6 flex items-center justify-center gap-4">
+								<div
+									className={`break-all text-center font-black transition-all duration-300 ${
+										showAnswer && isCorrect ? "scale-110" : ""
+									} ${getPromptSize(question.prompt)}`}
+								>
+									<span
+										className={`bg-gradient-to-r bg-clip-text text-transparent ${
+											showAnswer
+												? isCorrect
+													? "from-green-500 via-emerald-500 to-teal-500"
+													: "from-red-500 via-pink-500 to-rose-500"
+												: theme.prompt
+										}`}
+									>
+										{question.prompt}
+									</span>
+								</div>
+								{promptAction}
+							</div>
+						)}
+
+						{belowPrompt}
+
+						{/* Answer Display */}
+						{showAnswer && (
+							<div className="mb-6 rounded-lg bg-gray-50 p-4 text-center dark:bg-gray-800">
+								{answerDetails ?? (
+									<p
+										className={`font-medium text-lg ${themeStyles.text.primary}`}
+									>
+										Correct answer: {question.correctAnswer}
+									</p>
+								)}
+								{!isCorrect && quiz.userInput && (
+									<p className="mt-2 text-red-600 text-sm">
+										You answered: {quiz.userInput}
+									</p>
+								)}
+								{answerNote && (
+									<p className="mt-2 text-amber-600 text-sm dark:text-amber-400">
+										{answerNote}
+									</p>
+								)}
+							</div>
+						)}
+
+						{/* Input */}
+						<div className="space-y-4">
+							{choices ? (
+								<QuizChoices
+									choices={choices}
+									theme={theme}
+									correctAnswer={question.correctAnswer}
+									selected={showAnswer ? quiz.userInput : null}
+									onSelect={submitText}
+								/>
+							) : (
+								<input
+									ref={quiz.inputRef}
+									type="text"
+									value={quiz.userInput}
+									onChange={(e) =>
+										quiz.setUserInput(
+											convertToKana
+												? toKana(e.target.value, { final: false })
+												: e.target.value,
+										)
+									}
+									onKeyDown={handleKeyDown}
+									readOnly={showAnswer}
+									placeholder={
+										showAnswer
+											? "Press Enter for next question..."
+											: "Type your answer here..."
+									}
+									className={`w-full rounded-lg border-2 px-4 py-3 text-lg backdrop-blur-sm transition-all duration-300 ${
+										showAnswer
+											? isCorrect
+												? "border-green-300 bg-green-50/50 text-green-800 dark:border-green-600 dark:bg-green-950/50 dark:text-green-200"
+												: "border-red-300 bg-red-50/50 text-red-800 dark:border-red-600 dark:bg-red-950/50 dark:text-red-200"
+											: theme.input
+									} ${showAnswer ? "cursor-pointer" : ""}`}
+								/>
+							)}
+
+							{/* Action Buttons */}
+							<div className="flex flex-wrap gap-3">
+								{showAnswer ? (
+									<Button
+										onClick={quiz.nextQuestion}
+										className={`flex-1 transform rounded-lg bg-gradient-to-r px-6 py-3 font-semibold text-white shadow-lg transition hover:scale-105 ${
+											isCorrect
+												? "from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700"
+												: theme.nextButton
+										}`}
+									>
+										<RefreshCw className="mr-2 h-4 w-4" />
+										{quiz.isLastQuestion ? "Complete Session" : "Next Question"}
+									</Button>
+								) : (
+									!choices && (
+										<Button
+											onClick={submit}
+											disabled={!quiz.userInput.trim()}
+											className={`flex-1 transform rounded-lg bg-gradient-to-r px-6 py-3 font-semibold text-white shadow-lg transition hover:scale-105 disabled:transform-none disabled:cursor-not-allowed disabled:opacity-50 ${theme.checkButton}`}
+										>
+											<Check className="mr-2 h-4 w-4" />
+											Check Answer
+										</Button>
+									)
+								)}
+
+								<QuizActionButton
+									theme={theme}
+									onClick={quiz.revealAnswer}
+									disabled={showAnswer}
+								>
+									<Eye className="h-4 w-4" />
+								</QuizActionButton>
+
+								{!choices && japaneseAnswer && (
+									<Button
+										variant="outline"
+										onClick={() => setKanaInput((current) => !current)}
+										disabled={showAnswer}
+										aria-pressed={kanaInput}
+										title={kanaInput ? "Kana input on" : "Type romaji as kana"}
+										className={`rounded-lg border-2 px-4 py-3 ${
+											kanaInput
+												? `text-white ${theme.stepActive}`
+												: theme.outlineButton
+										}`}
+									>
+										あ
+									</Button>
+								)}
+
+								{actions}
+							</div>
+						</div>
+					</CardContent>
+				</Card>
+
+				{/* Quick Stats */}
+				<div className="text-center">
+					<div
+						className={`inline-flex items-center gap-4 rounded-lg border bg-white/80 px-6 py-3 shadow-lg backdrop-blur-sm dark:bg-gray-800/80 ${theme.statsBox}`}
+					>
+						<span className={`text-sm ${themeStyles.text.secondary}`}>
+							Correct: {correctCount}/{answers.length}
+						</span>
+						{answers.length > 0 && (
+							<span className={`font-medium text-sm ${theme.statsAccent}`}>
+								({((correctCount / answers.length) * 100).toFixed(1)}%)
+							</span>
+						)}
+					</div>
+				</div>
+			</div>
+		</>
+	);
+}
+
+/**
+ * Microphone button for answering out loud; a recognition error is shown on
+ * its own row under the action buttons
+ */
+export function QuizSpeechButton({
+	speech,
+	theme,
+	onListen,
+	disabled,
+}: {
+	speech: SpeechAnswerController;
+	theme: QuizTheme;
+	onListen: () => void;
+	disabled?: boolean;
+}) {
+	return (
+		<>
+			<QuizActionButton
+				theme={theme}
+				onClick={speech.isListening ? speech.stop : onListen}
+				disabled={disabled}
+			>
+				{speech.isListening ? (
+					<MicOff className="h-4 w-4 animate-pulse text-red-500" />
+				) : (
+					<Mic className="h-4 w-4" />
+				)}
+			</QuizActionButton>
+			{speech.error && !disabled && (
+				<p className="basis-full text-red-600 text-sm">
+					{speechRecognitionErrors[speech.error]}
+				</p>
+			)}
+		</>
+	);
+}
+
+/**
+ * The spoken prompt of a listening question: a replay button, or the kana
+ * reading when the browser has no Japanese voice
+ */
+export function QuizListeningPrompt({
+	listening,
+	theme,
+	fallbackText,
+}: {
+	listening: ListeningController;
+	theme: QuizTheme;
+	fallbackText: string;
+}) {
+	if (listening.status === "missing") {
+		return (
+			<div className="text-center">
+				<div
+					className={`break-all font-black text-4xl sm:text-6xl ${themeStyles.text.primary}`}
+				>
+					{fallbackText}
+				</div>
+				<p className={`mt-3 text-sm ${themeStyles.text.muted}`}>
+					No Japanese voice is available in this browser, so the reading is
+					shown instead.
+				</p>
+			</div>
+		);
+	}
+
+	const { replaysLeft } = listening;
+	return (
+		<div className="flex flex-col items-center gap-3">
+			<button
+				type="button"
+				onClick={listening.replay}
+				disabled={listening.status === "loading" || replaysLeft === 0}
+				aria-label="Replay the question"
+				className={`flex h-24 w-24 cursor-pointer items-center justify-center rounded-full bg-gradient-to-r text-white shadow-xl transition hover:scale-105 disabled:cursor-not-allowed disabled:opacity-50 ${theme.checkButton} ${
+					listening.status === "loading" ? "animate-pulse" : ""
+				}`}
+			>
+				<Headphones className="h-10 w-10" />
+			</button>
+			<p className={`text-sm ${themeStyles.text.secondary}`}>
+				{listening.status === "loading"
+					? "Loading voices..."
+					: replaysLeft === null
+						? "Replay as often as you like"
+						: replaysLeft === 0
+							? "No replays left"
+							: `${replaysLeft} ${replaysLeft === 1 ? "replay" : "replays"} left`}
+			</p>
+		</div>
+	);
+}
+
+/**
+ * Replay limit and speed ramp choices for a listening session
+ */
+export function QuizListeningSettings({
+	settings,
+	onChange,
+}: {
+	settings: ListeningSettings;
+	onChange: (settings: ListeningSettings) => void;
+}) {
+	return (
+		<div className="space-y-3">
+			<h3 className={`font-medium text-sm ${themeStyles.text.primary}`}>
+				Replays per Question
+			</h3>
+			<div className="grid grid-cols-4 gap-3">
+				{[null, 2, 1, 0].map((maxReplays) => (
+					<Button
+						key={maxReplays ?? "unlimited"}
+						variant={settings.maxReplays === maxReplays ? "default" : "outline"}
+						onClick={() => onChange({ ...settings, maxReplays })}
+						size="sm"
+					>
+						{maxReplays === null
+							? "Unlimited"
+							: maxReplays === 0
+								? "None"
+								: maxReplays}
+					</Button>
+				))}
+			</div>
+			<div className="flex items-center space-x-3">
+				<input
+					type="checkbox"
+					id="speedRamp"
+					checked={settings.speedRamp}
+					onChange={(e) =>
+						onChange({ ...settings, speedRamp: e.target.checked })
+					}
+					className="h-4 w-4 cursor-pointer rounded border-gray-300"
+				/>
+				<label
+					htmlFor="speedRamp"
+					className={`cursor-pointer text-sm ${themeStyles.text.primary}`}
+				>
+					Speak faster after each correct answer in a row
+				</label>
+			</div>
+		</div>
+	);
+}
+
+/**
+ * Hold a review session until its due items have loaded, and say so when
+ * nothing is due instead of practising something else. Other sessions play
+ * straight away.
+ */
+export function QuizReviewGate({
+	review,
+	dueItems,
+	theme,
+	onBack,
+	children,
+}: {
+	// Whether the session practises the review queue
+	review: boolean;
+	dueItems: string[] | null;
+	theme: QuizTheme;
+	onBack: () => void;
+	children: ReactNode;
+}) {
+	const status = getReviewQueueStatus(dueItems);
+	if (!review || status === "ready") return children;
+
+	return (
+		<Card className={`mx-auto max-w-2xl ${themeStyles.card.base}`}>
+			<CardContent className="p-8 text-center">
+				{status === "loading" ? (
+					<p className={themeStyles.text.secondary}>
+						Loading your review queue...
+					</p>
+				) : (
+					<>
+						<RefreshCw className="mx-auto mb-4 h-8 w-8 text-purple-600" />
+						<p className={themeStyles.text.secondary}>
+							Nothing is due for review. Practise a little and the items you
+							miss will come back here.
+						</p>
+						<div className="mt-6">
+							<QuizActionButton theme={theme} onClick={onBack}>
+								Back to settings
+							</QuizActionButton>
+						</div>
+					</>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
+
+export function QuizResultsStep<TConfig extends QuizConfiguration>({
+	session,
+	theme,
+	personalBest,
+	details,
+	children,
+	onRestart,
+	onBackToMenu,
+}: {
+	session: QuizSession<TConfig>;
+	theme: QuizTheme;
+	// Best earlier score for this configuration, null for a first session
+	personalBest: number | null;
+	// Lines for the Session Details box
+	details: ReactNode;
+	// Extra sections above the session details
+	children?: ReactNode;
+	onRestart: () => void;
+	onBackToMenu: () => void;
+}) {
+	const { accuracy, totalSeconds, averageSeconds } =
+		summarizeQuizSession(session);
+	const score = scoreAnswers(session.answers);
+	const timeouts = session.answers.filter((answer) => answer.timedOut).length;
+	const [linkCopied, setLinkCopied] = useState(false);
+
+	// The same seed and settings replay the same questions for whoever opens it
+	const copyShareLink = () => {
+		const { origin, pathname } = window.location;
+		const link = `${origin}${pathname}${createConfigSearch(session.configuration)}`;
+		navigator.clipboard
+			.writeText(link)
+			.then(() => setLinkCopied(true))
+			.catch(() => setLinkCopied(false));
+	};
+	const stats = [
+		{
+			value: `${session.correctAnswers}/${session.totalQuestions}`,
+			label: "Correct Answers",
+		},
+		{ value: `${accuracy.toFixed(1)}%`, label: "Accuracy" },
+		{ value: `${totalSeconds.toFixed(1)}s`, label: "Total Time" },
+		{ value: `${averageSeconds.toFixed(1)}s`, label: "Avg per Question" },
+	];
+
+	return (
+		<>
+			{/* Floating Back Button - Outside transition container */}
+			<div className="fade-in-0 fixed top-6 left-6 z-50 animate-in delay-300 duration-500">
+				<Link href="/" className={`${floatingButtonClass} ${theme.backButton}`}>
+					<ArrowLeft className="h-4 w-4" />
+				</Link>
+			</div>
+
+			<div
+				className="fade-in-0 slide-in-from-bottom-4 mx-auto max-w-2xl animate-in space-y-6 duration-700"
+				style={{ viewTransitionName: "results-step" }}
+			>
+				<div className="text-center">
+					<h2 className={`mb-4 font-bold text-3xl ${themeStyles.text.primary}`}>
+						Practice Session Complete!
+					</h2>
+					<p className={themeStyles.text.secondary}>Here's how you performed</p>
+				</div>
+
+				<Card className={themeStyles.card.base}>
+					<CardHeader>
+						<CardTitle className="text-center text-2xl">
+							{getResultHeadline(accuracy)}
+						</CardTitle>
+					</CardHeader>
+					<CardContent className="space-y-6">
+						{/* Stats Grid */}
+						<div className="grid grid-cols-2 gap-4">
+							{stats.map((stat, index) => (
+								<div
+									key={stat.label}
+									className={`rounded-lg p-4 text-center ${theme.stats[index]?.box ?? ""}`}
+								>
+									<div
+										className={`font-bold text-2xl ${theme.stats[index]?.value ?? ""}`}
+									>
+										{stat.value}
+									</div>
+									<div className={`text-sm ${theme.stats[index]?.label ?? ""}`}>
+										{stat.label}
+									</div>
+								</div>
+							))}
+						</div>
+
+						{/* Score */}
+						<div
+							className={`rounded-lg p-4 text-center ${themeStyles.page.sectionAlt}`}
+						>
+							<div className={`text-sm ${themeStyles.text.secondary}`}>
+								Score (faster correct answers earn more)
+							</div>
+							<div className={`font-black text-4xl ${theme.statsAccent}`}>
+								{score.toLocaleString()}
+							</div>
+							{personalBest === null ? (
+								<div className={`text-sm ${themeStyles.text.muted}`}>
+									First session with these settings
+								</div>
+							) : score > personalBest ? (
+								<div className="inline-flex items-center font-semibold text-sm text-yellow-600">
+									<Trophy className="mr-1 h-4 w-4" />
+									New personal best! (previous {personalBest.toLocaleString()})
+								</div>
+							) : (
+								<div className={`text-sm ${themeStyles.text.secondary}`}>
+									Personal best: {personalBest.toLocaleString()} (
+									{(score - personalBest).toLocaleString()})
+								</div>
+							)}
+							{timeouts > 0 && (
+								<div className={`mt-1 text-sm ${themeStyles.text.muted}`}>
+									⏰ {timeouts} {timeouts === 1 ? "question" : "questions"}{" "}
+									timed out
+								</div>
+							)}
+						</div>
+
+						{children}
+
+						{/* Practice Type Summary */}
+						<div className={`rounded-lg p-4 ${themeStyles.page.sectionAlt}`}>
+							<h4 className={`mb-2 font-semibold ${themeStyles.text.primary}`}>
+								Session Details
+							</h4>
+							<div
+								className={`space-y-1 text-sm ${themeStyles.text.secondary}`}
+							>
+								{details}
+							</div>
+						</div>
+
+						{/* Action Buttons */}
+						<div className="grid grid-cols-2 gap-4">
+							<Button
+								onClick={onRestart}
+								className={`bg-gradient-to-r text-white ${theme.restartButton}`}
+								size="lg"
+							>
+								<Target className="mr-2 h-4 w-4" />
+								Practice Again
+							</Button>
+							<Button onClick={onBackToMenu} variant="outline" size="lg">
+								<ArrowLeft className="mr-2 h-4 w-4" />
+								Back to Menu
+							</Button>
+						</div>
+
+						<div className="flex flex-wrap justify-center gap-x-6 gap-y-2">
+							<Link
+								href="/history"
+								className={`inline-flex items-center text-sm hover:underline ${theme.statsAccent}`}
+							>
+								<TrendingUp className="mr-2 h-4 w-4" />
+								View your progress over time
+							</Link>
+							<button
+								type="button"
+								onClick={copyShareLink}
+								className={`inline-flex items-center text-sm hover:underline ${theme.statsAccent}`}
+							>
+								<Link2 className="mr-2 h-4 w-4" />
+								{linkCopied ? "Link copied!" : "Share this drill"}
+							</button>
+						</div>
+					</CardContent>
+				</Card>
+			</div>
+		</>
+	);
+}
@@ -0,0 +1,283 @@
+import { describe, expect, test } from "vitest";
+import {
+	type QuizAnswer,
+	type QuizQuestion,
+	type QuizState,
+	createQuizSession,
+	createQuizState,
+	getPersonalBest,
+	getQuestionRandom,
+	getQuizTimer,
+	getResultHeadline,
+	matchesAcceptedAnswer,
+	quizReducer,
+	scoreAnswer,
+	scoreAnswers,
+	summarizeQuizSession,
+} from "./quiz-engine";
+import type { HistoryEntry } from "./session-history";
+
+const question = (prompt: string, correctAnswer: string): QuizQuestion => ({
+	prompt,
+	correctAnswer,
+});
+
+function answer(isCorrect: boolean, timeMs: number): QuizAnswer {
+	return {
+		question: "?",
+		correctAnswer: "?",
+		userAnswer: "?",
+		timeMs,
+		isCorrect,
+	};
+}
+
+function startedQuiz(): QuizState<QuizQuestion> {
+	return quizReducer(createQuizState<QuizQuestion>(), {
+		type: "start",
+		question: question("3本", "さんぼん"),
+		now: 1000,
+	});
+}
+
+describe("Quiz Engine", () => {
+	describe("quizReducer", () => {
+		test("should record an answer with its timing", () => {
+			const state = quizReducer(startedQuiz(), {
+				type: "answer",
+				userAnswer: "さんほん",
+				isCorrect: false,
+				now: 3500,
+			});
+
+			expect(state.status).toBe("answered");
+			expect(state.isCorrect).toBe(false);
+			expect(state.answers).toEqual([
+				{
+					question: "3本",
+					correctAnswer: "さんぼん",
+					userAnswer: "さんほん",
+					timeMs: 2500,
+					isCorrect: false,
+				},
+			]);
+		});
+
+		test("should record each question only once", () => {
+			const answered = quizReducer(startedQuiz(), {
+				type: "answer",
+				userAnswer: "さんぼん",
+				isCorrect: true,
+				now: 2000,
+			});
+			const again = quizReducer(answered, {
+				type: "answer",
+				userAnswer: "さんぼん",
+				isCorrect: true,
+				now: 2100,
+			});
+
+			expect(again).toBe(answered);
+			expect(again.answers).toHaveLength(1);
+		});
+
+		test("should record a timeout as an incorrect answer", () => {
+			const state = quizReducer(startedQuiz(), {
+				type: "answer",
+				userAnswer: "",
+				isCorrect: false,
+				timedOut: true,
+				now: 11000,
+			});
+
+			expect(state.answers[0]).toMatchObject({
+				userAnswer: "",
+				timeMs: 10000,
+				isCorrect: false,
+				timedOut: true,
+			});
+		});
+
+		test("should only move on after an answer", () => {
+			const started = startedQuiz();
+			const next = question("6匹", "ろっぴき");
+
+			expect(
+				quizReducer(started, { type: "next", question: next, now: 0 }),
+			).toBe(started);
+
+			const answered = quizReducer(started, {
+				type: "answer",
+				userAnswer: "さんぼん",
+				isCorrect: true,
+				now: 2000,
+			});
+			const moved = quizReducer(answered, {
+				type: "next",
+				question: next,
+				now: 2500,
+			});
+
+			expect(moved.questionIndex).toBe(1);
+			expect(moved.question).toBe(next);
+			expect(moved.status).toBe("answering");
+			expect(moved.isCorrect).toBeNull();
+			expect(moved.questionStartTime).toBe(2500);
+			expect(moved.startTime).toBe(1000);
+		});
+	});
+
+	describe("createQuizSession", () => {
+		test("should count correct answers from the recorded answers", () => {
+			const answers = [true, false, true].map((isCorrect, index) => ({
+				question: `${index + 1}本`,
+				correctAnswer: "?",
+				userAnswer: "?",
+				timeMs: 1000,
+				isCorrect,
+			}));
+			const session = createQuizSession({ questionCount: 3 }, answers, 0, 6000);
+
+			expect(session.totalQuestions).toBe(3);
+			expect(session.correctAnswers).toBe(2);
+			expect(session.answers).toHaveLength(3);
+
+			const summary = summarizeQuizSession(session);
+			expect(summary.accuracy).toBeCloseTo(66.67, 1);
+			expect(summary.totalSeconds).toBe(6);
+			expect(summary.averageSeconds).toBe(2);
+		});
+
+		test("should count only the answered questions in a time attack", () => {
+			const session = createQuizSession(
+				{ questionCount: 10, sessionTimeLimit: 60 },
+				[answer(true, 2000), answer(false, 3000)],
+				0,
+				60000,
+			);
+
+			expect(session.totalQuestions).toBe(2);
+			expect(summarizeQuizSession(session).accuracy).toBe(50);
+		});
+
+		test("should summarize an empty session without dividing by zero", () => {
+			const summary = summarizeQuizSession(
+				createQuizSession({ questionCount: 0 }, [], 0, 0),
+			);
+			expect(summary).toEqual({
+				accuracy: 0,
+				totalSeconds: 0,
+				averageSeconds: 0,
+			});
+		});
+	});
+
+	describe("getQuizTimer", () => {
+		test("should count down from the limit and stop at zero", () => {
+			expect(getQuizTimer(10, 1000, 4000)).toEqual({
+				remainingMs: 7000,
+				totalMs: 10000,
+			});
+			expect(getQuizTimer(10, 1000, 20000).remainingMs).toBe(0);
+			// A clock read before the question started
+			expect(getQuizTimer(10, 1000, 500).remainingMs).toBe(10000);
+		});
+	});
+
+	describe("scoreAnswer", () => {
+		test("should reward fast correct answers", () => {
+			expect(scoreAnswer(answer(true, 0))).toBe(200);
+			expect(scoreAnswer(answer(true, 2500))).toBe(175);
+			expect(scoreAnswer(answer(true, 30000))).toBe(100);
+			expect(scoreAnswer(answer(false, 500))).toBe(0);
+			expect(scoreAnswer({ ...answer(false, 10000), timedOut: true })).toBe(0);
+			expect(scoreAnswers([answer(true, 0), answer(true, 5000)])).toBe(350);
+		});
+	});
+
+	describe("getPersonalBest", () => {
+		const entry = (
+			configLabel: string,
+			configuration: HistoryEntry["configuration"],
+			answers: QuizAnswer[],
+		): HistoryEntry => ({
+			lab: "suji-dash",
+			configLabel,
+			configuration,
+			startTime: 0,
+			endTime: 60000,
+			totalQuestions: answers.length,
+			correctAnswers: answers.filter((item) => item.isCorrect).length,
+			answers,
+		});
+
+		test("should compare sessions of the same configuration and length", () => {
+			const entries = [
+				entry("basic", { questionCount: 5 }, [answer(true, 0)]),
+				entry("basic", { questionCount: 5 }, [answer(true, 5000)]),
+				entry("basic", { questionCount: 10 }, [
+					answer(true, 0),
+					answer(true, 0),
+				]),
+				entry("complex", { questionCount: 5 }, [
+					answer(true, 0),
+					answer(true, 0),
+				]),
+				entry("basic", { questionCount: 5, sessionTimeLimit: 60 }, [
+					answer(true, 0),
+					answer(true, 0),
+					answer(true, 0),
+				]),
+			];
+
+			expect(
+				getPersonalBest(entries, "suji-dash", "basic", { questionCount: 5 }),
+			).toBe(200);
+			expect(
+				getPersonalBest(entries, "suji-dash", "basic", {
+					questionCount: 10,
+					sessionTimeLimit: 60,
+				}),
+			).toBe(600);
+			expect(
+				getPersonalBest(entries, "hidzuke-dash", "basic", { questionCount: 5 }),
+			).toBeNull();
+		});
+	});
+
+	describe("getQuestionRandom", () => {
+		test("should give each question of a seeded session its own sequence", () => {
+			const first = getQuestionRandom("seed", 0);
+			expect(first()).toBe(getQuestionRandom("seed", 0)());
+			expect(getQuestionRandom("seed", 1)()).not.toBe(
+				getQuestionRandom("seed", 0)(),
+			);
+		});
+
+		test("should fall back on Math.random without a seed", () => {
+			expect(getQuestionRandom(undefined, 0)).toBe(Math.random);
+		});
+	});
+
+	describe("getResultHeadline", () => {
+		test("should pick a headline by accuracy", () => {
+			expect(getResultHeadline(100)).toBe("🎉 Excellent!");
+			expect(getResultHeadline(75)).toBe("👏 Great job!");
+			expect(getResultHeadline(50)).toBe("👍 Good work!");
+			expect(getResultHeadline(20)).toBe("💪 Keep practicing!");
+		});
+	});
+
+	describe("matchesAcceptedAnswer", () => {
+		test("should ignore case, spacing and full-width characters", () => {
+			expect(matchesAcceptedAnswer(" Monday ", ["monday"])).toBe(true);
+			expect(matchesAcceptedAnswer("３月", ["3月"])).toBe(true);
+			expect(
+				matchesAcceptedAnswer("げつようび", ["月曜日", "げつようび"]),
+			).toBe(true);
+			expect(matchesAcceptedAnswer("かようび", ["月曜日", "げつようび"])).toBe(
+				false,
+			);
+		});
+	});
+});
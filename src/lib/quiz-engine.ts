@@ -0,0 +1,734 @@
+// Shared quiz engine: question flow, answer recording and session results
+// for the Dash labs. A lab supplies a question generator and an answer checker.
+
+import {
+	type KeyboardEvent,
+	type RefObject,
+	useCallback,
+	useEffect,
+	useReducer,
+	useRef,
+	useState,
+} from "react";
+import type { z } from "zod";
+import { createDailyResult, saveDailyResult } from "./daily-challenge";
+import { createSeededRandom, generateSeed } from "./seeded-random";
+import {
+	type HistoryEntry,
+	type LabId,
+	createHistoryEntry,
+	loadHistoryEntries,
+	saveHistoryEntry,
+} from "./session-history";
+import { createConfigSearch, readConfigSearch } from "./session-links";
+import {
+	getDueItems,
+	loadReviewCards,
+	recordReviewAnswers,
+} from "./spaced-repetition";
+
+// Game flow states
+export type GameState = "configuration" | "playing" | "results";
+
+// Every lab configuration has at least a session length
+export interface QuizConfiguration {
+	questionCount: number;
+	// Seconds to answer each question; unanswered questions time out
+	timeLimit?: number;
+	// Seconds for the whole session ("time attack"); questionCount is ignored
+	sessionTimeLimit?: number;
+	// Sessions with the same seed and settings ask the same questions
+	seed?: string;
+}
+
+export interface QuizQuestion {
+	// What is shown (and recorded) as the question
+	prompt: string;
+	// What is shown (and recorded) as the expected answer
+	correctAnswer: string;
+	// Spaced-repetition items this question practises (八百, months:四月)
+	reviewItems?: string[];
+	// Answered by picking one of these instead of typing
+	choices?: string[];
+}
+
+export interface QuizAnswer {
+	question: string;
+	correctAnswer: string;
+	userAnswer: string;
+	timeMs: number;
+	isCorrect: boolean;
+	reviewItems?: string[];
+	// What kind of slip a wrong answer was (rendaku, long-vowel)
+	mistakes?: string[];
+	// The time limit ran out before an answer was submitted
+	timedOut?: boolean;
+}
+
+export interface QuizSession<TConfig extends QuizConfiguration> {
+	configuration: TConfig;
+	startTime: Date;
+	endTime?: Date;
+	totalQuestions: number;
+	correctAnswers: number;
+	answers: QuizAnswer[];
+}
+
+export interface QuizTimer {
+	remainingMs: number;
+	totalMs: number;
+}
+
+export interface QuizSummary {
+	accuracy: number; // percentage, 0-100
+	totalSeconds: number;
+	averageSeconds: number;
+}
+
+export interface QuizState<TQuestion extends QuizQuestion> {
+	questionIndex: number;
+	question: TQuestion | null;
+	status: "answering" | "answered";
+	// Whether the current question was answered correctly, once answered
+	isCorrect: boolean | null;
+	answers: QuizAnswer[];
+	startTime: number;
+	questionStartTime: number;
+}
+
+export type QuizAction<TQuestion extends QuizQuestion> =
+	| { type: "start"; question: TQuestion; now: number }
+	| {
+			type: "answer";
+			userAnswer: string;
+			isCorrect: boolean;
+			mistakes?: string[];
+			timedOut?: boolean;
+			now: number;
+	  }
+	| { type: "next"; question: TQuestion; now: number };
+
+/**
+ * Get the random number generator for one question of a session. Each
+ * question has its own, so question n of a seeded session is the same
+ * however many times it is generated (React may run effects twice).
+ */
+export function getQuestionRandom(
+	seed: string | undefined,
+	questionIndex: number,
+): () => number {
+	return seed ? createSeededRandom(`${seed}:${questionIndex}`) : Math.random;
+}
+
+/**
+ * Create the state of a quiz that has not shown its first question yet
+ */
+export function createQuizState<TQuestion extends QuizQuestion>(
+	now = 0,
+): QuizState<TQuestion> {
+	return {
+		questionIndex: 0,
+		question: null,
+		status: "answering",
+		isCorrect: null,
+		answers: [],
+		startTime: now,
+		questionStartTime: now,
+	};
+}
+
+/**
+ * Move a quiz forward. Each question is recorded exactly once, when answered.
+ */
+export function quizReducer<TQuestion extends QuizQuestion>(
+	state: QuizState<TQuestion>,
+	action: QuizAction<TQuestion>,
+): QuizState<TQuestion> {
+	switch (action.type) {
+		case "start":
+			return {
+				...createQuizState<TQuestion>(action.now),
+				question: action.question,
+			};
+
+		case "answer": {
+			if (!state.question || state.status === "answered") return state;
+			return {
+				...state,
+				status: "answered",
+				isCorrect: action.isCorrect,
+				answers: [
+					...state.answers,
+					{
+						question: state.question.prompt,
+						correctAnswer: state.question.correctAnswer,
+						userAnswer: action.userAnswer,
+						timeMs: action.now - state.questionStartTime,
+						isCorrect: action.isCorrect,
+						reviewItems: state.question.reviewItems,
+						mistakes: action.mistakes,
+						timedOut: action.timedOut,
+					},
+				],
+			};
+		}
+
+		case "next":
+			if (state.status !== "answered") return state;
+			return {
+				...state,
+				questionIndex: state.questionIndex + 1,
+				question: action.question,
+				status: "answering",
+				isCorrect: null,
+				questionStartTime: action.now,
+			};
+	}
+}
+
+/**
+ * Build the finished session from the recorded answers. A time-attack
+ * session counts the questions that were answered before time ran out.
+ */
+export function createQuizSession<TConfig extends QuizConfiguration>(
+	configuration: TConfig,
+	answers: QuizAnswer[],
+	startTime: number,
+	endTime: number,
+): QuizSession<TConfig> {
+	return {
+		configuration,
+		startTime: new Date(startTime),
+		endTime: new Date(endTime),
+		totalQuestions: configuration.sessionTimeLimit
+			? answers.length
+			: configuration.questionCount,
+		correctAnswers: answers.filter((answer) => answer.isCorrect).length,
+		answers,
+	};
+}
+
+/**
+ * Work out accuracy and timings for the results screen
+ */
+export function summarizeQuizSession<TConfig extends QuizConfiguration>(
+	session: QuizSession<TConfig>,
+): QuizSummary {
+	const totalSeconds = session.endTime
+		? (session.endTime.getTime() - session.startTime.getTime()) / 1000
+		: 0;
+	if (session.totalQuestions === 0) {
+		return { accuracy: 0, totalSeconds, averageSeconds: 0 };
+	}
+	return {
+		accuracy: (session.correctAnswers / session.totalQuestions) * 100,
+		totalSeconds,
+		averageSeconds: totalSeconds / session.totalQuestions,
+	};
+}
+
+/**
+ * Pick the results headline for an accuracy percentage
+ */
+export function getResultHeadline(accuracy: number): string {
+	if (accuracy >= 90) return "🎉 Excellent!";
+	if (accuracy >= 70) return "👏 Great job!";
+	if (accuracy >= 50) return "👍 Good work!";
+	return "💪 Keep practicing!";
+}
+
+/**
+ * Work out a countdown of limitSeconds that started at startedAt
+ */
+export function getQuizTimer(
+	limitSeconds: number,
+	startedAt: number,
+	now: number,
+): QuizTimer {
+	const totalMs = limitSeconds * 1000;
+	return {
+		remainingMs: Math.min(totalMs, Math.max(0, totalMs - (now - startedAt))),
+		totalMs,
+	};
+}
+
+// Each correct answer scores base points plus a bonus that shrinks to zero
+// over the first few seconds
+const BASE_POINTS = 100;
+const MAX_SPEED_BONUS = 100;
+const SPEED_BONUS_MS = 10000;
+
+/**
+ * Score one answer; wrong and timed-out answers score nothing
+ */
+export function scoreAnswer(answer: QuizAnswer): number {
+	if (!answer.isCorrect) return 0;
+	const speed = Math.max(0, 1 - answer.timeMs / SPEED_BONUS_MS);
+	return BASE_POINTS + Math.round(MAX_SPEED_BONUS * speed);
+}
+
+/**
+ * Score a session's answers
+ */
+export function scoreAnswers(answers: QuizAnswer[]): number {
+	return answers.reduce((total, answer) => total + scoreAnswer(answer), 0);
+}
+
+/**
+ * Find the best score among saved sessions of the same lab, configuration and
+ * length (question count, or time-attack duration), or null when there are
+ * none
+ */
+export function getPersonalBest(
+	entries: HistoryEntry[],
+	lab: LabId,
+	configLabel: string,
+	configuration: QuizConfiguration,
+): number | null {
+	const isSameLength = (other: QuizConfiguration) =>
+		configuration.sessionTimeLimit
+			? other.sessionTimeLimit === configuration.sessionTimeLimit
+			: !other.sessionTimeLimit &&
+				other.questionCount === configuration.questionCount;
+	const scores = entries
+		.filter(
+			(entry) =>
+				entry.lab === lab &&
+				entry.configLabel === configLabel &&
+				isSameLength(entry.configuration),
+		)
+		.map((entry) => scoreAnswers(entry.answers));
+	return scores.length > 0 ? Math.max(...scores) : null;
+}
+
+/**
+ * Normalize typed input for comparison (full-width → half-width, case, spaces)
+ */
+export function normalizeAnswer(text: string): string {
+	return text.normalize("NFKC").trim().toLowerCase();
+}
+
+/**
+ * Check input against a list of accepted spellings
+ */
+export function matchesAcceptedAnswer(
+	userInput: string,
+	acceptedAnswers: string[],
+): boolean {
+	const guess = normalizeAnswer(userInput);
+	return acceptedAnswers.some((answer) => normalizeAnswer(answer) === guess);
+}
+
+/**
+ * Run a state change inside a view transition when the browser supports it
+ */
+export function runViewTransition(callback: () => void) {
+	if (typeof document !== "undefined" && "startViewTransition" in document) {
+		document.startViewTransition(() => {
+			callback();
+		});
+	} else {
+		// Fallback for browsers without View Transitions API
+		callback();
+	}
+}
+
+export interface UseQuizOptions<
+	TConfig extends QuizConfiguration,
+	TQuestion extends QuizQuestion,
+> {
+	config: TConfig;
+	// Draw every random choice from random so seeded sessions replay exactly.
+	// questionIndex counts from 0.
+	generateQuestion: (random: () => number, questionIndex: number) => TQuestion;
+	checkAnswer: (userInput: string, question: TQuestion) => boolean;
+	// Label a wrong answer's mistakes for the results screen
+	diagnoseMistakes?: (userInput: string, question: TQuestion) => string[];
+	// Called after each answer, e.g. to play the reading
+	onAnswer?: (question: TQuestion, isCorrect: boolean) => void;
+	onComplete: (session: QuizSession<TConfig>) => void;
+}
+
+export interface QuizController<TQuestion extends QuizQuestion> {
+	question: TQuestion | null;
+	questionIndex: number;
+	questionCount: number;
+	isLastQuestion: boolean;
+	userInput: string;
+	setUserInput: (value: string) => void;
+	showAnswer: boolean;
+	isCorrect: boolean | null;
+	answers: QuizAnswer[];
+	// Countdown for the current question, when it has a time limit
+	questionTimer: QuizTimer | null;
+	// Countdown for a time-attack session
+	sessionTimer: QuizTimer | null;
+	inputRef: RefObject<HTMLInputElement | null>;
+	submitAnswer: () => void;
+	// Answer with text from another input, such as speech recognition
+	submitText: (text: string) => void;
+	// Give up on the current question; it counts as incorrect
+	revealAnswer: () => void;
+	nextQuestion: () => void;
+	handleKeyDown: (e: KeyboardEvent) => void;
+}
+
+/**
+ * Drive one practice session: generate questions, check and record answers,
+ * and hand the finished session to onComplete
+ */
+export function useQuiz<
+	TConfig extends QuizConfiguration,
+	TQuestion extends QuizQuestion,
+>(options: UseQuizOptions<TConfig, TQuestion>): QuizController<TQuestion> {
+	const [state, dispatch] = useReducer(
+		(current: QuizState<TQuestion>, action: QuizAction<TQuestion>) =>
+			quizReducer(current, action),
+		createQuizState<TQuestion>(),
+	);
+	const [userInput, setUserInput] = useState("");
+	const inputRef = useRef<HTMLInputElement>(null);
+
+	// Always call the latest callbacks without restarting the session
+	const optionsRef = useRef(options);
+	optionsRef.current = options;
+
+	// Questions are random, so the first one is generated after mounting
+	useEffect(() => {
+		const { config, generateQuestion } = optionsRef.current;
+		dispatch({
+			type: "start",
+			question: generateQuestion(getQuestionRandom(config.seed, 0), 0),
+			now: Date.now(),
+		});
+		inputRef.current?.focus();
+	}, []);
+
+	const { questionCount, timeLimit, sessionTimeLimit } = options.config;
+	const isLastQuestion =
+		!sessionTimeLimit && state.questionIndex + 1 >= questionCount;
+
+	// Tick while a timed session is running
+	const isTimed = Boolean(timeLimit || sessionTimeLimit);
+	const [now, setNow] = useState(() => Date.now());
+	useEffect(() => {
+		if (!isTimed) return;
+		const interval = setInterval(() => setNow(Date.now()), 200);
+		return () => clearInterval(interval);
+	}, [isTimed]);
+
+	const questionTimer =
+		timeLimit && state.question && state.status === "answering"
+			? getQuizTimer(timeLimit, state.questionStartTime, now)
+			: null;
+	const sessionTimer =
+		sessionTimeLimit && state.question
+			? getQuizTimer(sessionTimeLimit, state.startTime, now)
+			: null;
+
+	const recordAnswer = useCallback(
+		(userAnswer: string, isCorrect: boolean, timedOut?: boolean) => {
+			if (!state.question || state.status !== "answering") return;
+			const mistakes =
+				!isCorrect && userAnswer
+					? optionsRef.current.diagnoseMistakes?.(userAnswer, state.question)
+					: undefined;
+			dispatch({
+				type: "answer",
+				userAnswer,
+				isCorrect,
+				mistakes,
+				timedOut,
+				now: Date.now(),
+			});
+			optionsRef.current.onAnswer?.(state.question, isCorrect);
+		},
+		[state.question, state.status],
+	);
+
+	const submitText = useCallback(
+		(text: string) => {
+			const userAnswer = text.trim();
+			if (!state.question || state.status !== "answering" || !userAnswer) {
+				return;
+			}
+			setUserInput(userAnswer);
+			recordAnswer(
+				userAnswer,
+				optionsRef.current.checkAnswer(userAnswer, state.question),
+			);
+		},
+		[recordAnswer, state.question, state.status],
+	);
+
+	const submitAnswer = useCallback(() => {
+		submitText(userInput);
+	}, [submitText, userInput]);
+
+	const revealAnswer = useCallback(() => {
+		recordAnswer(userInput.trim(), false);
+	}, [recordAnswer, userInput]);
+
+	// The session can end from the last question or the session timer
+	const isCompleteRef = useRef(false);
+	const completeSession = useCallback(
+		(answers: QuizAnswer[]) => {
+			if (isCompleteRef.current) return;
+			isCompleteRef.current = true;
+			const { config, onComplete } = optionsRef.current;
+			onComplete(
+				createQuizSession(config, answers, state.startTime, Date.now()),
+			);
+		},
+		[state.startTime],
+	);
+
+	// An unanswered question counts as incorrect when its time runs out
+	useEffect(() => {
+		if (questionTimer?.remainingMs === 0) {
+			recordAnswer(userInput.trim(), false, true);
+		}
+	}, [questionTimer?.remainingMs, recordAnswer, userInput]);
+
+	// A time-attack session ends with the answers given so far
+	useEffect(() => {
+		if (sessionTimer?.remainingMs === 0) completeSession(state.answers);
+	}, [sessionTimer?.remainingMs, completeSession, state.answers]);
+
+	const nextQuestion = useCallback(() => {
+		if (state.status !== "answered") return;
+
+		if (isLastQuestion) {
+			completeSession(state.answers);
+			return;
+		}
+
+		const { config, generateQuestion } = optionsRef.current;
+		dispatch({
+			type: "next",
+			question: generateQuestion(
+				getQuestionRandom(config.seed, state.questionIndex + 1),
+				state.questionIndex + 1,
+			),
+			now: Date.now(),
+		});
+		setUserInput("");
+		setTimeout(() => {
+			inputRef.current?.focus();
+		}, 100);
+	}, [
+		completeSession,
+		isLastQuestion,
+		state.answers,
+		state.questionIndex,
+		state.status,
+	]);
+
+	const handleKeyDown = (e: KeyboardEvent) => {
+		if (e.key !== "Enter") return;
+		e.preventDefault();
+		if (state.status === "answering") {
+			submitAnswer();
+		} else {
+			nextQuestion();
+		}
+	};
+
+	return {
+		question: state.question,
+		questionIndex: state.questionIndex,
+		questionCount,
+		isLastQuestion,
+		userInput,
+		setUserInput,
+		showAnswer: state.status === "answered",
+		isCorrect: state.isCorrect,
+		answers: state.answers,
+		questionTimer,
+		sessionTimer,
+		inputRef,
+		submitAnswer,
+		submitText,
+		revealAnswer,
+		nextQuestion,
+		handleKeyDown,
+	};
+}
+
+export interface QuizFlow<TConfig extends QuizConfiguration> {
+	gameState: GameState;
+	config: TConfig | null;
+	// What the configuration screen starts from: the defaults, the settings a
+	// link gave, or the last session's. Null until the address bar is read.
+	initialConfig: TConfig | null;
+	session: QuizSession<TConfig> | null;
+	// Spaced-repetition items due now, most overdue first; null until loaded
+	dueItems: string[] | null;
+	// Best score for the finished session's configuration before it was played
+	personalBest: number | null;
+	start: (config: TConfig) => void;
+	complete: (session: QuizSession<TConfig>) => void;
+	backToConfiguration: () => void;
+	backToMenu: () => void;
+}
+
+export interface UseQuizFlowOptions<TConfig extends QuizConfiguration> {
+	lab: LabId;
+	// Label that groups sessions in the history ("kanji → japanese • basic")
+	describeConfiguration: (config: TConfig) => string;
+	// Checks the settings a link gives; anything it leaves out is a default
+	configurationSchema: z.ZodType<TConfig, z.ZodTypeDef, unknown>;
+	defaultConfiguration: TConfig;
+}
+
+/**
+ * Move a lab between configuration, playing and results with view
+ * transitions, saving each finished session to the history (and to the
+ * daily challenge, if it was that) and its answers to the review schedule.
+ * Escape returns to the configuration screen. The settings are kept in the
+ * address bar, so any setup can be linked to.
+ */
+export function useQuizFlow<TConfig extends QuizConfiguration>({
+	lab,
+	describeConfiguration,
+	configurationSchema,
+	defaultConfiguration,
+}: UseQuizFlowOptions<TConfig>): QuizFlow<TConfig> {
+	const [gameState, setGameState] = useState<GameState>("configuration");
+	const [config, setConfig] = useState<TConfig | null>(null);
+	const [initialConfig, setInitialConfig] = useState<TConfig | null>(null);
+	const [session, setSession] = useState<QuizSession<TConfig> | null>(null);
+	const [dueItems, setDueItems] = useState<string[] | null>(null);
+	const [personalBest, setPersonalBest] = useState<number | null>(null);
+
+	// A link fills in the configuration screen, or with a seed or start=1
+	// starts its session straight away. Invalid links are ignored.
+	useEffect(() => {
+		const linked = readConfigSearch(
+			window.location.search,
+			configurationSchema,
+			defaultConfiguration,
+		);
+		if (!linked) {
+			setInitialConfig(defaultConfiguration);
+			return;
+		}
+		const { seed, ...settings } = linked.config;
+		setInitialConfig(settings as TConfig);
+		if (!linked.start) return;
+		const startedConfig = { ...linked.config, seed: seed ?? generateSeed() };
+		window.history.replaceState(null, "", createConfigSearch(startedConfig));
+		setConfig(startedConfig);
+		setGameState("playing");
+	}, [configurationSchema, defaultConfiguration]);
+
+	// Refresh the review queue whenever the configuration screen is shown. A
+	// linked session can start before the first load, so that one finishes
+	// even while playing.
+	const needsDueItems = gameState === "configuration" || dueItems === null;
+	useEffect(() => {
+		if (!needsDueItems) return;
+		let cancelled = false;
+		loadReviewCards(lab)
+			.then((cards) => {
+				if (!cancelled) setDueItems(getDueItems(cards, Date.now()));
+			})
+			.catch(() => {
+				if (!cancelled) setDueItems([]);
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [needsDueItems, lab]);
+
+	const backToConfiguration = useCallback(() => {
+		// Keep the settings in the address bar, but not the session's seed
+		if (initialConfig) {
+			window.history.replaceState(null, "", createConfigSearch(initialConfig));
+		}
+		runViewTransition(() => {
+			setGameState("configuration");
+			setConfig(null);
+			setSession(null);
+		});
+	}, [initialConfig]);
+
+	// Keyboard shortcuts for navigation
+	useEffect(() => {
+		const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+			if (e.key === "Escape" && gameState !== "configuration") {
+				backToConfiguration();
+			}
+		};
+
+		window.addEventListener("keydown", handleKeyDown);
+		return () => window.removeEventListener("keydown", handleKeyDown);
+	}, [gameState, backToConfiguration]);
+
+	return {
+		gameState,
+		config,
+		initialConfig,
+		session,
+		dueItems,
+		personalBest,
+		start: (nextConfig) => {
+			// Every session gets a seed, and the address bar a link to replay it
+			const { seed, ...settings } = nextConfig;
+			const seededConfig = { ...nextConfig, seed: seed ?? generateSeed() };
+			window.history.replaceState(null, "", createConfigSearch(seededConfig));
+			runViewTransition(() => {
+				setInitialConfig(settings as TConfig);
+				setConfig(seededConfig);
+				setGameState("playing");
+			});
+		},
+		complete: (finishedSession) => {
+			const configLabel = describeConfiguration(finishedSession.configuration);
+			setPersonalBest(null);
+			// History is a bonus; practice keeps working without IndexedDB.
+			// The personal best is read before this session is saved.
+			loadHistoryEntries()
+				.then((entries) =>
+					setPersonalBest(
+						getPersonalBest(
+							entries,
+							lab,
+							configLabel,
+							finishedSession.configuration,
+						),
+					),
+				)
+				.catch(() => setPersonalBest(null))
+				.then(() =>
+					saveHistoryEntry(
+						createHistoryEntry(lab, configLabel, finishedSession),
+					),
+				)
+				.catch((error: unknown) => {
+					console.error("Could not save the session history", error);
+				});
+			const dailyResult = createDailyResult(lab, finishedSession);
+			if (dailyResult) {
+				saveDailyResult(dailyResult).catch((error: unknown) => {
+					console.error("Could not save the daily challenge", error);
+				});
+			}
+			recordReviewAnswers(lab, finishedSession.answers).catch(
+				(error: unknown) => {
+					console.error("Could not update the review schedule", error);
+				},
+			);
+			runViewTransition(() => {
+				setSession(finishedSession);
+				setGameState("results");
+			});
+		},
+		backToConfiguration,
+		backToMenu: () =>
+			runViewTransition(() => {
+				// Navigate back to main menu (home page)
+				window.location.href = "/";
+			}),
+	};
+}
@@ -0,0 +1,190 @@
+import { describe, expect, test } from "vitest";
+import { dateCounters, daysOfWeek, months } from "./japanese-dates";
+import { convertToJapanese, isAnswerCorrect } from "./japanese-numbers";
+import {
+	FALSE,
+	TRUE,
+	collectOtherStatements,
+	createChoices,
+	createSpotTheWrong,
+	createTrueFalse,
+	formatStatement,
+	getDateWordMistakes,
+	getReadingMistakes,
+	pickDistractors,
+	shuffle,
+} from "./quiz-formats";
+import { createSeededRandom } from "./seeded-random";
+
+describe("Quiz Formats", () => {
+	describe("shuffle", () => {
+		test("should keep every item without changing the original", () => {
+			const items = [1, 2, 3, 4, 5];
+			const shuffled = shuffle(items);
+			expect([...shuffled].sort()).toEqual(items);
+			expect(items).toEqual([1, 2, 3, 4, 5]);
+		});
+
+		test("should shuffle the same way for the same seed", () => {
+			const items = [1, 2, 3, 4, 5, 6, 7, 8];
+			expect(shuffle(items, createSeededRandom("deck"))).toEqual(
+				shuffle(items, createSeededRandom("deck")),
+			);
+		});
+	});
+
+	describe("getReadingMistakes", () => {
+		test("should start with misapplied sound changes", () => {
+			expect(getReadingMistakes(convertToJapanese(600)).slice(0, 2)).toEqual([
+				"ろくひゃく",
+				"ろっひゃく",
+			]);
+			expect(getReadingMistakes(convertToJapanese(300))).toContain(
+				"さんひゃく",
+			);
+			expect(getReadingMistakes(convertToJapanese(3000))).toContain("さんせん");
+			expect(getReadingMistakes(convertToJapanese(10n ** 12n))).toContain(
+				"いちちょう",
+			);
+		});
+
+		test("should never offer an accepted reading", () => {
+			for (const num of [4, 7, 9, 40, 70, 400, 600, 800, 1000, 10000000]) {
+				const japaneseNumber = convertToJapanese(num);
+				for (const mistake of getReadingMistakes(japaneseNumber)) {
+					expect(isAnswerCorrect(mistake, japaneseNumber)).toBe(false);
+				}
+			}
+		});
+
+		test("should fall back on nearby numbers", () => {
+			expect(getReadingMistakes(convertToJapanese(5))).toEqual(
+				expect.arrayContaining(["ろく", "よん"]),
+			);
+		});
+	});
+
+	describe("getDateWordMistakes", () => {
+		test("should offer the regular reading of the number", () => {
+			const april = months[3];
+			const fourth = dateCounters[3];
+			if (!april || !fourth) throw new Error("missing data");
+			expect(getDateWordMistakes(april, months, "がつ")[0]).toBe("よんがつ");
+			expect(getDateWordMistakes(fourth, dateCounters, "にち")[0]).toBe(
+				"よんにち",
+			);
+		});
+
+		test("should offer the readings of nearby words", () => {
+			const monday = daysOfWeek[0];
+			if (!monday) throw new Error("missing data");
+			const mistakes = getDateWordMistakes(monday, daysOfWeek);
+			expect(mistakes).toHaveLength(3);
+			expect(mistakes).not.toContain(monday.reading);
+		});
+	});
+
+	describe("pickDistractors", () => {
+		test("should leave out accepted answers and duplicates", () => {
+			const distractors = pickDistractors(
+				["しがつ", "よんがつ", "よんがつ", "ごがつ"],
+				(answer) => answer === "しがつ",
+			);
+			expect([...distractors].sort()).toEqual(["ごがつ", "よんがつ"]);
+		});
+
+		test("should take at most three", () => {
+			expect(
+				pickDistractors(["a", "b", "c", "d", "e"], () => false),
+			).toHaveLength(3);
+		});
+	});
+
+	describe("createChoices", () => {
+		test("should include the answer once among the distractors", () => {
+			const choices = createChoices("ろっぴゃく", [
+				"ろくひゃく",
+				"ろっひゃく",
+				"ななひゃく",
+			]);
+			expect(choices).toHaveLength(4);
+			expect(choices.filter((choice) => choice === "ろっぴゃく")).toHaveLength(
+				1,
+			);
+		});
+	});
+
+	describe("createTrueFalse", () => {
+		test("should answer True for the right reading and False for a mistake", () => {
+			const statement = {
+				text: "六百",
+				reading: "ろっぴゃく",
+				mistakes: ["ろくひゃく"],
+			};
+			for (let i = 0; i < 20; i++) {
+				const question = createTrueFalse(statement);
+				expect(question.correctAnswer).toBe(
+					question.prompt === formatStatement("六百", "ろっぴゃく")
+						? TRUE
+						: FALSE,
+				);
+			}
+		});
+
+		test("should be true when there is no mistake to show", () => {
+			expect(
+				createTrueFalse({ text: "五", reading: "ご", mistakes: [] })
+					.correctAnswer,
+			).toBe(TRUE);
+		});
+	});
+
+	describe("collectOtherStatements", () => {
+		test("should take the others from the question's generator", () => {
+			const numbers = ["八百", "八百五", "八百", "八百十二", "八百三十"];
+			const readings: Record<string, string> = {
+				八百: "はっぴゃく",
+				八百五: "はっぴゃくご",
+				八百十二: "はっぴゃくじゅうに",
+				八百三十: "はっぴゃくさんじゅう",
+			};
+			let next = 0;
+			const others = collectOtherStatements("八百", () => {
+				const text = numbers[next++ % numbers.length] ?? "八百";
+				return { text, reading: readings[text] ?? "" };
+			});
+			expect(others).toEqual([
+				{ text: "八百五", reading: "はっぴゃくご", mistakes: [] },
+				{ text: "八百十二", reading: "はっぴゃくじゅうに", mistakes: [] },
+				{ text: "八百三十", reading: "はっぴゃくさんじゅう", mistakes: [] },
+			]);
+		});
+
+		test("should settle for fewer when the generator keeps repeating", () => {
+			expect(
+				collectOtherStatements("五", () => ({ text: "五", reading: "ご" })),
+			).toEqual([]);
+		});
+	});
+
+	describe("createSpotTheWrong", () => {
+		test("should show exactly one wrong reading", () => {
+			const question = createSpotTheWrong([
+				{ text: "六百", reading: "ろっぴゃく", mistakes: ["ろくひゃく"] },
+				{ text: "三", reading: "さん", mistakes: [] },
+				{ text: "八", reading: "はち", mistakes: [] },
+				{ text: "千", reading: "せん", mistakes: [] },
+			]);
+			expect(question?.correctAnswer).toBe("六百 — ろくひゃく");
+			expect(question?.choices).toHaveLength(4);
+			expect(question?.choices).toContain("三 — さん");
+			expect(question?.choices).not.toContain("六百 — ろっぴゃく");
+		});
+
+		test("should give up when nothing can be wrong", () => {
+			expect(
+				createSpotTheWrong([{ text: "五", reading: "ご", mistakes: [] }]),
+			).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,265 @@
+// Question formats besides typing the answer: multiple choice, true or false,
+// and "which reading is wrong". Distractors are plausible mistakes
+// (ろくひゃく for ろっぴゃく) that the answer checkers reject.
+
+import type { DateWord, NumberedDateWord } from "./japanese-dates";
+import {
+	type JapaneseNumber,
+	convertToJapanese,
+	isAnswerCorrect,
+} from "./japanese-numbers";
+
+export type QuestionFormat =
+	| "typed"
+	| "multiple-choice"
+	| "true-false"
+	| "spot-the-wrong";
+
+export const questionFormats: Array<{
+	id: QuestionFormat;
+	label: string;
+	description: string;
+}> = [
+	{ id: "typed", label: "Type the Answer", description: "Free text input" },
+	{
+		id: "multiple-choice",
+		label: "Multiple Choice",
+		description: "Pick the right reading from four",
+	},
+	{
+		id: "true-false",
+		label: "True or False",
+		description: "Is the reading shown right?",
+	},
+	{
+		id: "spot-the-wrong",
+		label: "Spot the Wrong Reading",
+		description: "One of four readings has a mistake",
+	},
+];
+
+export const TRUE = "True";
+export const FALSE = "False";
+
+const CHOICE_COUNT = 4;
+// Tries at finding other statements before settling for fewer choices
+const STATEMENT_ATTEMPTS = 20;
+
+// Misapplied or missed sound changes, tried at every place they fit
+const soundChangeMistakes: Array<[string, string]> = [
+	["ろっぴゃく", "ろくひゃく"],
+	["ろっぴゃく", "ろっひゃく"],
+	["はっぴゃく", "はちひゃく"],
+	["はっぴゃく", "はっひゃく"],
+	["さんびゃく", "さんひゃく"],
+	["さんびゃく", "さんぴゃく"],
+	["ひゃく", "びゃく"],
+	["ひゃく", "ぴゃく"],
+	["さんぜん", "さんせん"],
+	["はっせん", "はちせん"],
+	["いっせん", "いちせん"],
+	["せん", "ぜん"],
+	["いっちょう", "いちちょう"],
+	["はっちょう", "はちちょう"],
+	["じゅっちょう", "じゅうちょう"],
+	["いっけい", "いちけい"],
+	["ろっけい", "ろくけい"],
+	["はっけい", "はちけい"],
+	["じゅっけい", "じゅうけい"],
+	["よんひゃく", "しひゃく"],
+	["よんせん", "しせん"],
+	["きゅうひゃく", "くひゃく"],
+	["きゅうせん", "くせん"],
+];
+
+/**
+ * Shuffle a copy of a list
+ */
+export function shuffle<T>(
+	items: readonly T[],
+	random: () => number = Math.random,
+): T[] {
+	const shuffled = [...items];
+	for (let i = shuffled.length - 1; i > 0; i--) {
+		const j = Math.floor(random() * (i + 1));
+		const item = shuffled[i] as T;
+		shuffled[i] = shuffled[j] as T;
+		shuffled[j] = item;
+	}
+	return shuffled;
+}
+
+function applyEverywhere(text: string, from: string, to: string): string[] {
+	const results: string[] = [];
+	for (
+		let index = text.indexOf(from);
+		index !== -1;
+		index = text.indexOf(from, index + 1)
+	) {
+		results.push(text.slice(0, index) + to + text.slice(index + from.length));
+	}
+	return results;
+}
+
+/**
+ * Plausible wrong readings of a number, most plausible first: misapplied
+ * sound changes (ろくひゃく, さんせん), then the readings of nearby numbers
+ */
+export function getReadingMistakes(
+	japaneseNumber: JapaneseNumber,
+	random: () => number = Math.random,
+): string[] {
+	const reading = japaneseNumber.hiragana;
+	const soundChanges = soundChangeMistakes.flatMap(([from, to]) =>
+		applyEverywhere(reading, from, to),
+	);
+	const nearby = Number.isSafeInteger(japaneseNumber.number)
+		? [1, 10, 100]
+				.flatMap((step) => [
+					japaneseNumber.number + step,
+					japaneseNumber.number - step,
+				])
+				.filter((num) => num >= 0)
+				.map((num) => convertToJapanese(num).hiragana)
+		: [];
+	return [...new Set([...soundChanges, ...shuffle(nearby, random)])].filter(
+		(mistake) => mistake !== "?" && !isAnswerCorrect(mistake, japaneseNumber),
+	);
+}
+
+/**
+ * Plausible wrong readings of a calendar word: the regular reading of its
+ * number (よんがつ, いちにち), then the readings of the words around it
+ */
+export function getDateWordMistakes(
+	word: DateWord | NumberedDateWord,
+	words: DateWord[],
+	counterReading?: string,
+	random: () => number = Math.random,
+): string[] {
+	const regular =
+		"number" in word && counterReading
+			? [`${convertToJapanese(word.number).hiragana}${counterReading}`]
+			: [];
+	const index = words.indexOf(word);
+	const nearby = words
+		.filter((_, i) => i !== index && Math.abs(i - index) <= 3)
+		.map((other) => other.reading);
+	return [...new Set([...regular, ...shuffle(nearby, random)])].filter(
+		(mistake) => mistake !== word.reading,
+	);
+}
+
+/**
+ * Pick distractors the checker rejects, keeping the most plausible ones
+ */
+export function pickDistractors(
+	mistakes: string[],
+	isCorrect: (answer: string) => boolean,
+	random: () => number = Math.random,
+	count = CHOICE_COUNT - 1,
+): string[] {
+	const candidates = [...new Set(mistakes)].filter(
+		(mistake) => !isCorrect(mistake),
+	);
+	// Mix the sound-change mistakes so the same one isn't always offered
+	return shuffle(candidates.slice(0, count * 2), random).slice(0, count);
+}
+
+/**
+ * The choices of a multiple-choice question: the answer and its distractors
+ * in random order
+ */
+export function createChoices(
+	answer: string,
+	distractors: string[],
+	random: () => number = Math.random,
+): string[] {
+	return shuffle([answer, ...distractors.slice(0, CHOICE_COUNT - 1)], random);
+}
+
+// A word or number with its reading, as shown in true/false and
+// spot-the-wrong questions (六百 — ろっぴゃく)
+export interface ReadingStatement {
+	text: string;
+	reading: string;
+	mistakes: string[];
+}
+
+export function formatStatement(text: string, reading: string): string {
+	return `${text} — ${reading}`;
+}
+
+/**
+ * A true/false question: the reading shown is right half of the time
+ */
+export function createTrueFalse(
+	statement: ReadingStatement,
+	random: () => number = Math.random,
+): {
+	prompt: string;
+	correctAnswer: string;
+} {
+	const mistake = statement.mistakes[0];
+	const showMistake = mistake !== undefined && random() < 0.5;
+	return {
+		prompt: formatStatement(
+			statement.text,
+			showMistake ? mistake : statement.reading,
+		),
+		correctAnswer: showMistake ? FALSE : TRUE,
+	};
+}
+
+/**
+ * The right-reading statements shown beside the wrong one, from the same
+ * generator as the question so they follow its review pattern (八百 → 8xx)
+ */
+export function collectOtherStatements(
+	text: string,
+	generate: () => Omit<ReadingStatement, "mistakes">,
+	count = CHOICE_COUNT - 1,
+): ReadingStatement[] {
+	const others = new Map<string, string>();
+	for (
+		let attempt = 0;
+		attempt < STATEMENT_ATTEMPTS && others.size < count;
+		attempt++
+	) {
+		const other = generate();
+		if (other.text !== text) others.set(other.text, other.reading);
+	}
+	return [...others].map(([otherText, reading]) => ({
+		text: otherText,
+		reading,
+		mistakes: [],
+	}));
+}
+
+/**
+ * A "which reading is wrong" question: one statement shows a mistake, the
+ * rest their right readings. Returns null when no statement has a mistake.
+ */
+export function createSpotTheWrong(
+	statements: ReadingStatement[],
+	random: () => number = Math.random,
+): {
+	choices: string[];
+	correctAnswer: string;
+	wrongIndex: number;
+} | null {
+	const wrongIndex = statements.findIndex(
+		(statement) => statement.mistakes.length > 0,
+	);
+	const wrong = statements[wrongIndex];
+	const mistake = wrong?.mistakes[0];
+	if (!wrong || mistake === undefined) return null;
+
+	const correctAnswer = formatStatement(wrong.text, mistake);
+	const choices = statements.map((statement, index) =>
+		index === wrongIndex
+			? correctAnswer
+			: formatStatement(statement.text, statement.reading),
+	);
+	return { choices: shuffle(choices, random), correctAnswer, wrongIndex };
+}
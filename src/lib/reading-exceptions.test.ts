@@ -0,0 +1,79 @@
+import { describe, expect, test } from "vitest";
+import { dateCounters } from "./japanese-dates";
+import {
+	findReadingException,
+	getExceptionReadings,
+	getNativeDatePairs,
+	getReadingExceptions,
+	isExceptionAnswerCorrect,
+} from "./reading-exceptions";
+
+describe("Reading Exceptions", () => {
+	describe("findReadingException", () => {
+		test("should find irregular counts and nothing else", () => {
+			expect(findReadingException("sai", 20)?.hiragana).toBe("はたち");
+			expect(findReadingException("nin", 2)?.hiragana).toBe("ふたり");
+			expect(findReadingException("nichi", 20)?.hiragana).toBe("はつか");
+			expect(findReadingException("nin", 3)).toBeUndefined();
+			expect(findReadingException("nichi", 11)).toBeUndefined();
+		});
+	});
+
+	describe("getReadingExceptions", () => {
+		test("should filter by counter", () => {
+			expect(
+				getReadingExceptions("nin").map((exception) => exception.number),
+			).toEqual([1, 2, 4, 7]);
+			expect(getReadingExceptions().length).toBeGreaterThan(
+				getReadingExceptions("nichi").length,
+			);
+		});
+
+		test("should give the day counters their readings", () => {
+			for (const exception of getReadingExceptions("nichi")) {
+				expect(dateCounters[exception.number - 1]).toMatchObject({
+					japanese: exception.kanji,
+					reading: exception.hiragana,
+				});
+			}
+		});
+	});
+
+	describe("getNativeDatePairs", () => {
+		test("should pair the native numerals with the first ten days", () => {
+			const pairs = getNativeDatePairs();
+			expect(pairs).toHaveLength(10);
+			expect(pairs[1]?.wago.hiragana).toBe("ふたつ");
+			expect(pairs[1]?.date.hiragana).toBe("ふつか");
+			expect(pairs[7]?.date.hiragana).toBe("ようか");
+		});
+	});
+
+	describe("getExceptionReadings", () => {
+		test("should list the usual reading first", () => {
+			const seven = findReadingException("nin", 7);
+			if (!seven) throw new Error("missing data");
+			expect(
+				getExceptionReadings(seven).map((reading) => reading.hiragana),
+			).toEqual(["しちにん", "ななにん"]);
+		});
+	});
+
+	describe("isExceptionAnswerCorrect", () => {
+		test("should accept the reading, its alternatives and the kanji", () => {
+			const twenty = findReadingException("sai", 20);
+			if (!twenty) throw new Error("missing data");
+			expect(isExceptionAnswerCorrect("はたち", twenty)).toBe(true);
+			expect(isExceptionAnswerCorrect("hatachi", twenty)).toBe(true);
+			expect(isExceptionAnswerCorrect("にじゅっさい", twenty)).toBe(true);
+			expect(isExceptionAnswerCorrect("二十歳", twenty)).toBe(true);
+			expect(isExceptionAnswerCorrect("にじゅうさい", twenty)).toBe(false);
+		});
+
+		test("should reject the regular reading", () => {
+			const four = findReadingException("nin", 4);
+			if (!four) throw new Error("missing data");
+			expect(isExceptionAnswerCorrect("よんにん", four)).toBe(false);
+		});
+	});
+});
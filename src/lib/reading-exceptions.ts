@@ -0,0 +1,283 @@
+// Counted readings that no sound rule produces: ages (はたち), people (ひとり,
+// ふたり, よにん) and days of the month (ついたち, はつか). 助数詞-Dash and
+// 日付-Dash both take these from here and read every other count with
+// convertToJapanese.
+
+import {
+	type JapaneseNumber,
+	type WagoNumber,
+	isAnswerCorrect,
+	wagoNumbers,
+} from "./japanese-numbers";
+
+// The counters with irregular readings
+// - sai: ages (歳)
+// - nin: people (人)
+// - nichi: days of the month (日)
+export type ExceptionCounter = "sai" | "nin" | "nichi";
+
+export interface ExceptionCounterInfo {
+	kanji: string;
+	hiragana: string;
+	romaji: string;
+	english: string;
+}
+
+export const exceptionCounters: Record<ExceptionCounter, ExceptionCounterInfo> =
+	{
+		sai: { kanji: "歳", hiragana: "さい", romaji: "sai", english: "ages" },
+		nin: { kanji: "人", hiragana: "にん", romaji: "nin", english: "people" },
+		nichi: {
+			kanji: "日",
+			hiragana: "にち",
+			romaji: "nichi",
+			english: "days of the month",
+		},
+	};
+
+export interface ReadingException extends JapaneseNumber {
+	counter: ExceptionCounter;
+	// Other readings in common use (ななにん, にじゅっさい)
+	alternatives?: Array<{ hiragana: string; romaji: string }>;
+	// Why the count is read this way
+	note: string;
+}
+
+export const readingExceptions: ReadingException[] = [
+	{
+		counter: "sai",
+		number: 1,
+		kanji: "一歳",
+		hiragana: "いっさい",
+		romaji: "issai",
+		note: "いち shortens to いっ before さ",
+	},
+	{
+		counter: "sai",
+		number: 8,
+		kanji: "八歳",
+		hiragana: "はっさい",
+		romaji: "hassai",
+		note: "はち shortens to はっ before さ",
+	},
+	{
+		counter: "sai",
+		number: 10,
+		kanji: "十歳",
+		hiragana: "じゅっさい",
+		romaji: "jussai",
+		alternatives: [{ hiragana: "じっさい", romaji: "jissai" }],
+		note: "じゅう shortens to じゅっ (or the older じっ) before さ",
+	},
+	{
+		counter: "sai",
+		number: 20,
+		kanji: "二十歳",
+		hiragana: "はたち",
+		romaji: "hatachi",
+		alternatives: [{ hiragana: "にじゅっさい", romaji: "nijussai" }],
+		note: "はたち is the native word for twenty years, the age of adulthood",
+	},
+	{
+		counter: "nin",
+		number: 1,
+		kanji: "一人",
+		hiragana: "ひとり",
+		romaji: "hitori",
+		note: "Native ひと (ひとつ) with り",
+	},
+	{
+		counter: "nin",
+		number: 2,
+		kanji: "二人",
+		hiragana: "ふたり",
+		romaji: "futari",
+		note: "Native ふた (ふたつ) with り",
+	},
+	{
+		counter: "nin",
+		number: 4,
+		kanji: "四人",
+		hiragana: "よにん",
+		romaji: "yonin",
+		note: "よん shortens to よ; よんにん is wrong",
+	},
+	{
+		counter: "nin",
+		number: 7,
+		kanji: "七人",
+		hiragana: "しちにん",
+		romaji: "shichinin",
+		alternatives: [{ hiragana: "ななにん", romaji: "nananin" }],
+		note: "The old reading しち is usual, but ななにん is common too",
+	},
+	{
+		counter: "nichi",
+		number: 1,
+		kanji: "一日",
+		hiragana: "ついたち",
+		romaji: "tsuitachi",
+		note: "From 月立ち, the rise of the new moon; 一日 as a duration is いちにち",
+	},
+	{
+		counter: "nichi",
+		number: 2,
+		kanji: "二日",
+		hiragana: "ふつか",
+		romaji: "futsuka",
+		note: "Native ふた (ふたつ) with か",
+	},
+	{
+		counter: "nichi",
+		number: 3,
+		kanji: "三日",
+		hiragana: "みっか",
+		romaji: "mikka",
+		note: "Native み (みっつ) with か",
+	},
+	{
+		counter: "nichi",
+		number: 4,
+		kanji: "四日",
+		hiragana: "よっか",
+		romaji: "yokka",
+		note: "Native よ (よっつ) with か",
+	},
+	{
+		counter: "nichi",
+		number: 5,
+		kanji: "五日",
+		hiragana: "いつか",
+		romaji: "itsuka",
+		note: "Native いつ (いつつ) with か",
+	},
+	{
+		counter: "nichi",
+		number: 6,
+		kanji: "六日",
+		hiragana: "むいか",
+		romaji: "muika",
+		note: "Native む (むっつ) with いか",
+	},
+	{
+		counter: "nichi",
+		number: 7,
+		kanji: "七日",
+		hiragana: "なのか",
+		romaji: "nanoka",
+		note: "Native なな (ななつ) with か",
+	},
+	{
+		counter: "nichi",
+		number: 8,
+		kanji: "八日",
+		hiragana: "ようか",
+		romaji: "youka",
+		note: "Native や (やっつ) with か",
+	},
+	{
+		counter: "nichi",
+		number: 9,
+		kanji: "九日",
+		hiragana: "ここのか",
+		romaji: "kokonoka",
+		note: "Native ここの (ここのつ) with か",
+	},
+	{
+		counter: "nichi",
+		number: 10,
+		kanji: "十日",
+		hiragana: "とおか",
+		romaji: "tooka",
+		note: "Native とお with か",
+	},
+	{
+		counter: "nichi",
+		number: 14,
+		kanji: "十四日",
+		hiragana: "じゅうよっか",
+		romaji: "juuyokka",
+		note: "じゅう with よっか (4th)",
+	},
+	{
+		counter: "nichi",
+		number: 20,
+		kanji: "二十日",
+		hiragana: "はつか",
+		romaji: "hatsuka",
+		note: "はつ is the native word for twenty, as in はたち",
+	},
+	{
+		counter: "nichi",
+		number: 24,
+		kanji: "二十四日",
+		hiragana: "にじゅうよっか",
+		romaji: "nijuuyokka",
+		note: "にじゅう with よっか (4th)",
+	},
+];
+
+/**
+ * Get the irregular readings of one counter, or of all of them
+ */
+export function getReadingExceptions(
+	counter?: ExceptionCounter,
+): ReadingException[] {
+	return counter
+		? readingExceptions.filter((exception) => exception.counter === counter)
+		: readingExceptions;
+}
+
+/**
+ * Find the irregular reading of a count, if it has one
+ */
+export function findReadingException(
+	counter: ExceptionCounter,
+	num: number,
+): ReadingException | undefined {
+	return readingExceptions.find(
+		(exception) => exception.counter === counter && exception.number === num,
+	);
+}
+
+/**
+ * Pair each native numeral with the day it names (ふたつ → ふつか, やっつ →
+ * ようか), so the shared roots can be practised together
+ */
+export function getNativeDatePairs(): Array<{
+	wago: WagoNumber;
+	date: ReadingException;
+}> {
+	return wagoNumbers.flatMap((wago) => {
+		const date = findReadingException("nichi", wago.number);
+		return date ? [{ wago, date }] : [];
+	});
+}
+
+/**
+ * Every accepted reading of an irregular count, the usual one first
+ */
+export function getExceptionReadings(
+	exception: ReadingException,
+): JapaneseNumber[] {
+	return [
+		exception,
+		...(exception.alternatives ?? []).map((alternative) => ({
+			number: exception.number,
+			kanji: exception.kanji,
+			...alternative,
+		})),
+	];
+}
+
+/**
+ * Check if user input matches an irregular count or one of its alternatives
+ */
+export function isExceptionAnswerCorrect(
+	userInput: string,
+	exception: ReadingException,
+): boolean {
+	return getExceptionReadings(exception).some((reading) =>
+		isAnswerCorrect(userInput, reading),
+	);
+}
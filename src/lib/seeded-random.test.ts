@@ -0,0 +1,41 @@
+import { describe, expect, test } from "vitest";
+import { createSeededRandom, generateSeed } from "./seeded-random";
+
+const take = (random: () => number, count: number) =>
+	Array.from({ length: count }, () => random());
+
+describe("Seeded Random", () => {
+	describe("createSeededRandom", () => {
+		test("should repeat the same sequence for the same seed", () => {
+			expect(take(createSeededRandom("abc"), 10)).toEqual(
+				take(createSeededRandom("abc"), 10),
+			);
+		});
+
+		test("should give different seeds different sequences", () => {
+			expect(take(createSeededRandom("abc"), 10)).not.toEqual(
+				take(createSeededRandom("abd"), 10),
+			);
+		});
+
+		test("should stay in [0, 1) and spread across it", () => {
+			const values = take(createSeededRandom("spread"), 1000);
+			for (const value of values) {
+				expect(value).toBeGreaterThanOrEqual(0);
+				expect(value).toBeLessThan(1);
+			}
+			const lowHalf = values.filter((value) => value < 0.5).length;
+			expect(lowHalf).toBeGreaterThan(400);
+			expect(lowHalf).toBeLessThan(600);
+		});
+	});
+
+	describe("generateSeed", () => {
+		test("should make short lowercase seeds", () => {
+			expect(generateSeed()).toMatch(/^[a-z0-9]{8}$/);
+			expect(generateSeed(createSeededRandom("x"))).toBe(
+				generateSeed(createSeededRandom("x")),
+			);
+		});
+	});
+});
@@ -0,0 +1,43 @@
+// Seeded random numbers for practice sessions. A session started from the
+// same seed asks the same questions, so a shared link replays the same drill
+// and generators can be tested without mocking Math.random.
+
+// Seeds are short enough to read out or paste into a link
+const SEED_LENGTH = 8;
+const SEED_ALPHABET = "abcdefghijklmnopqrstuvwxyz0123456789";
+
+/**
+ * Make a fresh seed for a new session
+ */
+export function generateSeed(random: () => number = Math.random): string {
+	return Array.from(
+		{ length: SEED_LENGTH },
+		() => SEED_ALPHABET[Math.floor(random() * SEED_ALPHABET.length)],
+	).join("");
+}
+
+// Hash a seed string to 32 bits (FNV-1a), so any text can be a seed
+function hashSeed(seed: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < seed.length; i++) {
+		hash ^= seed.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+/**
+ * Create a random number generator that always produces the same sequence
+ * for the same seed. Like Math.random, it returns numbers in [0, 1).
+ */
+export function createSeededRandom(seed: string): () => number {
+	// Mulberry32: small, fast and good enough for picking questions
+	let state = hashSeed(seed);
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
@@ -0,0 +1,102 @@
+import { describe, expect, test } from "vitest";
+import { createQuizSession } from "./quiz-engine";
+import {
+	HISTORY_DB_VERSION,
+	type HistoryEntry,
+	type HistoryMigration,
+	buildProgressSeries,
+	createHistoryEntry,
+	getPendingMigrations,
+	historyMigrations,
+} from "./session-history";
+
+function entry(
+	lab: HistoryEntry["lab"],
+	configLabel: string,
+	endTime: number,
+	correctAnswers: number,
+): HistoryEntry {
+	return {
+		lab,
+		configLabel,
+		configuration: { questionCount: 10 },
+		startTime: endTime - 20000,
+		endTime,
+		totalQuestions: 10,
+		correctAnswers,
+		answers: [],
+	};
+}
+
+describe("Session History", () => {
+	describe("migrations", () => {
+		test("should version the database with the latest migration", () => {
+			expect(HISTORY_DB_VERSION).toBe(
+				Math.max(...historyMigrations.map((migration) => migration.version)),
+			);
+		});
+
+		test("should run only newer migrations, in order", () => {
+			const migrations: HistoryMigration[] = [3, 1, 2].map((version) => ({
+				version,
+				description: `v${version}`,
+				migrate: () => {},
+			}));
+
+			expect(
+				getPendingMigrations(0, migrations).map(
+					(migration) => migration.version,
+				),
+			).toEqual([1, 2, 3]);
+			expect(
+				getPendingMigrations(2, migrations).map(
+					(migration) => migration.version,
+				),
+			).toEqual([3]);
+			expect(getPendingMigrations(3, migrations)).toEqual([]);
+		});
+	});
+
+	describe("createHistoryEntry", () => {
+		test("should store times as epoch milliseconds", () => {
+			const session = createQuizSession({ questionCount: 2 }, [], 1000, 9000);
+			expect(createHistoryEntry("suji-dash", "basic", session)).toMatchObject({
+				lab: "suji-dash",
+				configLabel: "basic",
+				startTime: 1000,
+				endTime: 9000,
+				totalQuestions: 2,
+				correctAnswers: 0,
+			});
+		});
+	});
+
+	describe("buildProgressSeries", () => {
+		test("should chart each lab and configuration separately", () => {
+			const series = buildProgressSeries([
+				entry("suji-dash", "basic", 3000000, 9),
+				entry("hidzuke-dash", "months", 2000000, 5),
+				entry("suji-dash", "basic", 1000000, 6),
+				entry("suji-dash", "complex", 4000000, 3),
+			]);
+
+			expect(series.map((item) => [item.lab, item.configLabel])).toEqual([
+				["suji-dash", "basic"],
+				["hidzuke-dash", "months"],
+				["suji-dash", "complex"],
+			]);
+			expect(series[0]?.points).toEqual([
+				{ endTime: 1000000, accuracy: 60, averageSeconds: 2 },
+				{ endTime: 3000000, accuracy: 90, averageSeconds: 2 },
+			]);
+		});
+
+		test("should skip sessions without questions", () => {
+			expect(
+				buildProgressSeries([
+					{ ...entry("suji-dash", "basic", 0, 0), totalQuestions: 0 },
+				]),
+			).toEqual([]);
+		});
+	});
+});
@@ -0,0 +1,229 @@
+// Session history: completed practice sessions stored in IndexedDB, and the
+// per-configuration progress series shown on the history page. The same
+// database holds the spaced-repetition review cards and daily challenge
+// results.
+
+import type { QuizAnswer, QuizConfiguration, QuizSession } from "./quiz-engine";
+
+export type LabId = "suji-dash" | "hidzuke-dash" | "josuushi-dash";
+
+export const labNames: Record<LabId, string> = {
+	"suji-dash": "数字-Dash",
+	"hidzuke-dash": "日付-Dash",
+	"josuushi-dash": "助数詞-Dash",
+};
+
+export interface HistoryEntry {
+	id?: number; // assigned by IndexedDB
+	lab: LabId;
+	// Sessions with the same label are charted together ("kanji → japanese • basic")
+	configLabel: string;
+	configuration: QuizConfiguration;
+	startTime: number; // epoch ms
+	endTime: number; // epoch ms
+	totalQuestions: number;
+	correctAnswers: number;
+	answers: QuizAnswer[];
+}
+
+export interface ProgressPoint {
+	endTime: number;
+	accuracy: number; // percentage, 0-100
+	averageSeconds: number;
+}
+
+export interface ProgressSeries {
+	lab: LabId;
+	configLabel: string;
+	points: ProgressPoint[];
+}
+
+export const HISTORY_DB_NAME = "nihongo-labs";
+export const SESSION_STORE = "sessions";
+export const REVIEW_STORE = "review-cards";
+export const DAILY_STORE = "daily-challenges";
+
+export interface HistoryMigration {
+	version: number;
+	description: string;
+	migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+// Schema changes, oldest first. Never edit a released migration; add a new
+// version instead so existing browsers upgrade in order.
+export const historyMigrations: HistoryMigration[] = [
+	{
+		version: 1,
+		description: "Create the sessions store",
+		migrate: (db) => {
+			const store = db.createObjectStore(SESSION_STORE, {
+				keyPath: "id",
+				autoIncrement: true,
+			});
+			store.createIndex("lab", "lab");
+			store.createIndex("endTime", "endTime");
+		},
+	},
+	{
+		version: 2,
+		description: "Add spaced-repetition review cards",
+		migrate: (db) => {
+			const store = db.createObjectStore(REVIEW_STORE, {
+				keyPath: ["lab", "itemId"],
+			});
+			store.createIndex("lab", "lab");
+			store.createIndex("due", "due");
+		},
+	},
+	{
+		version: 3,
+		description: "Add daily challenge results",
+		migrate: (db) => {
+			db.createObjectStore(DAILY_STORE, { keyPath: "date" });
+		},
+	},
+];
+
+export const HISTORY_DB_VERSION = historyMigrations.reduce(
+	(latest, migration) => Math.max(latest, migration.version),
+	0,
+);
+
+/**
+ * Get the migrations an existing database still needs, in version order
+ */
+export function getPendingMigrations(
+	oldVersion: number,
+	migrations: HistoryMigration[] = historyMigrations,
+): HistoryMigration[] {
+	return migrations
+		.filter((migration) => migration.version > oldVersion)
+		.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Turn a finished session into a storable history entry
+ */
+export function createHistoryEntry<TConfig extends QuizConfiguration>(
+	lab: LabId,
+	configLabel: string,
+	session: QuizSession<TConfig>,
+): HistoryEntry {
+	const startTime = session.startTime.getTime();
+	return {
+		lab,
+		configLabel,
+		configuration: session.configuration,
+		startTime,
+		endTime: session.endTime?.getTime() ?? startTime,
+		totalQuestions: session.totalQuestions,
+		correctAnswers: session.correctAnswers,
+		answers: session.answers,
+	};
+}
+
+/**
+ * Group entries by lab and configuration, each series ordered by time
+ */
+export function buildProgressSeries(entries: HistoryEntry[]): ProgressSeries[] {
+	const series = new Map<string, ProgressSeries>();
+
+	for (const entry of [...entries].sort((a, b) => a.endTime - b.endTime)) {
+		if (entry.totalQuestions === 0) continue;
+
+		const key = `${entry.lab}\u0000${entry.configLabel}`;
+		let current = series.get(key);
+		if (!current) {
+			current = { lab: entry.lab, configLabel: entry.configLabel, points: [] };
+			series.set(key, current);
+		}
+
+		const totalSeconds = (entry.endTime - entry.startTime) / 1000;
+		current.points.push({
+			endTime: entry.endTime,
+			accuracy: (entry.correctAnswers / entry.totalQuestions) * 100,
+			averageSeconds: totalSeconds / entry.totalQuestions,
+		});
+	}
+
+	return [...series.values()];
+}
+
+/**
+ * Wait for an IndexedDB request to finish
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+/**
+ * Open the history database, running any pending migrations
+ */
+export function openHistoryDatabase(): Promise<IDBDatabase> {
+	return new Promise((resolve, reject) => {
+		if (typeof indexedDB === "undefined") {
+			reject(new Error("IndexedDB is not available"));
+			return;
+		}
+
+		const request = indexedDB.open(HISTORY_DB_NAME, HISTORY_DB_VERSION);
+		request.onupgradeneeded = (event) => {
+			const transaction = request.transaction;
+			if (!transaction) return;
+			for (const migration of getPendingMigrations(event.oldVersion)) {
+				migration.migrate(request.result, transaction);
+			}
+		};
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+/**
+ * Save a completed session
+ */
+export async function saveHistoryEntry(entry: HistoryEntry): Promise<void> {
+	const db = await openHistoryDatabase();
+	try {
+		const store = db
+			.transaction(SESSION_STORE, "readwrite")
+			.objectStore(SESSION_STORE);
+		await requestToPromise(store.add(entry));
+	} finally {
+		db.close();
+	}
+}
+
+/**
+ * Load every saved session, oldest first
+ */
+export async function loadHistoryEntries(): Promise<HistoryEntry[]> {
+	const db = await openHistoryDatabase();
+	try {
+		const index = db
+			.transaction(SESSION_STORE, "readonly")
+			.objectStore(SESSION_STORE)
+			.index("endTime");
+		return await requestToPromise(index.getAll() as IDBRequest<HistoryEntry[]>);
+	} finally {
+		db.close();
+	}
+}
+
+/**
+ * Delete all saved sessions
+ */
+export async function clearHistory(): Promise<void> {
+	const db = await openHistoryDatabase();
+	try {
+		const store = db
+			.transaction(SESSION_STORE, "readwrite")
+			.objectStore(SESSION_STORE);
+		await requestToPromise(store.clear());
+	} finally {
+		db.close();
+	}
+}
@@ -0,0 +1,110 @@
+import { describe, expect, test } from "vitest";
+import { z } from "zod";
+import {
+	booleanParam,
+	createConfigSearch,
+	listParam,
+	listeningParams,
+	quizConfigurationParams,
+	readConfigSearch,
+} from "./session-links";
+
+interface TestConfiguration {
+	questionCount: number;
+	timeLimit?: number;
+	sessionTimeLimit?: number;
+	seed?: string;
+	practiceType: "number-to-japanese" | "kanji-to-japanese";
+	counters: string[];
+	showReadings: boolean;
+	listening: { maxReplays: number | null; speedRamp: boolean };
+}
+
+const defaults: TestConfiguration = {
+	questionCount: 10,
+	practiceType: "number-to-japanese",
+	counters: ["hon", "mai"],
+	showReadings: true,
+	listening: { maxReplays: 2, speedRamp: true },
+};
+
+const schema: z.ZodType<TestConfiguration, z.ZodTypeDef, unknown> = z.object({
+	...quizConfigurationParams,
+	practiceType: z.enum(["number-to-japanese", "kanji-to-japanese"]),
+	counters: listParam(z.enum(["hon", "mai", "hiki"])),
+	showReadings: booleanParam,
+	listening: listeningParams,
+});
+
+describe("Session Links", () => {
+	describe("createConfigSearch", () => {
+		test("should write every setting as a readable parameter", () => {
+			const search = createConfigSearch({
+				...defaults,
+				listening: { maxReplays: null, speedRamp: false },
+			});
+			const params = new URLSearchParams(search);
+			expect(params.get("practiceType")).toBe("number-to-japanese");
+			expect(params.get("counters")).toBe("hon,mai");
+			expect(params.get("listening.maxReplays")).toBe("none");
+			expect(params.get("listening.speedRamp")).toBe("false");
+			expect(params.has("timeLimit")).toBe(false);
+		});
+	});
+
+	describe("readConfigSearch", () => {
+		test("should round-trip a seeded configuration", () => {
+			const config = {
+				...defaults,
+				practiceType: "kanji-to-japanese" as const,
+				timeLimit: 8,
+				seed: "k3x9a2mf",
+			};
+			expect(
+				readConfigSearch(createConfigSearch(config), schema, defaults),
+			).toEqual({ config, start: true });
+		});
+
+		test("should keep defaults for settings a link leaves out", () => {
+			expect(
+				readConfigSearch(
+					"?practiceType=kanji-to-japanese&questionCount=20",
+					schema,
+					defaults,
+				),
+			).toEqual({
+				config: {
+					...defaults,
+					practiceType: "kanji-to-japanese",
+					questionCount: 20,
+				},
+				start: false,
+			});
+		});
+
+		test("should start straight away with start=1", () => {
+			expect(readConfigSearch("?start=1", schema, defaults)).toEqual({
+				config: defaults,
+				start: true,
+			});
+		});
+
+		test("should ignore empty or invalid links", () => {
+			expect(readConfigSearch("", schema, defaults)).toBeNull();
+			expect(
+				readConfigSearch("?practiceType=flashcards", schema, defaults),
+			).toBeNull();
+			expect(
+				readConfigSearch("?questionCount=lots", schema, defaults),
+			).toBeNull();
+			expect(readConfigSearch("?questionCount=0", schema, defaults)).toBeNull();
+			expect(readConfigSearch("?counters=", schema, defaults)).toBeNull();
+			expect(
+				readConfigSearch("?counters=hon,dai", schema, defaults),
+			).toBeNull();
+			expect(
+				readConfigSearch("?showReadings=yes", schema, defaults),
+			).toBeNull();
+		});
+	});
+});
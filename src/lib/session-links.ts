@@ -0,0 +1,131 @@
+// Links to a lab's settings. Every setting is a query parameter
+// (?practiceType=kanji-to-japanese&practiceLevel=millions&questionCount=20),
+// checked against the lab's zod schema, so a setup can be bookmarked or kept
+// in study notes. A link with a seed replays that exact session, and one with
+// start=1 skips the configuration screen.
+
+import { z } from "zod";
+import type { QuizConfiguration } from "./quiz-engine";
+
+// Query parameters are text, so every setting is parsed from a string
+export const numberParam = z.coerce.number().finite();
+export const booleanParam = z
+	.enum(["true", "false"])
+	.transform((value) => value === "true");
+
+// No value at all, as in "unlimited replays"
+const NONE = "none";
+
+/**
+ * A comma-separated list (counters=hon,mai,hiki)
+ */
+export function listParam<T extends z.ZodTypeAny>(item: T) {
+	return z
+		.string()
+		.transform((value) => value.split(",").filter(Boolean))
+		.pipe(z.array(item).nonempty());
+}
+
+/**
+ * A setting that may be turned off with "none" (maxReplays=none)
+ */
+export function nullableParam<T extends z.ZodTypeAny>(param: T) {
+	return z.union([z.literal(NONE).transform(() => null), param]);
+}
+
+// The settings every lab shares
+export const quizConfigurationParams = {
+	questionCount: numberParam.pipe(z.number().int().min(1).max(100)),
+	timeLimit: numberParam.pipe(z.number().positive()).optional(),
+	sessionTimeLimit: numberParam.pipe(z.number().positive()).optional(),
+	seed: z
+		.string()
+		.regex(/^[a-z0-9:-]{1,32}$/)
+		.optional(),
+};
+
+// Listening drills: listening.maxReplays=none&listening.speedRamp=false
+export const listeningParams = z.object({
+	maxReplays: nullableParam(numberParam.pipe(z.number().int().min(0))),
+	speedRamp: booleanParam,
+});
+
+export const questionFormatParam = z.enum([
+	"typed",
+	"multiple-choice",
+	"true-false",
+	"spot-the-wrong",
+]);
+
+// Nested settings are written with dotted names (listening.maxReplays)
+function toParams(value: unknown, prefix = ""): Array<[string, string]> {
+	if (value === undefined) return [];
+	if (value === null) return [[prefix, NONE]];
+	if (Array.isArray(value)) return [[prefix, value.join(",")]];
+	if (typeof value === "object") {
+		return Object.entries(value).flatMap(([key, child]) =>
+			toParams(child, prefix ? `${prefix}.${key}` : key),
+		);
+	}
+	return [[prefix, String(value)]];
+}
+
+function fromParams(params: Map<string, string>): Record<string, unknown> {
+	const result: Record<string, unknown> = {};
+	for (const [name, value] of params) {
+		const keys = name.split(".");
+		let target = result;
+		for (const key of keys.slice(0, -1)) {
+			const child = target[key];
+			const next =
+				typeof child === "object" && child !== null
+					? (child as Record<string, unknown>)
+					: {};
+			target[key] = next;
+			target = next;
+		}
+		target[keys[keys.length - 1] ?? name] = value;
+	}
+	return result;
+}
+
+/**
+ * Build the query string for a configuration. With a seed it replays the
+ * session; without one it fills in the configuration screen.
+ */
+export function createConfigSearch<TConfig extends QuizConfiguration>(
+	config: TConfig,
+): string {
+	return `?${new URLSearchParams(toParams(config)).toString()}`;
+}
+
+export interface LinkedConfiguration<TConfig extends QuizConfiguration> {
+	config: TConfig;
+	// Skip the configuration screen (the link has a seed or start=1)
+	start: boolean;
+}
+
+/**
+ * Read the configuration a query string links to. Settings the link leaves
+ * out keep their defaults; null when it sets nothing or any setting is
+ * invalid.
+ */
+export function readConfigSearch<TConfig extends QuizConfiguration>(
+	search: string,
+	schema: z.ZodType<TConfig, z.ZodTypeDef, unknown>,
+	defaults: TConfig,
+): LinkedConfiguration<TConfig> | null {
+	const linked = new URLSearchParams(search);
+	if (linked.size === 0) return null;
+	const params = new Map(toParams(defaults));
+	for (const [name, value] of linked) {
+		if (name !== "start") params.set(name, value);
+	}
+
+	const parsed = schema.safeParse(fromParams(params));
+	if (!parsed.success) return null;
+	return {
+		config: parsed.data,
+		start: linked.has("seed") || linked.get("start") === "1",
+	};
+}
@@ -0,0 +1,143 @@
+import { describe, expect, test } from "vitest";
+import type { QuizAnswer } from "./quiz-engine";
+import {
+	applyAnswersToCards,
+	createReviewCard,
+	getDueItems,
+	getReviewQueueStatus,
+	gradeAnswer,
+	pickReviewItem,
+	reviewCard,
+} from "./spaced-repetition";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function answer(reviewItems: string[], isCorrect: boolean): QuizAnswer {
+	return {
+		question: "?",
+		correctAnswer: "?",
+		userAnswer: "?",
+		timeMs: 3000,
+		isCorrect,
+		reviewItems,
+	};
+}
+
+describe("Spaced Repetition", () => {
+	describe("gradeAnswer", () => {
+		test("should grade by correctness and speed", () => {
+			expect(gradeAnswer(false, 1000)).toBe(1);
+			expect(gradeAnswer(true, 2000)).toBe(5);
+			expect(gradeAnswer(true, 10000)).toBe(4);
+			expect(gradeAnswer(true, 30000)).toBe(3);
+		});
+	});
+
+	describe("reviewCard", () => {
+		test("should grow the interval with each correct answer", () => {
+			let card = createReviewCard("suji-dash", "八百", 0);
+
+			card = reviewCard(card, 5, 0);
+			expect(card.intervalDays).toBe(1);
+			expect(card.due).toBe(DAY_MS);
+
+			card = reviewCard(card, 5, card.due);
+			expect(card.intervalDays).toBe(6);
+
+			card = reviewCard(card, 5, card.due);
+			expect(card.intervalDays).toBe(Math.round(6 * 2.7));
+			expect(card.repetitions).toBe(3);
+		});
+
+		test("should bring missed items back soon and lower their ease", () => {
+			const learned = reviewCard(
+				reviewCard(createReviewCard("hidzuke-dash", "dates:一日", 0), 5, 0),
+				5,
+				DAY_MS,
+			);
+			const missed = reviewCard(learned, 1, 2 * DAY_MS);
+
+			expect(missed.repetitions).toBe(0);
+			expect(missed.lapses).toBe(1);
+			expect(missed.easeFactor).toBeLessThan(learned.easeFactor);
+			expect(missed.due - 2 * DAY_MS).toBeLessThan(DAY_MS);
+		});
+
+		test("should never drop the ease below 1.3", () => {
+			let card = createReviewCard("suji-dash", "六百", 0);
+			for (let i = 0; i < 20; i++) card = reviewCard(card, 0, i);
+			expect(card.easeFactor).toBe(1.3);
+		});
+	});
+
+	describe("applyAnswersToCards", () => {
+		test("should review every item a question practised", () => {
+			const cards = applyAnswersToCards(
+				"suji-dash",
+				[],
+				[answer(["三千", "八百"], true), answer(["八百"], false)],
+				0,
+			);
+			const byItem = new Map(cards.map((card) => [card.itemId, card]));
+
+			expect(byItem.get("三千")?.repetitions).toBe(1);
+			expect(byItem.get("八百")?.lapses).toBe(1);
+			expect(byItem.get("八百")?.repetitions).toBe(0);
+		});
+
+		test("should review an item once per session, at its worst grade", () => {
+			const correct = applyAnswersToCards(
+				"suji-dash",
+				[],
+				[answer(["万"], true), answer(["万"], true), answer(["万"], true)],
+				0,
+			);
+			expect(correct[0]?.repetitions).toBe(1);
+			expect(correct[0]?.due).toBe(DAY_MS);
+
+			const missedFirst = applyAnswersToCards(
+				"suji-dash",
+				[],
+				[answer(["万"], false), answer(["万"], true), answer(["万"], true)],
+				0,
+			);
+			expect(missedFirst[0]?.repetitions).toBe(0);
+			expect(missedFirst[0]?.lapses).toBe(1);
+		});
+	});
+
+	describe("getDueItems", () => {
+		test("should list missed items before ones answered correctly", () => {
+			const cards = applyAnswersToCards(
+				"hidzuke-dash",
+				[],
+				[answer(["months:四月"], true), answer(["dates:一日"], false)],
+				0,
+			);
+
+			expect(getDueItems(cards, 0)).toEqual([]);
+			expect(getDueItems(cards, 60 * 60 * 1000)).toEqual(["dates:一日"]);
+			expect(getDueItems(cards, 2 * DAY_MS)).toEqual([
+				"dates:一日",
+				"months:四月",
+			]);
+		});
+	});
+
+	describe("pickReviewItem", () => {
+		test("should hand out due items in order before repeating", () => {
+			expect(
+				[0, 1, 2].map((index) => pickReviewItem(["a", "b"], index, () => 0.9)),
+			).toEqual(["a", "b", "b"]);
+			expect(pickReviewItem([], 0)).toBeUndefined();
+		});
+	});
+
+	describe("getReviewQueueStatus", () => {
+		test("should wait for the due items and stop on an empty queue", () => {
+			expect(getReviewQueueStatus(null)).toBe("loading");
+			expect(getReviewQueueStatus([])).toBe("empty");
+			expect(getReviewQueueStatus(["numbers:八百"])).toBe("ready");
+		});
+	});
+});
@@ -0,0 +1,223 @@
+// SM-2 style spaced repetition for individual items and patterns (八百,
+// ついたち, 四月). Every answer updates the items it practised; the ones we
+// keep missing come back first in "Review due" sessions.
+
+import type { QuizAnswer } from "./quiz-engine";
+import {
+	type LabId,
+	REVIEW_STORE,
+	openHistoryDatabase,
+	requestToPromise,
+} from "./session-history";
+
+export interface ReviewCard {
+	lab: LabId;
+	itemId: string;
+	easeFactor: number;
+	intervalDays: number;
+	// Correct answers in a row
+	repetitions: number;
+	lapses: number;
+	due: number; // epoch ms
+	lastReviewed: number; // epoch ms
+}
+
+// SM-2 quality, 0 (blackout) to 5 (perfect recall)
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Missed items come back within the same sitting
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MINIMUM_EASE = 1.3;
+
+/**
+ * Grade an answer: a quick correct answer is perfect recall, a slow one is
+ * recalled with difficulty
+ */
+export function gradeAnswer(isCorrect: boolean, timeMs: number): ReviewGrade {
+	if (!isCorrect) return 1;
+	if (timeMs <= 5000) return 5;
+	if (timeMs <= 15000) return 4;
+	return 3;
+}
+
+/**
+ * Create a card for an item that has never been reviewed; it is due now
+ */
+export function createReviewCard(
+	lab: LabId,
+	itemId: string,
+	now: number,
+): ReviewCard {
+	return {
+		lab,
+		itemId,
+		easeFactor: INITIAL_EASE,
+		intervalDays: 0,
+		repetitions: 0,
+		lapses: 0,
+		due: now,
+		lastReviewed: now,
+	};
+}
+
+/**
+ * Apply one review to a card (SM-2). A miss resets the streak and brings the
+ * item back after a short delay.
+ */
+export function reviewCard(
+	card: ReviewCard,
+	grade: ReviewGrade,
+	now: number,
+): ReviewCard {
+	const easeFactor = Math.max(
+		MINIMUM_EASE,
+		card.easeFactor + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02),
+	);
+
+	if (grade < 3) {
+		return {
+			...card,
+			easeFactor,
+			intervalDays: 0,
+			repetitions: 0,
+			lapses: card.lapses + 1,
+			due: now + RELEARN_DELAY_MS,
+			lastReviewed: now,
+		};
+	}
+
+	const repetitions = card.repetitions + 1;
+	const intervalDays =
+		repetitions === 1
+			? 1
+			: repetitions === 2
+				? 6
+				: Math.round(card.intervalDays * card.easeFactor);
+
+	return {
+		...card,
+		easeFactor,
+		intervalDays,
+		repetitions,
+		due: now + intervalDays * DAY_MS,
+		lastReviewed: now,
+	};
+}
+
+/**
+ * Update cards with a session's answers. Every item a question practised is
+ * reviewed once per session, at its worst grade: 万 turns up in most
+ * questions but has only been recalled once, and one miss counts however
+ * often it was right. Unseen items get a new card.
+ */
+export function applyAnswersToCards(
+	lab: LabId,
+	cards: ReviewCard[],
+	answers: QuizAnswer[],
+	now: number,
+): ReviewCard[] {
+	const grades = new Map<string, ReviewGrade>();
+	for (const answer of answers) {
+		const grade = gradeAnswer(answer.isCorrect, answer.timeMs);
+		for (const itemId of answer.reviewItems ?? []) {
+			grades.set(
+				itemId,
+				Math.min(grades.get(itemId) ?? grade, grade) as ReviewGrade,
+			);
+		}
+	}
+
+	const updated = new Map(cards.map((card) => [card.itemId, card]));
+	for (const [itemId, grade] of grades) {
+		const card = updated.get(itemId) ?? createReviewCard(lab, itemId, now);
+		updated.set(itemId, reviewCard(card, grade, now));
+	}
+
+	return [...updated.values()];
+}
+
+/**
+ * Get the items due for review, most overdue first; among equally due items
+ * the hardest (lowest ease) come first
+ */
+export function getDueItems(cards: ReviewCard[], now: number): string[] {
+	return cards
+		.filter((card) => card.due <= now)
+		.sort((a, b) => a.due - b.due || a.easeFactor - b.easeFactor)
+		.map((card) => card.itemId);
+}
+
+/**
+ * Pick the item for a question: due items in order, then random ones again
+ * once every item has been asked. The pick depends only on its arguments, so
+ * seeded sessions replay exactly.
+ */
+export function pickReviewItem(
+	itemIds: string[],
+	questionIndex: number,
+	random: () => number = Math.random,
+): string | undefined {
+	if (questionIndex < itemIds.length) return itemIds[questionIndex];
+	return itemIds[Math.floor(random() * itemIds.length)];
+}
+
+// A review session needs its due items: still loading, none due, or ready
+export type ReviewQueueStatus = "loading" | "empty" | "ready";
+
+/**
+ * Whether a review session can start from these due items (null while they
+ * load). An empty queue has nothing to review, so nothing else is practised.
+ */
+export function getReviewQueueStatus(
+	dueItems: string[] | null,
+): ReviewQueueStatus {
+	if (dueItems === null) return "loading";
+	return dueItems.length === 0 ? "empty" : "ready";
+}
+
+/**
+ * Load every review card for a lab
+ */
+export async function loadReviewCards(lab: LabId): Promise<ReviewCard[]> {
+	const db = await openHistoryDatabase();
+	try {
+		const index = db
+			.transaction(REVIEW_STORE, "readonly")
+			.objectStore(REVIEW_STORE)
+			.index("lab");
+		return await requestToPromise(
+			index.getAll(lab) as IDBRequest<ReviewCard[]>,
+		);
+	} finally {
+		db.close();
+	}
+}
+
+/**
+ * Save updated review cards
+ */
+export async function saveReviewCards(cards: ReviewCard[]): Promise<void> {
+	const db = await openHistoryDatabase();
+	try {
+		const transaction = db.transaction(REVIEW_STORE, "readwrite");
+		const store = transaction.objectStore(REVIEW_STORE);
+		await Promise.all(cards.map((card) => requestToPromise(store.put(card))));
+	} finally {
+		db.close();
+	}
+}
+
+/**
+ * Review every item practised in a finished session
+ */
+export async function recordReviewAnswers(
+	lab: LabId,
+	answers: QuizAnswer[],
+	now: number = Date.now(),
+): Promise<void> {
+	if (!answers.some((answer) => answer.reviewItems?.length)) return;
+	const cards = await loadReviewCards(lab);
+	await saveReviewCards(applyAnswersToCards(lab, cards, answers, now));
+}
@@ -0,0 +1,111 @@
+import { describe, expect, test } from "vitest";
+import { convertToJapanese, isAnswerCorrect } from "./japanese-numbers";
+import { matchesAcceptedAnswer } from "./quiz-engine";
+import {
+	type SpeechRecognitionOutcome,
+	createMockSpeechProvider,
+	normalizeTranscript,
+	pickTranscript,
+	recognizeAnswer,
+} from "./speech-recognition";
+
+const isNumberReading = (num: number) => (answer: string) =>
+	isAnswerCorrect(answer, convertToJapanese(num));
+
+describe("Speech Recognition", () => {
+	describe("normalizeTranscript", () => {
+		test("should drop spacing and end punctuation", () => {
+			expect(normalizeTranscript("さん びゃく。")).toContain("さんびゃく");
+			expect(normalizeTranscript(" Monday. ")).toContain("Monday");
+			expect(normalizeTranscript("March 20th")).toContain("March 20th");
+		});
+
+		test("should offer kanji numerals for recognised digits", () => {
+			expect(normalizeTranscript("300")).toEqual(["300", "三百"]);
+			expect(normalizeTranscript("1,200万")).toContain("千二百万");
+			expect(normalizeTranscript("3月20日")).toContain("三月二十日");
+			expect(normalizeTranscript("３月")).toContain("三月");
+		});
+
+		test("should offer hiragana for katakana transcripts", () => {
+			expect(normalizeTranscript("サンビャク")).toContain("さんびゃく");
+		});
+	});
+
+	describe("pickTranscript", () => {
+		test("should prefer a correct alternative over the top transcript", () => {
+			expect(pickTranscript(["三百", "300"], isNumberReading(300))).toBe(
+				"三百",
+			);
+			expect(pickTranscript(["四百", "300"], isNumberReading(300))).toBe(
+				"三百",
+			);
+		});
+
+		test("should fall back to the transcript as heard", () => {
+			expect(pickTranscript(["400", "四百"], isNumberReading(300))).toBe("400");
+			expect(pickTranscript([], isNumberReading(300))).toBeUndefined();
+		});
+	});
+
+	describe("recognizeAnswer", () => {
+		test("should check spoken numbers with isAnswerCorrect", async () => {
+			const provider = createMockSpeechProvider([["42"], ["よんじゅうに"]]);
+
+			await expect(
+				recognizeAnswer(provider, "ja-JP", isNumberReading(42)),
+			).resolves.toEqual({ success: true, answer: "四十二" });
+			await expect(
+				recognizeAnswer(provider, "ja-JP", isNumberReading(42)),
+			).resolves.toEqual({ success: true, answer: "よんじゅうに" });
+			expect(provider.languages).toEqual(["ja-JP", "ja-JP"]);
+		});
+
+		test("should check spoken words against accepted answers", async () => {
+			const provider = createMockSpeechProvider([["10月", "じゅうがつ"]]);
+			const accepted = ["十月", "じゅうがつ", "juugatsu"];
+
+			await expect(
+				recognizeAnswer(provider, "ja-JP", (answer) =>
+					matchesAcceptedAnswer(answer, accepted),
+				),
+			).resolves.toEqual({ success: true, answer: "十月" });
+		});
+
+		test("should pass recognition errors through", async () => {
+			const provider = createMockSpeechProvider(["not-allowed"]);
+
+			await expect(
+				recognizeAnswer(provider, "en-US", () => true),
+			).resolves.toEqual({ success: false, error: "not-allowed" });
+			await expect(
+				recognizeAnswer(provider, "en-US", () => true),
+			).resolves.toEqual({ success: false, error: "no-speech" });
+		});
+
+		test("should report a provider that fails to start", async () => {
+			const failing = (listen: () => Promise<SpeechRecognitionOutcome>) => ({
+				isSupported: true,
+				listen,
+				stop() {},
+			});
+
+			await expect(
+				recognizeAnswer(
+					failing(() => {
+						throw new Error("InvalidStateError");
+					}),
+					"ja-JP",
+					() => true,
+				),
+			).resolves.toEqual({ success: false, error: "other" });
+			await expect(
+				recognizeAnswer(
+					failing(() => Promise.reject(new Error("NotAllowedError"))),
+					"ja-JP",
+					() => true,
+				),
+			).resolves.toEqual({ success: false, error: "other" });
+		});
+	});
+});
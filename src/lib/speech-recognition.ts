@@ -0,0 +1,281 @@
+// Spoken answers: a speech recognition provider (the browser's Web Speech API
+// or a scripted mock) and a normaliser that turns transcripts into answers the
+// labs' checkers understand (42 → 四十二, 3月 → 三月)
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { katakanaToHiragana } from "./japanese-kana";
+import { convertToJapanese } from "./japanese-numbers";
+
+export type SpeechRecognitionErrorCode =
+	| "not-supported"
+	| "not-allowed"
+	| "no-microphone"
+	| "no-speech"
+	| "aborted"
+	| "network"
+	| "other";
+
+export const speechRecognitionErrors: Record<
+	SpeechRecognitionErrorCode,
+	string
+> = {
+	"not-supported": "Speech recognition is not supported in this browser.",
+	"not-allowed": "Microphone access was blocked.",
+	"no-microphone": "No microphone was found.",
+	"no-speech": "Nothing was heard. Try again.",
+	aborted: "Listening was stopped.",
+	network: "The speech recognition service could not be reached.",
+	other: "Speech recognition failed. Try again.",
+};
+
+export type SpeechRecognitionOutcome =
+	| { success: true; transcripts: string[] }
+	| { success: false; error: SpeechRecognitionErrorCode };
+
+export interface SpeechRecognitionProvider {
+	readonly isSupported: boolean;
+	// Listen for one utterance; transcripts are alternatives, best first
+	listen(lang: string): Promise<SpeechRecognitionOutcome>;
+	// Stop listening early; a pending listen resolves with what was heard
+	stop(): void;
+}
+
+// The parts of the Web Speech API we use; not every TypeScript DOM library
+// declares it, and Chrome and Safari only ship the webkit-prefixed version
+interface BrowserRecognitionEvent {
+	results: ArrayLike<ArrayLike<{ transcript: string }>>;
+}
+
+interface BrowserRecognition {
+	lang: string;
+	interimResults: boolean;
+	maxAlternatives: number;
+	onresult: ((event: BrowserRecognitionEvent) => void) | null;
+	onerror: ((event: { error: string }) => void) | null;
+	onend: (() => void) | null;
+	start(): void;
+	stop(): void;
+}
+
+type BrowserRecognitionConstructor = new () => BrowserRecognition;
+
+const MAX_ALTERNATIVES = 5;
+
+function getRecognitionConstructor():
+	| BrowserRecognitionConstructor
+	| undefined {
+	if (typeof window === "undefined") return undefined;
+	const speechWindow = window as unknown as {
+		SpeechRecognition?: BrowserRecognitionConstructor;
+		webkitSpeechRecognition?: BrowserRecognitionConstructor;
+	};
+	return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+}
+
+function toErrorCode(error: string): SpeechRecognitionErrorCode {
+	switch (error) {
+		case "not-allowed":
+		case "service-not-allowed":
+			return "not-allowed";
+		case "audio-capture":
+			return "no-microphone";
+		case "no-speech":
+		case "aborted":
+		case "network":
+			return error;
+		default:
+			return "other";
+	}
+}
+
+/**
+ * Recognise speech with the browser's Web Speech API
+ */
+export function createWebSpeechProvider(): SpeechRecognitionProvider {
+	let active: BrowserRecognition | null = null;
+
+	return {
+		get isSupported() {
+			return getRecognitionConstructor() !== undefined;
+		},
+		listen(lang) {
+			const Recognition = getRecognitionConstructor();
+			if (!Recognition) {
+				return Promise.resolve({ success: false, error: "not-supported" });
+			}
+			active?.stop();
+			const recognition = new Recognition();
+			recognition.lang = lang;
+			recognition.interimResults = false;
+			recognition.maxAlternatives = MAX_ALTERNATIVES;
+			active = recognition;
+
+			return new Promise((resolve) => {
+				let outcome: SpeechRecognitionOutcome = {
+					success: false,
+					error: "no-speech",
+				};
+				recognition.onresult = (event) => {
+					const alternatives = event.results[0];
+					const transcripts = alternatives
+						? Array.from(alternatives, (alternative) => alternative.transcript)
+						: [];
+					if (transcripts.length > 0) outcome = { success: true, transcripts };
+				};
+				recognition.onerror = (event) => {
+					outcome = { success: false, error: toErrorCode(event.error) };
+				};
+				recognition.onend = () => {
+					if (active === recognition) active = null;
+					resolve(outcome);
+				};
+				recognition.start();
+			});
+		},
+		stop() {
+			active?.stop();
+		},
+	};
+}
+
+/**
+ * A provider that replays scripted results, one per listen: transcripts, or
+ * an error code. The languages asked for are recorded.
+ */
+export function createMockSpeechProvider(
+	responses: Array<string[] | SpeechRecognitionErrorCode>,
+): SpeechRecognitionProvider & { languages: string[] } {
+	const queue = [...responses];
+	const languages: string[] = [];
+
+	return {
+		isSupported: true,
+		languages,
+		listen(lang) {
+			languages.push(lang);
+			const next = queue.shift() ?? "no-speech";
+			return Promise.resolve(
+				typeof next === "string"
+					? { success: false, error: next }
+					: { success: true, transcripts: next },
+			);
+		},
+		stop() {},
+	};
+}
+
+/**
+ * Turn a transcript into candidate answers: the transcript without spacing
+ * and end punctuation, then with katakana as hiragana and whole numbers as
+ * kanji numerals (recognisers write さんびゃく as 300)
+ */
+export function normalizeTranscript(transcript: string): string[] {
+	const cleaned = transcript
+		.normalize("NFKC")
+		.trim()
+		.replace(/[。．.!?！？、]+$/, "")
+		.replace(/(\d),(?=\d{3})/g, "$1");
+	const compact = /[぀-ヿ一-龯]/.test(cleaned)
+		? cleaned.replace(/\s+/g, "")
+		: cleaned.replace(/\s+/g, " ");
+	const candidates = [
+		compact,
+		katakanaToHiragana(compact),
+		compact.replace(
+			/(?<![\d.])\d+(?![\d.])/g,
+			(digits) => convertToJapanese(BigInt(digits)).kanji,
+		),
+	];
+	return [...new Set(candidates)].filter(Boolean);
+}
+
+/**
+ * Pick the answer to submit from the recogniser's alternatives: the first
+ * candidate that is correct, otherwise the best transcript as heard
+ */
+export function pickTranscript(
+	transcripts: string[],
+	isCorrect: (answer: string) => boolean,
+): string | undefined {
+	const candidates = transcripts.flatMap(normalizeTranscript);
+	return candidates.find(isCorrect) ?? candidates[0];
+}
+
+/**
+ * Listen for one spoken answer and pick the transcript to submit. A provider
+ * that fails to start (already listening, microphone denied) is an "other"
+ * error rather than a rejection.
+ */
+export async function recognizeAnswer(
+	provider: SpeechRecognitionProvider,
+	lang: string,
+	isCorrect: (answer: string) => boolean,
+): Promise<
+	| { success: true; answer: string }
+	| { success: false; error: SpeechRecognitionErrorCode }
+> {
+	if (!provider.isSupported) return { success: false, error: "not-supported" };
+	let outcome: SpeechRecognitionOutcome;
+	try {
+		outcome = await provider.listen(lang);
+	} catch {
+		return { success: false, error: "other" };
+	}
+	if (!outcome.success) return outcome;
+	const answer = pickTranscript(outcome.transcripts, isCorrect);
+	return answer
+		? { success: true, answer }
+		: { success: false, error: "no-speech" };
+}
+
+export interface SpeechAnswerController {
+	isListening: boolean;
+	error: SpeechRecognitionErrorCode | null;
+	listen: (lang: string, isCorrect: (answer: string) => boolean) => void;
+	stop: () => void;
+}
+
+/**
+ * Listen for spoken answers and hand each recognised answer to onAnswer
+ */
+export function useSpeechAnswer(
+	provider: SpeechRecognitionProvider | null,
+	onAnswer: (answer: string) => void,
+): SpeechAnswerController {
+	const [isListening, setIsListening] = useState(false);
+	const [error, setError] = useState<SpeechRecognitionErrorCode | null>(null);
+	const onAnswerRef = useRef(onAnswer);
+	onAnswerRef.current = onAnswer;
+
+	// Stop the microphone when the session ends
+	useEffect(() => () => provider?.stop(), [provider]);
+
+	const listen = useCallback(
+		(lang: string, isCorrect: (answer: string) => boolean) => {
+			if (!provider) {
+				setError("not-supported");
+				return;
+			}
+			setError(null);
+			setIsListening(true);
+			recognizeAnswer(provider, lang, isCorrect)
+				.then((result) => {
+					setIsListening(false);
+					if (result.success) {
+						onAnswerRef.current(result.answer);
+					} else if (result.error !== "aborted") {
+						setError(result.error);
+					}
+				})
+				.catch(() => {
+					setIsListening(false);
+					setError("other");
+				});
+		},
+		[provider],
+	);
+
+	const stop = useCallback(() => provider?.stop(), [provider]);
+
+	return { isListening, error, listen, stop };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, test } from "vitest";
+import { formatEraYear, fromWareki, isValidDate, toWareki } from "./wareki";
+
+function warekiLabel(year: number, month: number, day: number): string {
+	const wareki = toWareki({ year, month, day });
+	if (!wareki) return "?";
+	return `${wareki.era.kanji}${formatEraYear(wareki.eraYear)}年`;
+}
+
+describe("Wareki Library", () => {
+	describe("toWareki", () => {
+		test("should convert dates inside an era", () => {
+			expect(warekiLabel(2024, 3, 14)).toBe("令和6年");
+			expect(warekiLabel(2000, 1, 1)).toBe("平成12年");
+			expect(warekiLabel(1964, 10, 10)).toBe("昭和39年");
+			expect(warekiLabel(1923, 9, 1)).toBe("大正12年");
+			expect(warekiLabel(1900, 6, 1)).toBe("明治33年");
+		});
+
+		test("should switch eras on the exact day", () => {
+			expect(warekiLabel(2019, 4, 30)).toBe("平成31年");
+			expect(warekiLabel(2019, 5, 1)).toBe("令和元年");
+			expect(warekiLabel(1989, 1, 7)).toBe("昭和64年");
+			expect(warekiLabel(1989, 1, 8)).toBe("平成元年");
+			expect(warekiLabel(1926, 12, 24)).toBe("大正15年");
+			expect(warekiLabel(1926, 12, 25)).toBe("昭和元年");
+			expect(warekiLabel(1912, 7, 29)).toBe("明治45年");
+			expect(warekiLabel(1912, 7, 30)).toBe("大正元年");
+			expect(warekiLabel(1868, 10, 23)).toBe("明治元年");
+		});
+
+		test("should reject dates before Meiji and invalid dates", () => {
+			expect(toWareki({ year: 1868, month: 10, day: 22 })).toBeNull();
+			expect(toWareki({ year: 2023, month: 2, day: 29 })).toBeNull();
+			expect(isValidDate({ year: 2024, month: 2, day: 29 })).toBe(true);
+			expect(isValidDate({ year: 2024, month: 13, day: 1 })).toBe(false);
+		});
+	});
+
+	describe("fromWareki", () => {
+		test("should convert back to the Western calendar", () => {
+			expect(fromWareki("reiwa", 6, 3, 14)).toEqual({
+				year: 2024,
+				month: 3,
+				day: 14,
+			});
+			expect(fromWareki("showa", 64, 1, 7)).toEqual({
+				year: 1989,
+				month: 1,
+				day: 7,
+			});
+		});
+
+		test("should reject dates outside the era", () => {
+			expect(fromWareki("heisei", 31, 5, 1)).toBeNull();
+			expect(fromWareki("showa", 64, 1, 8)).toBeNull();
+			expect(fromWareki("reiwa", 1, 4, 30)).toBeNull();
+			expect(fromWareki("taisho", 0, 1, 1)).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,140 @@
+// Japanese era (和暦) conversion utilities, Meiji through Reiwa
+
+export type EraId = "meiji" | "taisho" | "showa" | "heisei" | "reiwa";
+
+export interface CalendarDate {
+	year: number;
+	month: number; // 1-12
+	day: number; // 1-31
+}
+
+export interface JapaneseEra {
+	id: EraId;
+	kanji: string;
+	hiragana: string;
+	romaji: string;
+	english: string;
+	// First day of the era in the Gregorian calendar
+	start: CalendarDate;
+}
+
+export interface WarekiDate extends CalendarDate {
+	era: JapaneseEra;
+	// Year within the era; 1 is written 元年
+	eraYear: number;
+}
+
+// Eras in chronological order. Each one ends the day before the next starts.
+// Meiji dates before the 1873 switch to the Gregorian calendar are treated
+// as Gregorian.
+export const japaneseEras: JapaneseEra[] = [
+	{
+		id: "meiji",
+		kanji: "明治",
+		hiragana: "めいじ",
+		romaji: "meiji",
+		english: "Meiji",
+		start: { year: 1868, month: 10, day: 23 },
+	},
+	{
+		id: "taisho",
+		kanji: "大正",
+		hiragana: "たいしょう",
+		romaji: "taishou",
+		english: "Taishō",
+		start: { year: 1912, month: 7, day: 30 },
+	},
+	{
+		id: "showa",
+		kanji: "昭和",
+		hiragana: "しょうわ",
+		romaji: "shouwa",
+		english: "Shōwa",
+		start: { year: 1926, month: 12, day: 25 },
+	},
+	{
+		id: "heisei",
+		kanji: "平成",
+		hiragana: "へいせい",
+		romaji: "heisei",
+		english: "Heisei",
+		start: { year: 1989, month: 1, day: 8 },
+	},
+	{
+		id: "reiwa",
+		kanji: "令和",
+		hiragana: "れいわ",
+		romaji: "reiwa",
+		english: "Reiwa",
+		start: { year: 2019, month: 5, day: 1 },
+	},
+];
+
+/**
+ * Compare two dates (negative if a is earlier, 0 if equal)
+ */
+export function compareDates(a: CalendarDate, b: CalendarDate): number {
+	return a.year - b.year || a.month - b.month || a.day - b.day;
+}
+
+/**
+ * Check that a date exists in the Gregorian calendar (no 2月30日)
+ */
+export function isValidDate(date: CalendarDate): boolean {
+	if (!Number.isInteger(date.year) || date.month < 1 || date.month > 12) {
+		return false;
+	}
+	const daysInMonth = new Date(Date.UTC(date.year, date.month, 0)).getUTCDate();
+	return Number.isInteger(date.day) && date.day >= 1 && date.day <= daysInMonth;
+}
+
+/**
+ * Get the era a date falls in, or undefined before Meiji
+ */
+export function getEraForDate(date: CalendarDate): JapaneseEra | undefined {
+	return [...japaneseEras]
+		.reverse()
+		.find((era) => compareDates(date, era.start) >= 0);
+}
+
+/**
+ * Convert a Gregorian date to wareki (2024-03-14 → 令和6年3月14日)
+ */
+export function toWareki(date: CalendarDate): WarekiDate | null {
+	if (!isValidDate(date)) return null;
+
+	const era = getEraForDate(date);
+	if (!era) return null;
+
+	return { ...date, era, eraYear: date.year - era.start.year + 1 };
+}
+
+/**
+ * Convert a wareki date back to the Gregorian calendar. Returns null when the
+ * date is outside the era (平成31年5月1日 is already 令和元年).
+ */
+export function fromWareki(
+	eraId: EraId,
+	eraYear: number,
+	month: number,
+	day: number,
+): CalendarDate | null {
+	const eraIndex = japaneseEras.findIndex((era) => era.id === eraId);
+	const era = japaneseEras[eraIndex];
+	if (!era || eraYear < 1) return null;
+
+	const date = { year: era.start.year + eraYear - 1, month, day };
+	if (!isValidDate(date) || compareDates(date, era.start) < 0) return null;
+
+	const nextEra = japaneseEras[eraIndex + 1];
+	if (nextEra && compareDates(date, nextEra.start) >= 0) return null;
+
+	return date;
+}
+
+/**
+ * Write an era year, using 元 for the first year (元年, 2年, 3年…)
+ */
+export function formatEraYear(eraYear: number): string {
+	return eraYear === 1 ? "元" : eraYear.toString();
+}